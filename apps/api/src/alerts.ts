@@ -0,0 +1,146 @@
+// apps/api/src/alerts.ts
+import {
+  describeRule,
+  ruleMatches,
+  type AlertEvent,
+  type AlertRule,
+} from "@stock-search/shared/alerts";
+import { marketDate, type BarStore } from "./bars";
+import { JsonStore, newId, nowISO } from "./db";
+import type { EventHub } from "./sse";
+
+export type AlertsDoc = { rules: AlertRule[]; events: AlertEvent[] };
+
+export const emptyAlerts = (): AlertsDoc => ({ rules: [], events: [] });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Enough daily history for a 200-period average plus warm-up. */
+const LOOKBACK_DAYS = 400;
+const MAX_EVENTS = 500;
+
+/**
+ * Evaluates enabled rules against the latest daily bars on an interval.
+ * Bars come from the bar store, whose unsettled tail is refetched on its own
+ * TTL, so each pass sees today's bar as it develops. Fired events are stored
+ * and published on the hub as `alert`; snoozed events come back as `alert`
+ * again once the snooze ends.
+ */
+export class AlertEngine {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+
+  constructor(
+    private deps: {
+      db: JsonStore<AlertsDoc>;
+      barStore: BarStore;
+      hub: EventHub;
+    }
+  ) {}
+
+  start(intervalMs: number) {
+    if (this.timer || intervalMs <= 0) return;
+    this.timer = setInterval(() => void this.run(), intervalMs);
+    void this.run();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** One evaluation pass; concurrent callers share the pass in flight. */
+  run() {
+    this.running ??= this.evaluate()
+      .catch((err) => console.error("alert evaluation failed", err))
+      .finally(() => {
+        this.running = null;
+      });
+    return this.running;
+  }
+
+  /** Evaluate a single rule now (e.g. right after it is created). */
+  async check(ruleId: string) {
+    const rule = (await this.deps.db.read()).rules.find((r) => r.id === ruleId);
+    if (rule?.enabled) await this.evaluateTicker(rule.ticker, [rule.id]);
+  }
+
+  private async evaluate() {
+    const { db, hub } = this.deps;
+    const now = nowISO();
+
+    // wake snoozed events whose time has come
+    const woken = await db.update((doc) => {
+      const out: AlertEvent[] = [];
+      for (const e of doc.events) {
+        if (e.status === "snoozed" && e.snoozedUntil && e.snoozedUntil <= now) {
+          e.status = "active";
+          e.snoozedUntil = null;
+          out.push(e);
+        }
+      }
+      return out;
+    });
+    for (const e of woken) hub.publish("alert", e);
+
+    const { rules } = await db.read();
+    const byTicker = new Map<string, string[]>();
+    for (const r of rules) {
+      if (!r.enabled) continue;
+      byTicker.set(r.ticker, [...(byTicker.get(r.ticker) ?? []), r.id]);
+    }
+    for (const [ticker, ids] of byTicker) {
+      try {
+        await this.evaluateTicker(ticker, ids);
+      } catch (err) {
+        console.error(`alerts: ${ticker}`, err);
+      }
+    }
+  }
+
+  private async evaluateTicker(ticker: string, ruleIds: string[]) {
+    const { db, barStore, hub } = this.deps;
+    const to = marketDate(Date.now());
+    const from = marketDate(Date.now() - LOOKBACK_DAYS * DAY_MS);
+    const { bars } = await barStore.getRange(
+      { ticker, multiplier: 1, timespan: "day", adjusted: true },
+      { from, to }
+    );
+    const last = bars.at(-1);
+    if (!last) return;
+
+    const fired = await db.update((doc) => {
+      const out: AlertEvent[] = [];
+      const now = nowISO();
+      for (const rule of doc.rules) {
+        if (!ruleIds.includes(rule.id) || !rule.enabled) continue;
+        const match = ruleMatches(rule, bars);
+        rule.lastBarT = last.t;
+        rule.lastCheckedAt = now;
+        if (!match) {
+          rule.armed = true;
+          continue;
+        }
+        if (!rule.armed) continue;
+        rule.armed = false;
+        const event: AlertEvent = {
+          id: newId(),
+          ruleId: rule.id,
+          ticker: rule.ticker,
+          message: rule.name || describeRule(rule),
+          barT: last.t,
+          close: last.c,
+          firedAt: now,
+          status: "active",
+          snoozedUntil: null,
+          acknowledgedAt: null,
+        };
+        doc.events.push(event);
+        out.push(event);
+      }
+      if (doc.events.length > MAX_EVENTS)
+        doc.events = doc.events.slice(-MAX_EVENTS);
+      return out;
+    });
+    for (const e of fired) hub.publish("alert", e);
+  }
+}
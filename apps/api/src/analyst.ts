@@ -0,0 +1,60 @@
+// apps/api/src/analyst.ts
+import type { Analysis } from "@stock-search/shared/ai";
+import { parseAnalysis } from "@stock-search/shared/analysisSchema";
+import type { ChatMessage } from "./llm";
+
+/** One model call: the conversation so far → the reply text. */
+export type Complete = (messages: ChatMessage[]) => Promise<string>;
+
+/** The model's output still failed the schema after every repair attempt. */
+export class AnalysisValidationError extends Error {
+  constructor(
+    public errors: string[],
+    public attempts: number
+  ) {
+    super(`AI output failed validation after ${attempts} attempt(s)`);
+    this.name = "AnalysisValidationError";
+  }
+}
+
+const repairPrompt = (errors: string[]): ChatMessage => ({
+  role: "user",
+  content: `Your JSON did not match the required schema:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Reply with the complete corrected JSON object only, no commentary.`,
+});
+
+/**
+ * Check `reply` (the model's answer to `messages`) against the analysis
+ * schema. While it fails, show the model its errors and ask again, at most
+ * `retries` times; throws AnalysisValidationError if it never passes.
+ */
+export async function validateWithRepair(opts: {
+  messages: ChatMessage[];
+  reply: string;
+  complete: Complete;
+  retries: number;
+  onRepair?: (errors: string[], attempt: number) => void;
+}): Promise<{ analysis: Analysis; attempts: number; coerced: string[] }> {
+  const convo = [...opts.messages];
+  let reply = opts.reply;
+  for (let attempt = 1; ; attempt++) {
+    const parsed = parseAnalysis(reply);
+    if (parsed.ok)
+      return {
+        analysis: parsed.value,
+        attempts: attempt,
+        coerced: parsed.coerced,
+      };
+    if (attempt > opts.retries)
+      throw new AnalysisValidationError(parsed.errors, attempt);
+
+    opts.onRepair?.(parsed.errors, attempt);
+    convo.push(
+      { role: "assistant", content: reply },
+      repairPrompt(parsed.errors)
+    );
+    reply = await opts.complete(convo);
+  }
+}
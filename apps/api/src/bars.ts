@@ -0,0 +1,376 @@
+// apps/api/src/bars.ts
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { Agg } from "@stock-search/shared/types";
+import { RateLimitError } from "./polygon";
+
+export type { Agg };
+
+/** Inclusive calendar-date range, YYYY-MM-DD (US/Eastern market dates). */
+export type DateRange = { from: string; to: string };
+
+export type SeriesSpec = {
+  ticker: string;
+  multiplier: number;
+  timespan: string;
+  adjusted: boolean;
+};
+
+type StoredSeries = SeriesSpec & {
+  bars: Agg[];
+  coverage: DateRange[]; // settled dates already fetched (never refetched)
+  lastRefresh: string | null; // last time the unsettled tail was fetched
+};
+
+export type BarFetcher = (
+  spec: SeriesSpec,
+  range: DateRange
+) => Promise<
+  { ok: true; bars: Agg[] } | { ok: false; status: number; error: string }
+>;
+
+export type StoreMeta = {
+  coverage: DateRange[];
+  missing: DateRange[]; // requested but still not covered
+  gaps: Array<DateRange & { days: number }>; // suspicious holes between bars
+  fetched: DateRange[]; // ranges pulled upstream for this request
+  lastRefresh: string | null;
+  errors: Array<DateRange & { status: number; error: string }>;
+};
+
+// ---- date helpers (market dates are US/Eastern) ----
+
+const etFmt = new Intl.DateTimeFormat("en-CA", {
+  timeZone: "America/New_York",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+export const marketDate = (ms: number) => etFmt.format(ms);
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** 00:00 US/Eastern on a market date, which is how Polygon stamps daily bars. */
+export function marketMidnight(date: string) {
+  const edt = Date.parse(`${date}T04:00:00Z`);
+  return marketDate(edt) === date ? edt : edt + HOUR_MS;
+}
+
+function addDays(date: string, n: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  return new Date(d.getTime() + n * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(a: string, b: string) {
+  return Math.round(
+    (Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / DAY_MS
+  );
+}
+
+/** Sort + merge overlapping or adjacent ranges. */
+export function mergeRanges(ranges: DateRange[]): DateRange[] {
+  const sorted = [...ranges].sort((a, b) => a.from.localeCompare(b.from));
+  const out: DateRange[] = [];
+  for (const r of sorted) {
+    const last = out.at(-1);
+    if (last && r.from <= addDays(last.to, 1)) {
+      if (r.to > last.to) last.to = r.to;
+    } else {
+      out.push({ ...r });
+    }
+  }
+  return out;
+}
+
+/** Parts of `want` not covered by `have`. */
+export function subtractRanges(want: DateRange, have: DateRange[]) {
+  const out: DateRange[] = [];
+  let cursor = want.from;
+  for (const h of mergeRanges(have)) {
+    if (h.to < cursor) continue;
+    if (h.from > want.to) break;
+    if (h.from > cursor) out.push({ from: cursor, to: addDays(h.from, -1) });
+    cursor = addDays(h.to, 1);
+    if (cursor > want.to) return out;
+  }
+  if (cursor <= want.to) out.push({ from: cursor, to: want.to });
+  return out;
+}
+
+/**
+ * Holes between consecutive daily/weekly bars longer than a normal market
+ * closure (a long weekend is 4 calendar days). Intraday series skip this.
+ */
+export function findGaps(bars: Agg[], spec: Omit<SeriesSpec, "ticker">) {
+  const maxStep =
+    spec.timespan === "day"
+      ? 4 * spec.multiplier
+      : spec.timespan === "week"
+        ? 7 * spec.multiplier + 3
+        : null;
+  if (maxStep == null) return [];
+
+  const gaps: StoreMeta["gaps"] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const a = marketDate(bars[i - 1].t);
+    const b = marketDate(bars[i].t);
+    const days = daysBetween(a, b);
+    if (days > maxStep) {
+      gaps.push({ from: addDays(a, 1), to: addDays(b, -1), days: days - 1 });
+    }
+  }
+  return gaps;
+}
+
+function mergeBars(existing: Agg[], incoming: Agg[]) {
+  const byT = new Map<number, Agg>();
+  for (const b of existing) byT.set(b.t, b);
+  for (const b of incoming) byT.set(b.t, b); // newer data wins
+  return [...byT.values()].sort((a, b) => a.t - b.t);
+}
+
+/**
+ * Local time-series store: one JSON file per ticker/multiplier/timespan.
+ * Settled market dates are fetched once and remembered in `coverage`; only
+ * the still-moving tail (today onward) is re-fetched, at most every
+ * `tailTtlMs`.
+ */
+export class BarStore {
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private dir: string,
+    private fetchBars: BarFetcher,
+    private tailTtlMs = 15 * 60 * 1000
+  ) {}
+
+  async getRange(
+    spec: SeriesSpec,
+    want: DateRange,
+    opts: { refresh?: boolean } = {}
+  ): Promise<{ bars: Agg[]; meta: StoreMeta }> {
+    return this.withLock(this.fileFor(spec), async () => {
+      const series = await this.load(spec);
+      const today = marketDate(Date.now());
+      const fetched: DateRange[] = [];
+      const errors: StoreMeta["errors"] = [];
+
+      // settled part: only what coverage doesn't have yet
+      const settledTo = want.to < today ? want.to : addDays(today, -1);
+      const todo =
+        want.from <= settledTo
+          ? opts.refresh
+            ? [{ from: want.from, to: settledTo }]
+            : subtractRanges(
+                { from: want.from, to: settledTo },
+                series.coverage
+              )
+          : [];
+
+      // unsettled tail: today and later, refreshed on a short TTL
+      const tail =
+        want.to >= today
+          ? { from: want.from > today ? want.from : today, to: want.to }
+          : null;
+      const tailStale =
+        !series.lastRefresh ||
+        Date.now() - Date.parse(series.lastRefresh) > this.tailTtlMs;
+      if (tail && (tailStale || opts.refresh)) todo.push(tail);
+
+      let dirty = false;
+      for (const range of todo) {
+        let result: Awaited<ReturnType<BarFetcher>>;
+        try {
+          result = await this.fetchBars(spec, range);
+        } catch (err) {
+          // serve what we have when rate limited; nothing stored → surface it
+          if (err instanceof RateLimitError && series.bars.length) {
+            errors.push({ ...range, status: 429, error: err.message });
+            continue;
+          }
+          throw err;
+        }
+        if (!result.ok) {
+          errors.push({ ...range, status: result.status, error: result.error });
+          continue;
+        }
+        series.bars = mergeBars(series.bars, result.bars);
+        fetched.push(range);
+        dirty = true;
+        if (range === tail) series.lastRefresh = new Date().toISOString();
+        else series.coverage = mergeRanges([...series.coverage, range]);
+      }
+      if (dirty) await this.save(series);
+
+      const bars = series.bars.filter((b) => {
+        const d = marketDate(b.t);
+        return d >= want.from && d <= want.to;
+      });
+      const settledWant =
+        want.from <= settledTo ? [{ from: want.from, to: settledTo }] : [];
+
+      return {
+        bars,
+        meta: {
+          coverage: series.coverage,
+          missing: settledWant.flatMap((w) =>
+            subtractRanges(w, series.coverage)
+          ),
+          gaps: findGaps(bars, spec),
+          fetched,
+          lastRefresh: series.lastRefresh,
+          errors,
+        },
+      };
+    });
+  }
+
+  /**
+   * Merge bars from another source (bulk import); imported bars win over
+   * stored ones. Settled parts of `covered` are marked as fetched so
+   * upstream is never asked for them.
+   */
+  async importBars(spec: SeriesSpec, bars: Agg[], covered: DateRange[]) {
+    return this.withLock(this.fileFor(spec), async () => {
+      const series = await this.load(spec);
+      const stored = new Map(series.bars.map((b) => [b.t, b]));
+      let replaced = 0;
+      for (const b of bars) {
+        const old = stored.get(b.t);
+        if (
+          old &&
+          (old.o !== b.o ||
+            old.h !== b.h ||
+            old.l !== b.l ||
+            old.c !== b.c ||
+            old.v !== b.v)
+        )
+          replaced++;
+      }
+      const before = series.bars.length;
+      series.bars = mergeBars(series.bars, bars);
+
+      const settledTo = addDays(marketDate(Date.now()), -1);
+      const settled = covered
+        .filter((r) => r.from <= settledTo)
+        .map((r) => (r.to > settledTo ? { ...r, to: settledTo } : r));
+      series.coverage = mergeRanges([...series.coverage, ...settled]);
+      await this.save(series);
+      return { added: series.bars.length - before, replaced };
+    });
+  }
+
+  /** Stored bars as they are on disk; never calls upstream. */
+  async peek(spec: SeriesSpec): Promise<Agg[]> {
+    return (await this.load(spec)).bars;
+  }
+
+  /** Summary of every stored series (no bars). */
+  async list() {
+    const out: Array<
+      SeriesSpec & {
+        count: number;
+        first: string | null;
+        last: string | null;
+        coverage: DateRange[];
+        lastRefresh: string | null;
+      }
+    > = [];
+    let tickers: string[] = [];
+    try {
+      tickers = await fs.readdir(this.dir);
+    } catch {
+      return out;
+    }
+    for (const t of tickers) {
+      const files = await fs.readdir(path.join(this.dir, t)).catch(() => []);
+      for (const f of files) {
+        if (!f.endsWith(".json")) continue;
+        const s = await this.readFile(path.join(this.dir, t, f));
+        if (!s) continue;
+        const { bars, ...rest } = s;
+        out.push({
+          ...rest,
+          count: bars.length,
+          first: bars.length ? marketDate(bars[0].t) : null,
+          last: bars.length ? marketDate(bars[bars.length - 1].t) : null,
+        });
+      }
+    }
+    return out;
+  }
+
+  /** Drop stored series for a ticker (all timespans) or a single spec. */
+  async remove(ticker: string, spec?: Omit<SeriesSpec, "ticker">) {
+    if (spec) {
+      await fs.rm(this.fileFor({ ticker, ...spec }), { force: true });
+    } else {
+      await fs.rm(path.join(this.dir, safe(ticker)), {
+        recursive: true,
+        force: true,
+      });
+    }
+  }
+
+  private fileFor(spec: SeriesSpec) {
+    const name = `${spec.multiplier}-${safe(spec.timespan)}${spec.adjusted ? "" : "-raw"}.json`;
+    return path.join(this.dir, safe(spec.ticker), name);
+  }
+
+  private async load(spec: SeriesSpec): Promise<StoredSeries> {
+    return (
+      (await this.readFile(this.fileFor(spec))) ?? {
+        ...spec,
+        bars: [],
+        coverage: [],
+        lastRefresh: null,
+      }
+    );
+  }
+
+  private async save(series: StoredSeries) {
+    const file = this.fileFor(series);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(series));
+    await fs.rename(tmp, file);
+  }
+
+  /**
+   * A missing file is an empty series. One that won't parse is moved aside
+   * rather than overwritten by the next save; other read errors propagate.
+   */
+  private async readFile(file: string): Promise<StoredSeries | null> {
+    let text: string;
+    try {
+      text = await fs.readFile(file, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+    try {
+      return JSON.parse(text) as StoredSeries;
+    } catch (err) {
+      const aside = `${file}.corrupt-${Date.now()}`;
+      await fs.rename(file, aside);
+      console.warn(`${file} is not valid JSON; moved to ${aside}`, err);
+      return null;
+    }
+  }
+
+  // serialize read-modify-write per series file
+  private async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const prev = this.locks.get(key) ?? Promise.resolve();
+    const run = prev.catch(() => {}).then(fn);
+    this.locks.set(key, run);
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(key) === run) this.locks.delete(key);
+    }
+  }
+}
+
+const safe = (s: string) => s.replace(/[^A-Za-z0-9._-]/g, "_");
@@ -0,0 +1,274 @@
+// apps/api/src/cache.ts
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { Request, Response } from "express";
+
+/** What a route hands back to the cache: enough to replay the HTTP response. */
+export type CachedBody = {
+  status: number;
+  contentType: string;
+  body: Buffer;
+};
+
+export type CacheEntry = CachedBody & {
+  key: string;
+  route: string;
+  storedAt: number; // epoch ms
+  expiresAt: number; // epoch ms
+};
+
+export type CacheEntryInfo = Omit<CacheEntry, "body"> & {
+  size: number;
+  expired: boolean;
+};
+
+export type PurgeFilter = {
+  key?: string;
+  route?: string;
+  prefix?: string;
+  expiredOnly?: boolean;
+};
+
+// on-disk shape: body is base64 so binary (logos) and JSON share one format
+type DiskEntry = Omit<CacheEntry, "body"> & { body: string };
+
+/** Stable cache key: route plus sorted query params. */
+export function cacheKey(
+  route: string,
+  params: Record<string, string | number | boolean | undefined> = {}
+) {
+  const q = new URLSearchParams();
+  for (const k of Object.keys(params).sort()) {
+    const v = params[k];
+    if (v !== undefined) q.set(k, String(v));
+  }
+  const qs = q.toString();
+  return qs ? `${route}?${qs}` : route;
+}
+
+/**
+ * Two-tier response cache: a bounded in-memory LRU in front of one JSON file
+ * per entry under `dir`, so entries survive restarts.
+ */
+export class ResponseCache {
+  private memory = new Map<string, CacheEntry>();
+  private counters = { hits: 0, misses: 0, writes: 0 };
+
+  constructor(
+    private dir: string,
+    private maxMemoryEntries = 500
+  ) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    let entry = this.memory.get(key) ?? null;
+    if (entry) {
+      // refresh LRU position
+      this.memory.delete(key);
+      this.memory.set(key, entry);
+    } else {
+      entry = await this.readDisk(key);
+      if (entry) this.remember(entry);
+    }
+
+    if (entry && entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      entry = null;
+    }
+
+    if (entry) this.counters.hits++;
+    else this.counters.misses++;
+    return entry;
+  }
+
+  async set(entry: CacheEntry) {
+    this.remember(entry);
+    this.counters.writes++;
+    const disk: DiskEntry = { ...entry, body: entry.body.toString("base64") };
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = this.fileFor(entry.key);
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(disk));
+    await fs.rename(tmp, file);
+  }
+
+  async delete(key: string) {
+    this.memory.delete(key);
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  /** Remove every entry matching the filter (all entries when empty). */
+  async purge(filter: PurgeFilter = {}): Promise<number> {
+    if (filter.key) {
+      const existed =
+        this.memory.has(filter.key) ||
+        (await this.readDisk(filter.key)) != null;
+      await this.delete(filter.key);
+      return existed ? 1 : 0;
+    }
+
+    const now = Date.now();
+    let purged = 0;
+    for (const info of await this.list()) {
+      if (filter.route && info.route !== filter.route) continue;
+      if (filter.prefix && !info.key.startsWith(filter.prefix)) continue;
+      if (filter.expiredOnly && info.expiresAt > now) continue;
+      await this.delete(info.key);
+      purged++;
+    }
+    return purged;
+  }
+
+  /** Metadata for every persisted entry (bodies omitted). */
+  async list(): Promise<CacheEntryInfo[]> {
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const now = Date.now();
+    const out: CacheEntryInfo[] = [];
+    for (const f of files) {
+      if (!f.endsWith(".json")) continue;
+      const disk = await this.readFile(path.join(this.dir, f));
+      if (!disk) continue;
+      const { body, ...meta } = disk;
+      out.push({
+        ...meta,
+        size: Buffer.byteLength(body, "base64"),
+        expired: meta.expiresAt <= now,
+      });
+    }
+    return out.sort((a, b) => b.storedAt - a.storedAt);
+  }
+
+  stats() {
+    return { ...this.counters, memoryEntries: this.memory.size };
+  }
+
+  private remember(entry: CacheEntry) {
+    this.memory.delete(entry.key);
+    this.memory.set(entry.key, entry);
+    while (this.memory.size > this.maxMemoryEntries) {
+      const oldest = this.memory.keys().next().value;
+      if (oldest === undefined) break;
+      this.memory.delete(oldest);
+    }
+  }
+
+  private fileFor(key: string) {
+    const hash = createHash("sha1").update(key).digest("hex");
+    return path.join(this.dir, `${hash}.json`);
+  }
+
+  private async readDisk(key: string): Promise<CacheEntry | null> {
+    const disk = await this.readFile(this.fileFor(key));
+    // guard against (unlikely) hash collisions
+    if (!disk || disk.key !== key) return null;
+    return { ...disk, body: Buffer.from(disk.body, "base64") };
+  }
+
+  private async readFile(file: string): Promise<DiskEntry | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8")) as DiskEntry;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/** True when the client explicitly asked to skip cached copies. */
+function wantsFresh(req: Request) {
+  const cc = String(req.headers["cache-control"] ?? "").toLowerCase();
+  return cc.includes("no-cache") || cc.includes("no-store");
+}
+
+/**
+ * Serve `key` from cache, or run `load` and store the result for `ttlMs`.
+ * Only 2xx responses are stored. Sets X-Cache (HIT | MISS | BYPASS), Age and
+ * X-Cache-Expires so callers can see where a response came from.
+ */
+export async function sendCached(
+  cache: ResponseCache,
+  req: Request,
+  res: Response,
+  opts: {
+    route: string;
+    key: string;
+    ttlMs: number;
+    /** Cache-Control sent to browsers on 2xx responses */
+    clientCacheControl?: string;
+  },
+  load: () => Promise<CachedBody>
+) {
+  const bypass = wantsFresh(req);
+  const hit = bypass ? null : await cache.get(opts.key);
+
+  if (hit) {
+    res.set("X-Cache", "HIT");
+    res.set("Age", String(Math.floor((Date.now() - hit.storedAt) / 1000)));
+    res.set("X-Cache-Expires", new Date(hit.expiresAt).toISOString());
+    if (opts.clientCacheControl)
+      res.set("Cache-Control", opts.clientCacheControl);
+    res.set("Content-Type", hit.contentType);
+    return res.status(hit.status).send(hit.body);
+  }
+
+  const fresh = await load();
+  const ok = fresh.status >= 200 && fresh.status < 300;
+  res.set("X-Cache", bypass ? "BYPASS" : "MISS");
+  if (ok && opts.clientCacheControl) {
+    res.set("Cache-Control", opts.clientCacheControl);
+  }
+
+  if (ok && opts.ttlMs > 0) {
+    const now = Date.now();
+    const entry: CacheEntry = {
+      ...fresh,
+      key: opts.key,
+      route: opts.route,
+      storedAt: now,
+      expiresAt: now + opts.ttlMs,
+    };
+    try {
+      await cache.set(entry);
+      res.set("X-Cache-Expires", new Date(entry.expiresAt).toISOString());
+    } catch (err) {
+      // a failed disk write must never fail the request itself
+      console.error("cache write error", err);
+    }
+  }
+
+  res.set("Content-Type", fresh.contentType);
+  return res.status(fresh.status).send(fresh.body);
+}
+
+/**
+ * Server-side counterpart of `sendCached`: return the cached body for `key`
+ * or run `load` and store a 2xx result, without touching an HTTP response.
+ */
+export async function getCached(
+  cache: ResponseCache,
+  opts: { route: string; key: string; ttlMs: number },
+  load: () => Promise<CachedBody>
+): Promise<CachedBody> {
+  const hit = await cache.get(opts.key);
+  if (hit) return hit;
+
+  const fresh = await load();
+  if (fresh.status >= 200 && fresh.status < 300 && opts.ttlMs > 0) {
+    const now = Date.now();
+    await cache
+      .set({
+        ...fresh,
+        key: opts.key,
+        route: opts.route,
+        storedAt: now,
+        expiresAt: now + opts.ttlMs,
+      })
+      .catch((err) => console.error("cache write error", err));
+  }
+  return fresh;
+}
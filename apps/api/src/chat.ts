@@ -0,0 +1,63 @@
+// apps/api/src/chat.ts
+import type {
+  ChatContext,
+  ChatTranscript,
+  ChatTurn,
+} from "@stock-search/shared/ai";
+import { JsonStore, NotFoundError, nowISO } from "./db";
+import { isHistorySymbol, symbolFile } from "./history";
+
+type ChatDoc = Omit<ChatTranscript, "ticker">;
+
+/**
+ * One follow-up conversation per ticker, a JSON file each (like analysis
+ * history), with the snapshot it is grounded in.
+ */
+export class ChatStore {
+  private stores = new Map<string, JsonStore<ChatDoc>>();
+
+  constructor(
+    private dir: string,
+    private maxMessages = 200
+  ) {}
+
+  private store(ticker: string) {
+    if (!isHistorySymbol(ticker))
+      throw new NotFoundError(`no chat for ${ticker}`);
+    let s = this.stores.get(ticker);
+    if (!s) {
+      s = new JsonStore<ChatDoc>(symbolFile(this.dir, ticker), () => ({
+        context: null,
+        messages: [],
+      }));
+      this.stores.set(ticker, s);
+    }
+    return s;
+  }
+
+  async get(ticker: string): Promise<ChatTranscript> {
+    return { ticker, ...(await this.store(ticker).read()) };
+  }
+
+  /** Add a finished exchange, and the context it was answered from if new. */
+  async append(
+    ticker: string,
+    turns: ChatTurn[],
+    context?: Omit<ChatContext, "at">
+  ) {
+    await this.store(ticker).update((doc) => {
+      if (context) doc.context = { ...context, at: nowISO() };
+      doc.messages.push(...turns);
+      if (doc.messages.length > this.maxMessages)
+        doc.messages.splice(0, doc.messages.length - this.maxMessages);
+    });
+  }
+
+  /** Forget the conversation and its context. */
+  async clear(ticker: string) {
+    await this.store(ticker).update((doc) => {
+      doc.context = null;
+      doc.messages = [];
+    });
+  }
+}
@@ -0,0 +1,63 @@
+// apps/api/src/config.ts
+import path from "node:path";
+
+/** Root directory for everything the API persists locally (cache, stores). */
+export const DATA_DIR = path.resolve(process.env.DATA_DIR ?? "data");
+
+/**
+ * Bearer token guarding /api/admin/*. When unset, those endpoints only
+ * answer local, non-browser requests (curl, scripts on this machine).
+ */
+export const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+
+/** How often the alert engine re-evaluates rules; 0 disables the schedule. */
+export const ALERTS_INTERVAL_MS = Number(
+  process.env.ALERTS_INTERVAL_MS ?? 5 * 60 * 1000
+);
+
+/**
+ * Screener background refresh: tick interval and tickers per tick. Off (0)
+ * by default, since each ticker spends upstream calls from the same rate
+ * limit interactive requests use; on a 5/min plan, e.g. 300000 with batch 1.
+ */
+export const SCREENER_INTERVAL_MS = Number(
+  process.env.SCREENER_INTERVAL_MS ?? 0
+);
+export const SCREENER_BATCH = Number(process.env.SCREENER_BATCH ?? 2);
+
+/** Market data source: "polygon" (default) or "csv" (files under MARKET_DATA_DIR). */
+export const MARKET_DATA_PROVIDER =
+  process.env.MARKET_DATA_PROVIDER ?? "polygon";
+export const MARKET_DATA_DIR = path.resolve(
+  process.env.MARKET_DATA_DIR ?? path.join(DATA_DIR, "market")
+);
+
+/** Largest file accepted by POST /api/admin/import (bytes or "100mb"). */
+export const IMPORT_MAX_BYTES = process.env.IMPORT_MAX_BYTES ?? "100mb";
+
+/** Analysis runs kept per ticker; the oldest are dropped beyond this. */
+export const ANALYSIS_HISTORY_MAX = Number(
+  process.env.ANALYSIS_HISTORY_MAX ?? 200
+);
+
+/** Times a schema-invalid analysis is sent back to the model for repair. */
+export const AI_REPAIR_RETRIES = Number(process.env.AI_REPAIR_RETRIES ?? 2);
+
+/** Chat model backend: "openai" (default), "local" or "mock". */
+export const LLM_PROVIDER = process.env.LLM_PROVIDER ?? "openai";
+/** Overrides the default provider's model. */
+export const LLM_MODEL = process.env.LLM_MODEL;
+export const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+
+/** OpenAI-compatible local server (Ollama, vLLM, LM Studio...). */
+export const LLM_LOCAL_BASE_URL =
+  process.env.LLM_LOCAL_BASE_URL ?? "http://localhost:11434/v1";
+export const LLM_LOCAL_MODEL = process.env.LLM_LOCAL_MODEL ?? "llama3.1";
+export const LLM_LOCAL_API_KEY = process.env.LLM_LOCAL_API_KEY;
+
+/** Prompt version for analyses unless a request picks one; latest if unset. */
+export const ANALYZE_PROMPT = process.env.ANALYZE_PROMPT;
+
+/** Chat messages kept per ticker, and how many recent ones go to the model. */
+export const CHAT_MAX_MESSAGES = Number(process.env.CHAT_MAX_MESSAGES ?? 200);
+export const CHAT_PROMPT_TURNS = Number(process.env.CHAT_PROMPT_TURNS ?? 12);
@@ -0,0 +1,47 @@
+// apps/api/src/csv.ts
+
+/**
+ * RFC 4180-ish CSV: quoted fields may hold commas, quotes ("") and newlines.
+ * Returns raw rows; blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') field += ch;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n") endRow();
+    else if (ch !== "\r") field += ch;
+  }
+  if (field !== "" || row.length) endRow();
+  return rows;
+}
+
+/** Rows keyed by header name (trimmed, lower-cased). */
+export function parseCsvRecords(text: string, delimiter = ",") {
+  const [header = [], ...rows] = parseCsv(
+    text.replace(/^\uFEFF/, ""),
+    delimiter
+  );
+  const keys = header.map((h) => h.trim().toLowerCase());
+  return rows.map((r) =>
+    Object.fromEntries(keys.map((k, i) => [k, (r[i] ?? "").trim()]))
+  ) as Record<string, string>[];
+}
@@ -0,0 +1,85 @@
+// apps/api/src/db.ts
+import { promises as fs } from "node:fs";
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+
+/**
+ * Tiny single-file JSON document store. Reads are served from memory after
+ * the first load; `update` serializes read-modify-write cycles and persists
+ * atomically (tmp file + rename), so a crash never leaves a torn file.
+ */
+export class JsonStore<T> {
+  private data: T | null = null;
+  private loading: Promise<T> | null = null;
+  private chain: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private file: string,
+    private empty: () => T
+  ) {}
+
+  /**
+   * A missing file is an empty store. A file that won't parse is moved aside
+   * (kept for recovery, never overwritten) and the store starts empty; any
+   * other read error propagates.
+   */
+  read(): Promise<T> {
+    if (this.data) return Promise.resolve(this.data);
+    // concurrent first reads share one load; a failed load can be retried
+    this.loading ??= this.load().finally(() => (this.loading = null));
+    return this.loading;
+  }
+
+  private async load(): Promise<T> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.file, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      return (this.data = this.empty());
+    }
+    try {
+      this.data = JSON.parse(text) as T;
+    } catch (err) {
+      const aside = `${this.file}.corrupt-${Date.now()}`;
+      await fs.rename(this.file, aside);
+      console.error(`${this.file} is not valid JSON; moved to ${aside}`, err);
+      this.data = this.empty();
+    }
+    return this.data;
+  }
+
+  /** Mutate the document in place (or return a replacement) and persist it. */
+  update<R>(fn: (doc: T) => R | Promise<R>): Promise<R> {
+    const run = this.chain
+      .catch(() => {})
+      .then(async () => {
+        const doc = structuredClone(await this.read());
+        const result = await fn(doc);
+        await this.write(doc);
+        this.data = doc;
+        return result;
+      });
+    this.chain = run;
+    return run;
+  }
+
+  private async write(doc: T) {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(doc, null, 2));
+    await fs.rename(tmp, this.file);
+  }
+}
+
+/** Thrown when a route addresses a record that does not exist. */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+export const newId = () => randomUUID();
+
+export const nowISO = () => new Date().toISOString();
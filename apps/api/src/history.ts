@@ -0,0 +1,77 @@
+// apps/api/src/history.ts
+import path from "node:path";
+import {
+  summarizeRun,
+  type AnalysisRun,
+  type AnalysisRunSummary,
+} from "@stock-search/shared/ai";
+import { JsonStore, NotFoundError, newId, nowISO } from "./db";
+
+export type HistoryDoc = { runs: AnalysisRun[] };
+
+const SYMBOL_RE = /^[A-Z0-9.:-]{1,16}$/;
+
+export const isHistorySymbol = (s: unknown): s is string =>
+  typeof s === "string" && SYMBOL_RE.test(s);
+
+/** Per-ticker file; the encoding is reversible, so BRK.B and BRK:B differ. */
+export const symbolFile = (dir: string, ticker: string) =>
+  path.join(dir, `${encodeURIComponent(ticker)}.json`);
+
+/**
+ * Every analysis run, one JSON file per ticker (payloads make runs large, so
+ * a single file would be rewritten wholesale on every run). Oldest first.
+ */
+export class AnalysisHistory {
+  private stores = new Map<string, JsonStore<HistoryDoc>>();
+
+  constructor(
+    private dir: string,
+    private maxRuns = 200
+  ) {}
+
+  private store(ticker: string) {
+    if (!isHistorySymbol(ticker))
+      throw new NotFoundError(`no history for ${ticker}`);
+    let s = this.stores.get(ticker);
+    if (!s) {
+      s = new JsonStore<HistoryDoc>(symbolFile(this.dir, ticker), () => ({
+        runs: [],
+      }));
+      this.stores.set(ticker, s);
+    }
+    return s;
+  }
+
+  async record(
+    run: Omit<AnalysisRun, "id" | "createdAt">
+  ): Promise<AnalysisRun> {
+    const full: AnalysisRun = { id: newId(), createdAt: nowISO(), ...run };
+    await this.store(run.ticker).update((doc) => {
+      doc.runs.push(full);
+      if (doc.runs.length > this.maxRuns)
+        doc.runs.splice(0, doc.runs.length - this.maxRuns);
+    });
+    return full;
+  }
+
+  /** Newest first. */
+  async list(ticker: string, limit = 50): Promise<AnalysisRunSummary[]> {
+    const { runs } = await this.store(ticker).read();
+    return runs.slice(-limit).reverse().map(summarizeRun);
+  }
+
+  async get(ticker: string, id: string): Promise<AnalysisRun> {
+    const run = (await this.store(ticker).read()).runs.find((r) => r.id === id);
+    if (!run) throw new NotFoundError(`run ${id} not found`);
+    return run;
+  }
+
+  async remove(ticker: string, id: string) {
+    await this.store(ticker).update((doc) => {
+      const i = doc.runs.findIndex((r) => r.id === id);
+      if (i < 0) throw new NotFoundError(`run ${id} not found`);
+      doc.runs.splice(i, 1);
+    });
+  }
+}
@@ -0,0 +1,333 @@
+// apps/api/src/importer.ts
+import { parquetReadObjects } from "hyparquet";
+import {
+  findGaps,
+  marketMidnight,
+  subtractRanges,
+  type Agg,
+  type BarStore,
+  type DateRange,
+} from "./bars";
+import { parseCsvRecords } from "./csv";
+
+const FIELDS = [
+  "date",
+  "ticker",
+  "open",
+  "high",
+  "low",
+  "close",
+  "volume",
+  "vwap",
+] as const;
+type Field = (typeof FIELDS)[number];
+
+/** Source columns tried, in order, when a field isn't mapped explicitly. */
+const ALIASES: Record<Field, string[]> = {
+  date: ["date", "timestamp", "datetime", "time", "day", "t"],
+  ticker: ["ticker", "symbol"],
+  open: ["open", "o"],
+  high: ["high", "h"],
+  low: ["low", "l"],
+  close: ["close", "c"],
+  volume: ["volume", "vol", "v"],
+  vwap: ["vwap", "vw"],
+};
+
+export type ImportOptions = {
+  /** Detected from the file contents when omitted. */
+  format?: "csv" | "parquet";
+  /** Ticker for files without a ticker column. */
+  ticker?: string;
+  /** Field → source column name, e.g. { close: "Adj Close" }. */
+  columns?: Partial<Record<Field, string>>;
+  /**
+   * IANA zone whose calendar date a timestamp falls on is the bar's date.
+   * Plain YYYY-MM-DD values are taken as-is.
+   */
+  timezone?: string;
+  delimiter?: string;
+  /** Write the adjusted (default) or the raw series. */
+  adjusted?: boolean;
+  /** Validate and report without writing anything. */
+  dryRun?: boolean;
+};
+
+export type TickerReport = {
+  ticker: string;
+  bars: number;
+  first: string;
+  last: string;
+  duplicates: { count: number; dates: string[] };
+  gaps: Array<DateRange & { days: number }>;
+  added?: number;
+  replaced?: number;
+};
+
+export type ImportReport = {
+  format: "csv" | "parquet";
+  rows: number;
+  valid: number;
+  invalid: { count: number; samples: { row: number; error: string }[] };
+  tickers: TickerReport[];
+  dryRun: boolean;
+};
+
+/** The file itself can't be imported (as opposed to individual bad rows). */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+const MAX_SAMPLES = 50;
+const DATE_RE = /^(\d{4})-?(\d{2})-?(\d{2})(?:[T ]|$)/;
+const ZONED_RE = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+export function validateImportOptions(input: ImportOptions): string[] {
+  const errors: string[] = [];
+  if (input.format && input.format !== "csv" && input.format !== "parquet")
+    errors.push('format must be "csv" or "parquet"');
+  if (input.ticker != null && !/^[A-Za-z0-9.:_-]{1,20}$/.test(input.ticker))
+    errors.push("ticker is not a valid symbol");
+  for (const k of Object.keys(input.columns ?? {}))
+    if (!FIELDS.includes(k as Field))
+      errors.push(`columns.${k} is not one of ${FIELDS.join(", ")}`);
+  if (input.timezone) {
+    try {
+      new Intl.DateTimeFormat("en-CA", { timeZone: input.timezone });
+    } catch {
+      errors.push(`unknown timezone "${input.timezone}"`);
+    }
+  }
+  if (input.delimiter != null && input.delimiter.length !== 1)
+    errors.push("delimiter must be a single character");
+  return errors;
+}
+
+/** "close:Adj Close,date:Day" → { close: "Adj Close", date: "Day" } */
+export function parseColumnMapping(spec: string) {
+  const out: Record<string, string> = {};
+  for (const pair of spec.split(",")) {
+    const i = pair.indexOf(":");
+    if (i > 0) out[pair.slice(0, i).trim()] = pair.slice(i + 1).trim();
+  }
+  return out as ImportOptions["columns"];
+}
+
+/** Parquet files start (and end) with the magic bytes "PAR1". */
+const isParquet = (buf: Buffer) =>
+  buf.length >= 4 && buf.toString("latin1", 0, 4) === "PAR1";
+
+async function readRows(
+  buf: Buffer,
+  format: "csv" | "parquet",
+  delimiter = ","
+) {
+  if (format === "csv")
+    return parseCsvRecords(buf.toString("utf8"), delimiter) as Record<
+      string,
+      unknown
+    >[];
+  const file = new Uint8Array(buf).buffer; // a copy, so never shared
+  const rows = await parquetReadObjects({ file, rowFormat: "object" }).catch(
+    (err) => {
+      throw new ImportError(`unreadable parquet file: ${err.message}`);
+    }
+  );
+  // match column names case-insensitively, like CSV headers
+  return rows.map((r) =>
+    Object.fromEntries(
+      Object.entries(r).map(([k, v]) => [k.trim().toLowerCase(), v])
+    )
+  );
+}
+
+function toNumber(v: unknown) {
+  if (typeof v === "bigint") return Number(v);
+  if (typeof v === "number") return v;
+  if (typeof v === "string" && v.trim() !== "")
+    return Number(v.replace(/,/g, ""));
+  return NaN;
+}
+
+/** Epoch value in s, ms, µs or ns → ms. */
+function epochMs(n: number) {
+  const abs = Math.abs(n);
+  return abs < 1e11
+    ? n * 1000
+    : abs < 1e14
+      ? n
+      : abs < 1e17
+        ? n / 1e3
+        : n / 1e6;
+}
+
+/** Market date (YYYY-MM-DD) for a date cell, or null if unparseable. */
+function barDate(v: unknown, zone: Intl.DateTimeFormat): string | null {
+  if (v instanceof Date)
+    return Number.isNaN(v.getTime()) ? null : zone.format(v);
+  if (typeof v === "number" || typeof v === "bigint") {
+    const n = Number(v);
+    return Number.isFinite(n) ? zone.format(epochMs(n)) : null;
+  }
+  if (typeof v !== "string") return null;
+  const s = v.trim();
+  if (/^\d{9,}$/.test(s)) return zone.format(epochMs(Number(s)));
+  const m = DATE_RE.exec(s);
+  if (!m) return null;
+  if (s.length > 10 && ZONED_RE.test(s)) {
+    const ms = Date.parse(s);
+    return Number.isNaN(ms) ? null : zone.format(ms);
+  }
+  const date = `${m[1]}-${m[2]}-${m[3]}`;
+  // reject impossible dates such as 2024-02-30
+  return new Date(`${date}T00:00:00Z`).toISOString().startsWith(date)
+    ? date
+    : null;
+}
+
+/** Source column for each field: explicit mapping first, then aliases. */
+function resolveColumns(
+  present: string[],
+  mapping: ImportOptions["columns"] = {}
+) {
+  const has = new Set(present);
+  const out: Partial<Record<Field, string>> = {};
+  for (const f of FIELDS) {
+    const explicit = mapping[f]?.trim().toLowerCase();
+    out[f] =
+      explicit != null
+        ? has.has(explicit)
+          ? explicit
+          : undefined
+        : ALIASES[f].find((a) => has.has(a));
+  }
+  return out;
+}
+
+/**
+ * Parse, validate and (unless `dryRun`) merge daily bars from a CSV or
+ * Parquet file into the BarStore. Rows that fail validation are skipped
+ * and reported; repeated dates keep the last row.
+ */
+export async function importBars(
+  store: BarStore,
+  buf: Buffer,
+  opts: ImportOptions = {}
+): Promise<ImportReport> {
+  const format = opts.format ?? (isParquet(buf) ? "parquet" : "csv");
+  const rows = await readRows(buf, format, opts.delimiter);
+  const cols = resolveColumns(Object.keys(rows[0] ?? {}), opts.columns);
+
+  const missing: string[] = (
+    ["date", "open", "high", "low", "close"] as const
+  ).filter((f) => !cols[f]);
+  if (!cols.ticker && !opts.ticker) missing.push("ticker");
+  if (rows.length && missing.length)
+    throw new ImportError(
+      `missing column(s): ${missing.join(", ")} (map them with columns)`
+    );
+
+  const zone = new Intl.DateTimeFormat("en-CA", {
+    timeZone: opts.timezone ?? "America/New_York",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+  const invalid: ImportReport["invalid"] = { count: 0, samples: [] };
+  const reject = (row: number, error: string) => {
+    invalid.count++;
+    if (invalid.samples.length < MAX_SAMPLES)
+      invalid.samples.push({ row, error });
+  };
+
+  // ticker → date → bar (last row for a date wins)
+  const byTicker = new Map<string, Map<string, Agg>>();
+  const dupes = new Map<string, string[]>();
+  rows.forEach((r, i) => {
+    const row = format === "csv" ? i + 2 : i + 1; // CSV counts the header
+    const ticker = String((cols.ticker && r[cols.ticker]) || opts.ticker || "")
+      .trim()
+      .toUpperCase();
+    if (!ticker) return reject(row, "missing ticker");
+    const date = barDate(r[cols.date!], zone);
+    if (!date) return reject(row, `invalid date "${String(r[cols.date!])}"`);
+
+    const [o, h, l, c] = (["open", "high", "low", "close"] as const).map((f) =>
+      toNumber(r[cols[f]!])
+    );
+    const v = cols.volume ? toNumber(r[cols.volume]) : 0;
+    const vw = cols.vwap ? toNumber(r[cols.vwap]) : NaN;
+    if (![o, h, l, c].every((n) => Number.isFinite(n) && n > 0))
+      return reject(row, "open/high/low/close must be positive numbers");
+    if (h < Math.max(o, c, l) || l > Math.min(o, c))
+      return reject(row, "high/low do not bracket open and close");
+    if (!Number.isFinite(v) || v < 0)
+      return reject(row, "volume must be a non-negative number");
+
+    let dates = byTicker.get(ticker);
+    if (!dates) byTicker.set(ticker, (dates = new Map()));
+    if (dates.has(date)) {
+      const list = dupes.get(ticker) ?? [];
+      list.push(date);
+      dupes.set(ticker, list);
+    }
+    dates.set(date, {
+      t: marketMidnight(date),
+      o,
+      h,
+      l,
+      c,
+      v,
+      ...(Number.isFinite(vw) ? { vw } : {}),
+    });
+  });
+
+  const spec = {
+    multiplier: 1,
+    timespan: "day",
+    adjusted: opts.adjusted ?? true,
+  };
+  const tickers: TickerReport[] = [];
+  for (const [ticker, dates] of [...byTicker].sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    const ordered = [...dates].sort(([a], [b]) => a.localeCompare(b));
+    const bars = ordered.map(([, b]) => b);
+    const first = ordered[0][0];
+    const last = ordered[ordered.length - 1][0];
+    const gaps = findGaps(bars, spec);
+    const dupDates = dupes.get(ticker) ?? [];
+    const report: TickerReport = {
+      ticker,
+      bars: bars.length,
+      first,
+      last,
+      duplicates: {
+        count: dupDates.length,
+        dates: dupDates.slice(0, MAX_SAMPLES),
+      },
+      gaps,
+    };
+    if (!opts.dryRun) {
+      // leave gaps uncovered so upstream can still fill them
+      const covered = subtractRanges({ from: first, to: last }, gaps);
+      Object.assign(
+        report,
+        await store.importBars({ ticker, ...spec }, bars, covered)
+      );
+    }
+    tickers.push(report);
+  }
+
+  return {
+    format,
+    rows: rows.length,
+    valid: rows.length - invalid.count,
+    invalid,
+    tickers,
+    dryRun: !!opts.dryRun,
+  };
+}
@@ -2,10 +2,75 @@ import "dotenv/config";
 import express from "express";
 import cors from "cors";
 
-import OpenAI from "openai";
-import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+import path from "node:path";
+import type { NextFunction, Request, Response } from "express";
+import {
+  ResponseCache,
+  cacheKey,
+  getCached,
+  sendCached,
+  type CachedBody,
+} from "./cache";
+import { AlertEngine, emptyAlerts, type AlertsDoc } from "./alerts";
+import { AnalysisValidationError, validateWithRepair } from "./analyst";
+import { BarStore } from "./bars";
+import { ChatStore } from "./chat";
+import {
+  ADMIN_TOKEN,
+  AI_REPAIR_RETRIES,
+  ALERTS_INTERVAL_MS,
+  ANALYSIS_HISTORY_MAX,
+  ANALYZE_PROMPT,
+  CHAT_MAX_MESSAGES,
+  CHAT_PROMPT_TURNS,
+  DATA_DIR,
+  IMPORT_MAX_BYTES,
+  MARKET_DATA_DIR,
+  MARKET_DATA_PROVIDER,
+  SCREENER_BATCH,
+  SCREENER_INTERVAL_MS,
+} from "./config";
+import { JsonStore, NotFoundError } from "./db";
+import { AnalysisHistory, isHistorySymbol } from "./history";
+import {
+  ImportError,
+  importBars,
+  parseColumnMapping,
+  validateImportOptions,
+  type ImportOptions,
+} from "./importer";
+import { alertsRouter } from "./routes/alerts";
+import { backtestRouter } from "./routes/backtest";
+import { chatRouter } from "./routes/chat";
+import { correlationRouter } from "./routes/correlation";
+import { historyRouter } from "./routes/history";
+import { reportsRouter } from "./routes/reports";
+import { screenerRouter } from "./routes/screener";
+import {
+  emptyPortfolio,
+  portfolioRouter,
+  type PortfolioDoc,
+} from "./routes/portfolio";
+import {
+  emptyWatchlists,
+  watchlistsRouter,
+  type WatchlistDoc,
+} from "./routes/watchlists";
+import { createLLMProviders, type ChatMessage } from "./llm";
+import { RateLimitError, polygonStatus } from "./polygon";
+import {
+  CHAT_PROMPT,
+  PROMPTS,
+  defaultPrompt,
+  findPrompt,
+  promptInput,
+  renderPrompt,
+} from "./prompts";
+import { ProviderError, createProvider, type TickerDetails } from "./providers";
+import { ScreenerService, emptyScreener, type ScreenerDoc } from "./screener";
+import { EventHub } from "./sse";
+import type { AnalysisRun } from "@stock-search/shared/ai";
+import { FIXTURES_DIR, UPSTREAM_MODE } from "./upstream";
 
 const app = express();
 const PORT = process.env.PORT || 8787;
@@ -16,21 +81,79 @@ app.use(express.json());
 // Health check
 app.get("/api/health", (_req, res) => res.json({ ok: true }));
 
-const POLY_BASE = "https://api.polygon.io";
-const KEY = process.env.POLYGON_API_KEY;
-
-function withKey(
-  path: string,
-  q: Record<string, string | number | boolean> = {}
-) {
-  const params = new URLSearchParams();
-  for (const [k, v] of Object.entries(q)) params.set(k, String(v));
-  if (KEY) params.set("apiKey", KEY);
-  return `${POLY_BASE}${path}?${params.toString()}`;
+const cache = new ResponseCache(path.join(DATA_DIR, "cache"));
+const provider = createProvider(MARKET_DATA_PROVIDER, MARKET_DATA_DIR);
+// one directory per provider, so switching source never mixes their bars
+const barStore = new BarStore(
+  path.join(DATA_DIR, "bars", provider.name),
+  provider.bars
+);
+const watchlistDb = new JsonStore<WatchlistDoc>(
+  path.join(DATA_DIR, "watchlists.json"),
+  emptyWatchlists
+);
+const portfolioDb = new JsonStore<PortfolioDoc>(
+  path.join(DATA_DIR, "portfolio.json"),
+  emptyPortfolio
+);
+const alertsDb = new JsonStore<AlertsDoc>(
+  path.join(DATA_DIR, "alerts.json"),
+  emptyAlerts
+);
+const llm = createLLMProviders();
+const analyzePrompt = defaultPrompt("analyze", ANALYZE_PROMPT);
+const chats = new ChatStore(path.join(DATA_DIR, "chats"), CHAT_MAX_MESSAGES);
+const analysisHistory = new AnalysisHistory(
+  path.join(DATA_DIR, "analyses"),
+  ANALYSIS_HISTORY_MAX
+);
+const alertHub = new EventHub();
+const alertEngine = new AlertEngine({
+  db: alertsDb,
+  barStore,
+  hub: alertHub,
+});
+const screener = new ScreenerService({
+  db: new JsonStore<ScreenerDoc>(
+    path.join(DATA_DIR, "screener.json"),
+    emptyScreener
+  ),
+  barStore,
+  fetchGrouped: provider.grouped,
+  tickerInfo,
+});
+
+const MIN = 60 * 1000;
+const HOUR = 60 * MIN;
+const DAY = 24 * HOUR;
+
+/** TTL in ms, overridable per route via CACHE_TTL_<NAME> (seconds). */
+function ttl(name: string, fallbackMs: number) {
+  const s = Number(process.env[`CACHE_TTL_${name}`]);
+  return Number.isFinite(s) && s >= 0 ? s * 1000 : fallbackMs;
+}
+
+const TTL = {
+  prev: ttl("PREV", 15 * MIN),
+  details: ttl("DETAILS", 7 * DAY),
+  news: ttl("NEWS", 5 * MIN),
+  logo: ttl("LOGO", 7 * DAY),
+};
+
+function jsonBody(status: number, body: unknown): CachedBody {
+  return {
+    status,
+    contentType: "application/json; charset=utf-8",
+    body: Buffer.from(JSON.stringify(body)),
+  };
 }
 
-/** Aggregates (custom bars) — /v2/aggs/ticker/{ticker}/range/{multiplier}/{timespan}/{from}/{to}
- * Docs: Stocks Aggregates (Custom Bars). */
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Aggregates (custom bars), served from the local bar store. Only dates the
+ * store hasn't seen are fetched from Polygon
+ * (/v2/aggs/ticker/{ticker}/range/{multiplier}/{timespan}/{from}/{to}).
+ * `store` in the response describes coverage, gaps and the last refresh. */
 app.get("/api/stocks/aggregates", async (req, res) => {
   const {
     ticker,
@@ -41,32 +164,78 @@ app.get("/api/stocks/aggregates", async (req, res) => {
     adjusted = "true",
     sort = "asc",
     limit = "5000",
+    refresh,
   } = req.query as Record<string, string>;
   if (!ticker || !from || !to)
     return res.status(400).json({ error: "ticker, from, to required" });
-
-  const url = withKey(
-    `/v2/aggs/ticker/${ticker}/range/${multiplier}/${timespan}/${from}/${to}`,
-    { adjusted, sort, limit }
+  if (!DATE_RE.test(from) || !DATE_RE.test(to) || from > to)
+    return res
+      .status(400)
+      .json({ error: "from, to must be YYYY-MM-DD, from <= to" });
+
+  const spec = {
+    ticker: ticker.toUpperCase(),
+    multiplier: Math.max(1, Number(multiplier) || 1),
+    timespan,
+    adjusted: adjusted !== "false",
+  };
+  const { bars, meta } = await barStore.getRange(
+    spec,
+    { from, to },
+    { refresh: refresh === "1" || refresh === "true" }
   );
 
-  const r = await fetch(url);
-  const j = await r.json();
-  res.status(r.status).json(j);
+  // nothing stored and upstream refused: pass its status through
+  if (!bars.length && meta.errors.length) {
+    const e = meta.errors[0];
+    return res.status(e.status).json({ error: e.error, store: meta });
+  }
+
+  const ordered = sort === "desc" ? [...bars].reverse() : bars;
+  const results = ordered.slice(0, Math.max(1, Number(limit) || 5000));
+  res.set("X-Cache", meta.fetched.length ? "MISS" : "HIT");
+  res.json({
+    ticker: spec.ticker,
+    adjusted: spec.adjusted,
+    status: "OK",
+    resultsCount: results.length,
+    results,
+    store: meta,
+  });
 });
 
-/** Previous Day Bar — /v2/aggs/ticker/{ticker}/prev */
+/** JSON body for a provider result; null means the ticker is unknown. */
+async function provided(load: () => Promise<unknown>): Promise<CachedBody> {
+  const value = await load();
+  return value == null
+    ? jsonBody(404, { error: "not found" })
+    : jsonBody(200, value);
+}
+
+/** Cache keys are scoped to the provider so switching never mixes data. */
+const providerKey = (route: string, params: Record<string, string | number>) =>
+  cacheKey(route, { ...params, provider: provider.name });
+
+/** Previous Day Bar — the latest completed daily bar */
 app.get("/api/stocks/prev", async (req, res) => {
   const { ticker } = req.query as Record<string, string>;
   if (!ticker) return res.status(400).json({ error: "ticker required" });
 
-  const url = withKey(`/v2/aggs/ticker/${ticker}/prev`);
-  const r = await fetch(url);
-  const j = await r.json();
-  res.status(r.status).json(j);
+  const sym = ticker.toUpperCase();
+  await sendCached(
+    cache,
+    req,
+    res,
+    {
+      route: "prev",
+      key: providerKey("prev", { ticker: sym }),
+      ttlMs: TTL.prev,
+    },
+    () => provided(() => provider.previousClose(sym))
+  );
 });
 
-/** Daily Open/Close — /v1/open-close/{ticker}/{date} */
+/** Daily Open/Close for one market date, served from the bar store. */
 app.get("/api/stocks/open-close", async (req, res) => {
   const {
     ticker,
@@ -75,186 +244,375 @@ app.get("/api/stocks/open-close", async (req, res) => {
   } = req.query as Record<string, string>;
   if (!ticker || !date)
     return res.status(400).json({ error: "ticker, date required" });
-
-  const url = withKey(`/v1/open-close/${ticker}/${date}`, { adjusted });
-  const r = await fetch(url);
-  const j = await r.json();
-  res.status(r.status).json(j);
+  if (!DATE_RE.test(date))
+    return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+
+  const sym = ticker.toUpperCase();
+  const { bars, meta } = await barStore.getRange(
+    {
+      ticker: sym,
+      multiplier: 1,
+      timespan: "day",
+      adjusted: adjusted !== "false",
+    },
+    { from: date, to: date }
+  );
+  const bar = bars[0];
+  if (!bar) {
+    const e = meta.errors[0];
+    return res
+      .status(e?.status ?? 404)
+      .json({ error: e?.error ?? "no bar for that date" });
+  }
+  res.json({
+    ticker: sym,
+    date,
+    open: bar.o,
+    high: bar.h,
+    low: bar.l,
+    close: bar.c,
+    volume: bar.v,
+  });
 });
 
-/** Ticker Overview (details) — /v3/reference/tickers/{ticker} */
+/** Ticker overview (details), normalized by the provider */
 app.get("/api/stocks/details", async (req, res) => {
   const { ticker } = req.query as Record<string, string>;
   if (!ticker) return res.status(400).json({ error: "ticker required" });
 
-  const url = withKey(`/v3/reference/tickers/${ticker}`);
-  const r = await fetch(url);
-  const j = await r.json();
-  res.status(r.status).json(j);
+  const sym = ticker.toUpperCase();
+  await sendCached(
+    cache,
+    req,
+    res,
+    {
+      route: "details",
+      key: providerKey("details", { ticker: sym }),
+      ttlMs: TTL.details,
+    },
+    () => provided(() => provider.details(sym))
+  );
 });
 
-/** News — /v2/reference/news?ticker=XXX&limit=... */
+/** News for ?ticker= (all tickers when empty), newest first */
 app.get("/api/stocks/news", async (req, res) => {
-  const {
-    ticker = "",
-    limit = "10",
-    order = "desc",
-  } = req.query as Record<string, string>;
-  const url = withKey(`/v2/reference/news`, { ticker, limit, order });
-  const r = await fetch(url);
-  const j = await r.json();
-  res.status(r.status).json(j);
+  const { ticker = "", limit = "10" } = req.query as Record<string, string>;
+  const sym = ticker.toUpperCase();
+  const n = Math.min(100, Math.max(1, Number(limit) || 10));
+  await sendCached(
+    cache,
+    req,
+    res,
+    {
+      route: "news",
+      key: providerKey("news", { ticker: sym, limit: n }),
+      ttlMs: TTL.news,
+    },
+    () => provided(async () => ({ results: await provider.news(sym, n) }))
+  );
 });
 
-/** Company Logo — via /v3/reference/tickers/{ticker} then fetch branding.logo_url */
+/** Company logo image */
 app.get("/api/stocks/logo", async (req, res) => {
   const { ticker } = req.query as Record<string, string>;
   if (!ticker) return res.status(400).json({ error: "ticker required" });
-  if (!KEY) return res.status(500).json({ error: "missing POLYGON_API_KEY" });
 
-  try {
-    // Get details to find branding.logo_url
-    const detailsUrl = withKey(`/v3/reference/tickers/${ticker}`);
-    const detailsResp = await fetch(detailsUrl);
-    if (!detailsResp.ok) {
-      const body = await detailsResp.text();
-      return res.status(detailsResp.status).send(body);
-    }
-    const details = await detailsResp.json();
-    let logoUrl: string | undefined = details?.results?.branding?.logo_url;
-    if (!logoUrl) {
-      return res.status(404).json({ error: "logo not found in details" });
+  const sym = ticker.toUpperCase();
+  await sendCached(
+    cache,
+    req,
+    res,
+    {
+      route: "logo",
+      key: providerKey("logo", { ticker: sym }),
+      ttlMs: TTL.logo,
+      clientCacheControl: "public, max-age=3600",
+    },
+    async () => {
+      // reuse cached details rather than spending another upstream request
+      const img = await provider.logo(sym, await detailsFor(sym));
+      return img
+        ? { status: 200, ...img }
+        : jsonBody(404, { error: "logo not found" });
     }
+  );
+});
 
-    // Ensure apiKey is present on the logo URL itself
-    const hasQuery = logoUrl.includes("?");
-    const hasKey = /(?:\?|&)apiKey=/.test(logoUrl);
-    if (!hasKey) {
-      logoUrl =
-        logoUrl + (hasQuery ? "&" : "?") + `apiKey=${encodeURIComponent(KEY!)}`;
-    }
+/** Normalized details through the response cache (shared with /details). */
+async function detailsFor(ticker: string): Promise<TickerDetails | null> {
+  const r = await getCached(
+    cache,
+    {
+      route: "details",
+      key: providerKey("details", { ticker }),
+      ttlMs: TTL.details,
+    },
+    () => provided(() => provider.details(ticker))
+  );
+  return r.status === 404 ? null : JSON.parse(r.body.toString("utf8"));
+}
 
-    // Fetch the image and forward it with correct headers
-    const imgResp = await fetch(logoUrl);
-    if (!imgResp.ok) {
-      return res.status(imgResp.status).json({ error: "failed to fetch logo" });
-    }
-    const ct = imgResp.headers.get("content-type") ?? "image/svg+xml";
-    const buf = Buffer.from(await imgResp.arrayBuffer());
+/** Name, industry and market cap from (cached) details, for server-side use. */
+async function tickerInfo(ticker: string) {
+  const d = await detailsFor(ticker).catch((err) => {
+    if (err instanceof ProviderError) return null;
+    throw err;
+  });
+  return d
+    ? { name: d.name, industry: d.industry, marketCap: d.market_cap }
+    : null;
+}
 
-    res.set("Content-Type", ct);
-    res.set("Cache-Control", "public, max-age=3600");
-    res.status(200).send(buf);
-  } catch (err: any) {
-    console.error("logo error", err);
-    res.status(500).json({ error: "unexpected error" });
+app.use("/api/backtest", backtestRouter(barStore));
+app.use(
+  "/api/alerts",
+  alertsRouter({ db: alertsDb, engine: alertEngine, hub: alertHub })
+);
+app.use("/api/correlation", correlationRouter(barStore));
+app.use(
+  "/api/ai/chat",
+  chatRouter({ chats, llm, promptTurns: CHAT_PROMPT_TURNS })
+);
+app.use("/api/ai/history", historyRouter(analysisHistory));
+app.use("/api/reports", reportsRouter());
+app.use("/api/screener", screenerRouter(screener));
+app.use("/api/watchlists", watchlistsRouter(watchlistDb));
+app.use(
+  "/api/portfolio",
+  portfolioRouter({ db: portfolioDb, barStore, tickerInfo })
+);
+
+// ---- admin: cache inspection / purge ----
+
+const LOOPBACK = new Set(["127.0.0.1", "::1", "::ffff:127.0.0.1"]);
+
+/**
+ * Bearer ADMIN_TOKEN when set. Without one, only local tools get in: the
+ * request must come from loopback and carry no Origin, so a web page open
+ * in the user's browser can't reach these through CORS.
+ */
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (ADMIN_TOKEN) {
+    if (req.headers.authorization === `Bearer ${ADMIN_TOKEN}`) return next();
+    return res.status(401).json({ error: "admin token required" });
+  }
+  if (LOOPBACK.has(req.socket.remoteAddress ?? "") && !req.headers.origin)
+    return next();
+  res.status(403).json({
+    error: "admin endpoints are local-only unless ADMIN_TOKEN is set",
+  });
+}
+
+/** List cache entries (optionally ?route=details) plus hit/miss counters. */
+app.get("/api/admin/cache", requireAdmin, async (req, res) => {
+  const { route } = req.query as Record<string, string>;
+  const entries = await cache.list();
+  res.json({
+    stats: cache.stats(),
+    entries: route ? entries.filter((e) => e.route === route) : entries,
+  });
+});
+
+/** Inspect a single entry, decoding JSON bodies. */
+app.get("/api/admin/cache/entry", requireAdmin, async (req, res) => {
+  const { key } = req.query as Record<string, string>;
+  if (!key) return res.status(400).json({ error: "key required" });
+
+  const entry = await cache.get(key);
+  if (!entry) return res.status(404).json({ error: "not cached" });
+
+  const { body, ...meta } = entry;
+  const isJson = entry.contentType.includes("json");
+  res.json({
+    ...meta,
+    size: body.length,
+    body: isJson ? JSON.parse(body.toString("utf8")) : null,
+  });
+});
+
+/** Stored bar series: coverage, counts, last refresh. */
+app.get("/api/admin/bars", requireAdmin, async (_req, res) => {
+  res.json({ series: await barStore.list() });
+});
+
+/**
+ * Bulk-load daily bars from a CSV or Parquet file sent as the raw request
+ * body. Query: ticker, format, timezone, delimiter, adjusted=false,
+ * dryRun=1 and columns=close:Adj Close,date:Day (field:source column).
+ */
+app.post(
+  "/api/admin/import",
+  requireAdmin,
+  express.raw({ type: () => true, limit: IMPORT_MAX_BYTES }),
+  async (req, res) => {
+    const q = req.query as Record<string, string | undefined>;
+    const opts: ImportOptions = {
+      format: q.format as ImportOptions["format"],
+      ticker: q.ticker,
+      columns: q.columns ? parseColumnMapping(q.columns) : undefined,
+      timezone: q.timezone,
+      delimiter: q.delimiter,
+      adjusted: q.adjusted !== "false",
+      dryRun: q.dryRun === "1" || q.dryRun === "true",
+    };
+    const errors = validateImportOptions(opts);
+    if (!Buffer.isBuffer(req.body) || !req.body.length)
+      errors.push("request body must be the file contents");
+    if (errors.length)
+      return res.status(400).json({ error: "invalid import", details: errors });
+
+    try {
+      res.json(await importBars(barStore, req.body, opts));
+    } catch (err) {
+      if (!(err instanceof ImportError)) throw err;
+      res.status(422).json({ error: err.message });
+    }
   }
+);
+
+/** Drop stored bars for ?ticker= (re-downloaded on next request). */
+app.delete("/api/admin/bars", requireAdmin, async (req, res) => {
+  const { ticker } = req.query as Record<string, string>;
+  if (!ticker) return res.status(400).json({ error: "ticker required" });
+  await barStore.remove(ticker.toUpperCase());
+  res.json({ ok: true });
 });
 
+/** Polygon request budget: tokens left, queued and in-flight calls. */
+app.get("/api/admin/polygon", requireAdmin, (_req, res) => {
+  res.json(polygonStatus());
+});
+
+/** Purge by ?key=, ?route=, ?prefix= or ?expired=1; no filter clears everything. */
+app.delete("/api/admin/cache", requireAdmin, async (req, res) => {
+  const { key, route, prefix, expired } = req.query as Record<string, string>;
+  const purged = await cache.purge({
+    key,
+    route,
+    prefix,
+    expiredOnly: expired === "1" || expired === "true",
+  });
+  res.json({ ok: true, purged });
+});
+
+/** Chat backends this server can use, and the default picked by config. */
+app.get("/api/ai/providers", (_req, res) => {
+  res.json({
+    default: llm.default.name,
+    providers: [...llm.all.values()].map((p) => ({
+      name: p.name,
+      model: llm.modelFor(p),
+      unavailable: p.unavailable(),
+    })),
+  });
+});
+
+/**
+ * Analyze prompt for a request: ?prompt=<version id> of one of `names`, else
+ * config.
+ */
+function pickPrompt(q: Record<string, unknown>, names = ["analyze"]) {
+  if (typeof q.prompt !== "string" || !q.prompt)
+    return { template: analyzePrompt };
+  const id = q.prompt;
+  const template = names
+    .map((name) => findPrompt(name, id))
+    .find((t) => t !== undefined);
+  return template
+    ? { template }
+    : {
+        error: `prompt must be a version of ${names.join(" or ")} (see /api/ai/prompts)`,
+      };
+}
+
+/** Published prompt versions, so runs can be traced back to their prompt. */
+app.get("/api/ai/prompts", (_req, res) => {
+  res.json({
+    default: analyzePrompt.id,
+    prompts: [...PROMPTS.values(), CHAT_PROMPT],
+  });
+});
+
+/** Keep a finished run; history is best-effort and never fails the request. */
+async function saveRun(run: Omit<AnalysisRun, "id" | "createdAt">) {
+  if (!isHistorySymbol(run.ticker) || !run.analysis) return null;
+  try {
+    return (await analysisHistory.record(run)).id;
+  } catch (err) {
+    console.error("analysis history write failed:", err);
+    return null;
+  }
+}
+
 app.post("/api/ai/analyze", async (req, res) => {
   try {
-    const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-    if (!OPENAI_API_KEY) {
-      return res
-        .status(503)
-        .json({ ok: false, error: "Missing OPENAI_API_KEY on server" });
-    }
+    const pick = llm.pick(req.query);
+    if (!pick.provider)
+      return res.status(400).json({ ok: false, error: pick.error });
+    const { provider, model } = pick;
+    const chosen = pickPrompt(req.query);
+    if (!chosen.template)
+      return res.status(400).json({ ok: false, error: chosen.error });
+    const { template } = chosen;
+    const missing = provider.unavailable();
+    if (missing) return res.status(503).json({ ok: false, error: missing });
 
     const raw = (req.body ?? {}) as any;
-    const trimmed = {
-      ...raw,
-      series: raw?.series
-        ? {
-            ...raw.series,
-            points: Array.isArray(raw.series.points)
-              ? raw.series.points.slice(-300)
-              : [],
-          }
-        : undefined,
+    const input = promptInput(template, raw);
+    const prompt = renderPrompt(template, input);
+
+    const complete = async (messages: ChatMessage[]) => {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), 15_000);
+      try {
+        return await provider.complete({
+          model,
+          messages,
+          json: true,
+          signal: controller.signal,
+        });
+      } finally {
+        clearTimeout(timeout);
+      }
     };
 
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 15_000);
-
-    const prompt = [
-      {
-        role: "system",
-        content:
-          "You are a cautious, concise-but-thorough equities analyst. Provide clear caveats, quantify when possible, avoid certainty.",
-      },
-      {
-        role: "user",
-        content: `Analyze the following stock snapshot and return structured JSON.
-        Required:
-        - stance: "bullish" | "bearish" | "neutral"
-        - confidence: number (0..1)
-        - summary: 2-3 sentences
-        - highlights: string[]
-        - technical: { supports: string[], resistances: string[], signals: { name: string, status: string }[] }
-        - actions: string[] (1–3 bullets)
-        - risks: string[] (1–3 bullets)
-        - horizon: string
-        - disclaimers: string[]
-
-        (include when useful to justify actions financially):
-        - rationale_long: string[] (2–4 short paragraphs; plain text, no markdown)
-        - scenarios: {
-            bull?: { prob?: number (0..1), target?: string, drivers?: string[] },
-            base?: { prob?: number, target?: string, drivers?: string[] },
-            bear?: { prob?: number, target?: string, drivers?: string[] }
-          }
-        - valuation: {
-            multiples?: { name: string, value: string, peer_range?: string }[],
-            notes?: string[]
-          }
-        - playbook?: {
-            entry?: string, exits?: string[], invalidation?: string,
-            position?: string, timeframe?: string
-          }
-        - watchlist?: string[]  // signals/events to monitor
-        - confidence_notes?: string[]
-        - data_used?: string[]  // what key inputs you used
-
-        Snapshot JSON:
-        ${JSON.stringify(trimmed)}`,
-      },
-    ];
-
-    const r = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: prompt,
-        temperature: 0.2,
-        response_format: { type: "json_object" },
-      }),
-      signal: controller.signal,
+    const started = Date.now();
+    const { analysis, attempts } = await validateWithRepair({
+      messages: prompt,
+      reply: await complete(prompt),
+      complete,
+      retries: AI_REPAIR_RETRIES,
     });
 
-    clearTimeout(timeout);
-
-    if (!r.ok) {
-      const text = await r.text().catch(() => "");
-      return res
-        .status(r.status)
-        .json({ ok: false, source: "openai", error: text || "OpenAI error" });
-    }
-
-    const j = await r.json();
-    const content = j?.choices?.[0]?.message?.content ?? "{}";
-    let analysis: any = {};
-    try {
-      analysis = JSON.parse(content);
-    } catch {
-      analysis = { summary: content };
-    }
+    const runId = await saveRun({
+      ticker: String(raw?.ticker ?? "").toUpperCase(),
+      source: provider.name,
+      model,
+      promptVersion: template.id,
+      latencyMs: Date.now() - started,
+      payload: input,
+      analysis,
+    });
 
-    return res.json({ ok: true, source: "openai", analysis });
+    return res.json({
+      ok: true,
+      source: provider.name,
+      analysis,
+      runId,
+      model,
+      promptVersion: template.id,
+      attempts,
+    });
   } catch (err: any) {
+    if (err instanceof ProviderError)
+      return res.status(err.status).json({ ok: false, error: err.message });
+    if (err instanceof AnalysisValidationError)
+      return res.status(422).json({
+        ok: false,
+        error: err.message,
+        code: "invalid_output",
+        details: err.errors,
+      });
     const msg =
       err?.name === "AbortError"
         ? "AI request timed out"
@@ -265,113 +623,137 @@ app.post("/api/ai/analyze", async (req, res) => {
 });
 
 app.post("/api/ai/analyze/stream", async (req, res) => {
+  // stop generating, and keep nothing, once the reader has gone
+  const controller = new AbortController();
+  res.on("close", () => controller.abort());
+  const { signal } = controller;
   try {
-    const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-    if (!OPENAI_API_KEY) {
+    const pick = llm.pick(req.query);
+    // the streaming route also still serves its original prompt
+    const chosen = pickPrompt(req.query, ["analyze", "analyze-stream"]);
+    if (!pick.provider || !chosen.template)
+      return res
+        .status(400)
+        .end(
+          `event: error\ndata: ${JSON.stringify(pick.error ?? chosen.error)}\n\n`
+        );
+    const { provider, model } = pick;
+    const { template } = chosen;
+    const missing = provider.unavailable();
+    if (missing)
       return res
         .status(503)
-        .end("event: error\ndata: Missing OPENAI_API_KEY\n\n");
-    }
+        .end(`event: error\ndata: ${JSON.stringify(missing)}\n\n`);
 
-    // same trimming you already do
     const raw = (req.body ?? {}) as any;
-    const trimmed = {
-      ...raw,
-      series: raw?.series
-        ? {
-            ...raw.series,
-            points: Array.isArray(raw.series.points)
-              ? raw.series.points.slice(-300)
-              : [],
-          }
-        : undefined,
-    };
-
-    // Prepare messages (reuse the richer prompt from Part 1.2)
-    const messages: ChatCompletionMessageParam[] = [
-      {
-        role: "system",
-        content:
-          "You are a cautious, concise-but-thorough equities analyst. Provide clear caveats, quantify when possible, avoid certainty.",
-      },
-      {
-        role: "user",
-        content: `Analyze the following stock snapshot and return structured JSON.
-Required:
-- stance: "bullish" | "bearish" | "neutral"
-- confidence: number (0..1)
-- summary: 3-5 sentences
-- highlights: string[]
-- technical: { supports: string[], resistances: string[], signals: { name: string, status: string }[] }
-- actions: string[] (1–5 bullets)
-- risks: string[] (1–5 bullets)
-- horizon: string
-- disclaimers: string[]
-
-Optional (include when useful to justify actions financially):
-- rationale_long: string[] (2–6 short paragraphs; plain text, no markdown)
-- scenarios: {
-    bull?: { prob?: number (0..1), target?: string, drivers?: string[] },
-    base?: { prob?: number, target?: string, drivers?: string[] },
-    bear?: { prob?: number, target?: string, drivers?: string[] }
-  }
-- valuation: {
-    multiples?: { name: string, value: string, peer_range?: string }[],
-    notes?: string[]
-  }
-- playbook?: {
-    entry?: string, exits?: string[], invalidation?: string,
-    position?: string, timeframe?: string
-  }
-- watchlist?: string[]  // signals/events to monitor
-- confidence_notes?: string[]
-- data_used?: string[]  // what key inputs you used
-
-Snapshot JSON:
-${JSON.stringify(trimmed)}`,
-      },
-    ];
+    const input = promptInput(template, raw);
+    const messages = renderPrompt(template, input);
+    const meta = { source: provider.name, model, promptVersion: template.id };
 
     // SSE headers
     res.setHeader("Content-Type", "text/event-stream");
     res.setHeader("Cache-Control", "no-cache, no-transform");
     res.setHeader("Connection", "keep-alive");
+    res.write(`event: meta\ndata: ${JSON.stringify(meta)}\n\n`);
 
-    // Kick off streaming with the SDK (Chat Completions with stream)
-    const stream = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages,
-      temperature: 0.2,
-      stream: true,
-      // response_format: { type: "json_object" }, // ⟵ remove if types complain
-    });
-
+    const started = Date.now();
     let full = "";
 
-    for await (const part of stream) {
-      const delta = part.choices?.[0]?.delta?.content ?? "";
-      if (delta) {
-        full += delta;
-        // forward token(s) to client
-        res.write(`event: chunk\ndata: ${JSON.stringify(delta)}\n\n`);
-      }
+    for await (const delta of provider.stream({
+      model,
+      messages,
+      json: true,
+      signal,
+    })) {
+      full += delta;
+      // forward token(s) to client
+      res.write(`event: chunk\ndata: ${JSON.stringify(delta)}\n\n`);
     }
 
-    // done
-    res.write(`event: done\ndata: ${JSON.stringify(full)}\n\n`);
+    // check what was streamed; repairs run as ordinary (unstreamed) calls
+    const { analysis } = await validateWithRepair({
+      messages,
+      reply: full,
+      retries: AI_REPAIR_RETRIES,
+      // same 15 s limit per call as the unstreamed route
+      complete: (convo) =>
+        provider.complete({
+          model,
+          messages: convo,
+          json: true,
+          signal: AbortSignal.any([signal, AbortSignal.timeout(15_000)]),
+        }),
+      onRepair: (errors, attempt) =>
+        res.write(
+          `event: repair\ndata: ${JSON.stringify({ attempt, errors })}\n\n`
+        ),
+    });
+    if (signal.aborted) return;
+
+    const runId = await saveRun({
+      ticker: String(raw?.ticker ?? "").toUpperCase(),
+      source: provider.name,
+      model,
+      promptVersion: template.id,
+      latencyMs: Date.now() - started,
+      payload: input,
+      analysis,
+    });
+    if (runId)
+      res.write(
+        `event: saved\ndata: ${JSON.stringify({ runId, ...meta })}\n\n`
+      );
+
+    // done: the validated JSON, which differs from the chunks after a repair
+    res.write(
+      `event: done\ndata: ${JSON.stringify(JSON.stringify(analysis))}\n\n`
+    );
     res.end();
   } catch (err: any) {
+    if (signal.aborted) return;
     console.error("AI analyze stream error:", err);
     // try to notify client via SSE error event
+    const data =
+      err instanceof AnalysisValidationError
+        ? { error: err.message, code: "invalid_output", details: err.errors }
+        : err?.name === "TimeoutError"
+          ? "AI request timed out"
+          : (err?.message ?? "stream error");
     try {
-      res.write(
-        `event: error\ndata: ${JSON.stringify(err?.message ?? "stream error")}\n\n`
-      );
+      res.write(`event: error\ndata: ${JSON.stringify(data)}\n\n`);
       res.end();
     } catch {}
   }
 });
 
+// Rate-limited upstream calls surface as a clean 429 with Retry-After;
+// missing records as 404, other provider failures with their own status.
+app.use((err: unknown, _req: Request, res: Response, next: NextFunction) => {
+  if (res.headersSent) return next(err);
+  if (err instanceof NotFoundError) {
+    return res.status(404).json({ error: err.message });
+  }
+  if (err instanceof ProviderError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  if (err instanceof RateLimitError) {
+    res.set("Retry-After", String(err.retryAfterSec));
+    return res.status(429).json({
+      error: err.message,
+      retryAfter: err.retryAfterSec,
+    });
+  }
+  console.error("unhandled error", err);
+  res.status(500).json({ error: "unexpected error" });
+});
+
 app.listen(PORT, () => {
   console.log(`API listening on http://localhost:${PORT}`);
+  alertEngine.start(ALERTS_INTERVAL_MS);
+  screener.start(SCREENER_INTERVAL_MS, SCREENER_BATCH);
+  if (UPSTREAM_MODE !== "live") {
+    console.log(
+      `Upstream mode: ${UPSTREAM_MODE} (fixtures in ${FIXTURES_DIR})`
+    );
+  }
 });
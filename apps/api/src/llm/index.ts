@@ -0,0 +1,69 @@
+// apps/api/src/llm/index.ts
+import {
+  LLM_LOCAL_API_KEY,
+  LLM_LOCAL_BASE_URL,
+  LLM_LOCAL_MODEL,
+  LLM_MODEL,
+  LLM_PROVIDER,
+  OPENAI_API_KEY,
+} from "../config";
+import { replaying, upstreamFetch } from "../upstream";
+import { MockProvider } from "./mock";
+import { OpenAIProvider } from "./openai";
+import type { LLMProvider } from "./types";
+
+export * from "./types";
+export { mockAnalysis, mockChatReply } from "./mock";
+
+export type LLMProviders = ReturnType<typeof createLLMProviders>;
+
+const MODEL_RE = /^[\w.:/@-]{1,100}$/;
+
+/**
+ * Every configured backend, by name. LLM_PROVIDER picks the default and
+ * LLM_MODEL overrides its model; requests may pick either explicitly.
+ */
+export function createLLMProviders() {
+  const openai = new OpenAIProvider({
+    name: "openai",
+    defaultModel: "gpt-4o-mini",
+    apiKey: OPENAI_API_KEY,
+    // in replay mode no key is needed: every call is answered from fixtures
+    requireKey: !replaying,
+    fetch: upstreamFetch,
+  });
+  const local = new OpenAIProvider({
+    name: "local",
+    defaultModel: LLM_LOCAL_MODEL,
+    apiKey: LLM_LOCAL_API_KEY,
+    baseURL: LLM_LOCAL_BASE_URL,
+  });
+  const all = new Map<string, LLMProvider>(
+    [openai, local, new MockProvider()].map((p) => [p.name, p])
+  );
+
+  const fallback = all.get(LLM_PROVIDER);
+  if (!fallback) throw new Error(`unknown LLM_PROVIDER "${LLM_PROVIDER}"`);
+  /** Model used when a request doesn't name one. */
+  const modelFor = (p: LLMProvider) =>
+    p === fallback && LLM_MODEL ? LLM_MODEL : p.defaultModel;
+
+  return {
+    all,
+    default: fallback,
+    modelFor,
+    /** Backend and model for a request: ?provider= and ?model=, else config. */
+    pick(q: Record<string, unknown>) {
+      const name = typeof q.provider === "string" ? q.provider : undefined;
+      const provider = name ? all.get(name) : fallback;
+      if (!provider)
+        return {
+          error: `provider must be one of ${[...all.keys()].join(", ")}`,
+        };
+      const model =
+        typeof q.model === "string" && q.model ? q.model : modelFor(provider);
+      if (!MODEL_RE.test(model)) return { error: "model is not a valid name" };
+      return { provider, model };
+    },
+  };
+}
@@ -0,0 +1,32 @@
+// apps/api/src/llm/mock.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AIPayload } from "@stock-search/shared/ai";
+import { parseAnalysis } from "@stock-search/shared/analysisSchema";
+import { mockAnalysis } from "./mock";
+
+test("sparse payload without nested indicator blocks", () => {
+  const sparse = {
+    price: { last: 10 },
+    indicators: { lastClose: 10 },
+  } as unknown as Partial<AIPayload>;
+  const analysis = mockAnalysis(sparse);
+  assert.equal(analysis.stance, "neutral");
+  assert.ok(parseAnalysis(analysis).ok);
+});
+
+test("empty and missing payloads still give a valid analysis", () => {
+  for (const p of [null, {}]) assert.ok(parseAnalysis(mockAnalysis(p)).ok);
+});
+
+test("uses the MACD and ADX blocks when present", () => {
+  const analysis = mockAnalysis({
+    price: { last: 10 },
+    indicators: { lastClose: 10, macd: { hist: 0.4 }, adx: { adx: 30 } },
+  } as unknown as Partial<AIPayload>);
+  const signals = Object.fromEntries(
+    analysis.technical.signals.map((s) => [s.name, s.status])
+  );
+  assert.equal(signals.MACD, "bullish momentum");
+  assert.equal(signals.ADX, "trending");
+});
@@ -0,0 +1,212 @@
+// apps/api/src/llm/mock.ts
+import type { AIPayload, Analysis } from "@stock-search/shared/ai";
+import { SNAPSHOT_MARKER } from "../prompts";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+const CHUNK = 24;
+
+const isNum = (n: unknown): n is number =>
+  typeof n === "number" && Number.isFinite(n);
+const usd = (n: number) => `$${n.toFixed(2)}`;
+
+/** The payload embedded in the prompt, if there is one. */
+function snapshotOf(req: CompletionRequest): Partial<AIPayload> | null {
+  for (const m of [...req.messages].reverse()) {
+    const at =
+      m.role === "user" || m.role === "system"
+        ? m.content.lastIndexOf(SNAPSHOT_MARKER)
+        : -1;
+    if (at < 0) continue;
+    try {
+      return JSON.parse(m.content.slice(at + SNAPSHOT_MARKER.length));
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * A plausible analysis from the payload's indicators alone: trend, momentum
+ * and band position are scored, levels come from moving averages, bands and
+ * the 52-week range. Deterministic, so it suits demos and tests.
+ */
+export function mockAnalysis(p: Partial<AIPayload> | null): Analysis {
+  const ind = p?.indicators;
+  const stats = p?.stats ?? {};
+  const last = p?.price?.last ?? ind?.lastClose ?? null;
+  const signals: Analysis["technical"]["signals"] = [];
+  const highlights: string[] = [];
+  let score = 0;
+
+  // payloads arrive as untrusted JSON: any nested block may be missing
+  if (isNum(last) && ind) {
+    if (isNum(ind.sma50) && isNum(ind.sma200)) {
+      const up = last > ind.sma50 && ind.sma50 > ind.sma200;
+      const down = last < ind.sma50 && ind.sma50 < ind.sma200;
+      score += up ? 2 : down ? -2 : 0;
+      signals.push({
+        name: "Trend (SMA 50/200)",
+        status: up ? "uptrend" : down ? "downtrend" : "mixed",
+      });
+      highlights.push(
+        `Price ${last > ind.sma200 ? "above" : "below"} the 200-day average (${usd(ind.sma200)})`
+      );
+    }
+    const hist = ind.macd?.hist;
+    if (isNum(hist)) {
+      score += hist > 0 ? 1 : -1;
+      signals.push({
+        name: "MACD",
+        status: hist > 0 ? "bullish momentum" : "bearish momentum",
+      });
+    }
+    if (isNum(ind.rsi14)) {
+      const rsi = ind.rsi14;
+      score += rsi > 70 ? -1 : rsi < 30 ? 1 : rsi >= 50 ? 0.5 : -0.5;
+      signals.push({
+        name: "RSI 14",
+        status:
+          rsi > 70
+            ? `overbought (${rsi.toFixed(0)})`
+            : rsi < 30
+              ? `oversold (${rsi.toFixed(0)})`
+              : `neutral (${rsi.toFixed(0)})`,
+      });
+      if (rsi > 70 || rsi < 30)
+        highlights.push(
+          `RSI at ${rsi.toFixed(0)} suggests a stretched move that may revert`
+        );
+    }
+    const adx = ind.adx?.adx;
+    if (isNum(adx))
+      signals.push({
+        name: "ADX",
+        status: adx >= 25 ? "trending" : "range-bound",
+      });
+  }
+
+  const stance =
+    score >= 2 ? "bullish" : score <= -2 ? "bearish" : ("neutral" as const);
+  const confidence = Math.min(0.8, 0.45 + 0.07 * Math.abs(score));
+
+  // levels below / above the last price, nearest first
+  const candidates: [number | null | undefined, string][] = [
+    [ind?.sma20, "SMA 20"],
+    [ind?.sma50, "SMA 50"],
+    [ind?.sma200, "SMA 200"],
+    [ind?.bollinger?.lower, "lower Bollinger band"],
+    [ind?.bollinger?.upper, "upper Bollinger band"],
+    [ind?.vwap?.anchored, "anchored VWAP"],
+    [stats.low52w, "52-week low"],
+    [stats.high52w, "52-week high"],
+  ];
+  const levels = candidates.filter((c): c is [number, string] => isNum(c[0]));
+  const supports = isNum(last)
+    ? levels
+        .filter(([v]) => v < last)
+        .sort((a, b) => b[0] - a[0])
+        .slice(0, 3)
+        .map(([v, n]) => `${usd(v)} (${n})`)
+    : [];
+  const resistances = isNum(last)
+    ? levels
+        .filter(([v]) => v > last)
+        .sort((a, b) => a[0] - b[0])
+        .slice(0, 3)
+        .map(([v, n]) => `${usd(v)} (${n})`)
+    : [];
+
+  const risks: string[] = [];
+  if (isNum(stats.vol1y))
+    risks.push(`Annualized volatility of ${stats.vol1y.toFixed(0)}%`);
+  if (isNum(stats.maxDrawdown1y) && stats.maxDrawdown1y < -20)
+    risks.push(
+      `Fell ${Math.abs(stats.maxDrawdown1y).toFixed(0)}% peak-to-trough in the past year`
+    );
+  if (isNum(stats.beta) && stats.beta > 1.2)
+    risks.push(`High market sensitivity (beta ${stats.beta.toFixed(2)})`);
+  if (!risks.length) risks.push("Trend reversal on broader market weakness");
+
+  const atr = ind?.atr14;
+  const target = (k: number) =>
+    isNum(last) && isNum(atr) ? usd(last + k * atr) : undefined;
+  const name = p?.fundamentals?.name ?? p?.ticker ?? "The stock";
+
+  return {
+    ticker: p?.ticker,
+    stance,
+    confidence: Math.round(confidence * 100) / 100,
+    summary: `${name} screens ${stance} on technicals: ${
+      signals.map((s) => `${s.name.toLowerCase()} ${s.status}`).join(", ") ||
+      "too little price history to judge"
+    }. This is a rule-based reading of indicators, not a fundamental view.`,
+    highlights,
+    scenarios: {
+      bull: { prob: stance === "bullish" ? 0.4 : 0.25, target: target(6) },
+      base: { prob: 0.5, target: target(stance === "bearish" ? -2 : 2) },
+      bear: { prob: stance === "bearish" ? 0.4 : 0.25, target: target(-6) },
+    },
+    technical: { supports, resistances, signals },
+    actions: [
+      stance === "bullish"
+        ? `Consider entries near ${supports[0] ?? "support"}`
+        : stance === "bearish"
+          ? "Avoid new longs until the trend turns"
+          : "Wait for a break of the nearest support or resistance",
+    ],
+    risks,
+    horizon: "1-3 months",
+    asOf: p?.asOf,
+    disclaimers: [
+      "Generated by a rule-based mock from technical indicators; not investment advice.",
+    ],
+    data_used: ["moving averages", "MACD", "RSI", "ADX", "52-week range"],
+  };
+}
+
+/**
+ * A short plain-text answer for chat: the rule-based reading, the nearest
+ * levels, and the 200-day average when the question is about it.
+ */
+export function mockChatReply(
+  p: Partial<AIPayload> | null,
+  question: string
+): string {
+  if (!p) return "I have no snapshot to go on; run an analysis first.";
+  const a = mockAnalysis(p);
+  const lines = [
+    `${p.ticker ?? "This stock"} reads ${a.stance} on technicals (rule-based, confidence ${Math.round(a.confidence * 100)}%).`,
+    `Nearest support: ${a.technical.supports[0] ?? "none below the last price"}. Nearest resistance: ${a.technical.resistances[0] ?? "none above it"}.`,
+  ];
+  const sma200 = p.indicators?.sma200;
+  if (/200|long[- ]term/i.test(question) && isNum(sma200))
+    lines.push(
+      `The 200-day average is at ${usd(sma200)}; a close below it would weaken the long-term trend.`
+    );
+  lines.push(
+    "This is a mock reply from indicator rules, not investment advice."
+  );
+  return lines.join(" ");
+}
+
+/** Offline stand-in for a model: analyses from `mockAnalysis`, chat from `mockChatReply`. */
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly defaultModel = "rules-v1";
+
+  unavailable() {
+    return null;
+  }
+
+  async complete(req: CompletionRequest) {
+    if (req.json) return JSON.stringify(mockAnalysis(snapshotOf(req)));
+    const question = [...req.messages].reverse().find((m) => m.role === "user");
+    return mockChatReply(snapshotOf(req), question?.content ?? "");
+  }
+
+  async *stream(req: CompletionRequest) {
+    const text = await this.complete(req);
+    for (let i = 0; i < text.length; i += CHUNK) yield text.slice(i, i + CHUNK);
+  }
+}
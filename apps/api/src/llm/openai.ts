@@ -0,0 +1,88 @@
+// apps/api/src/llm/openai.ts
+import OpenAI from "openai";
+import { ProviderError } from "../providers";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+type Options = {
+  name: string;
+  defaultModel: string;
+  apiKey?: string;
+  /** Any OpenAI-compatible server, e.g. a local Ollama or vLLM endpoint. */
+  baseURL?: string;
+  /** Key required up front (hosted OpenAI, outside replay mode). */
+  requireKey?: boolean;
+  fetch?: typeof fetch;
+};
+
+/** Chat Completions over the OpenAI SDK; works for compatible servers too. */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  private client: OpenAI;
+
+  constructor(private opts: Options) {
+    this.name = opts.name;
+    this.defaultModel = opts.defaultModel;
+    this.client = new OpenAI({
+      // local servers usually ignore the key, but the SDK wants one
+      apiKey: opts.apiKey || (opts.requireKey ? "" : "none"),
+      baseURL: opts.baseURL,
+      fetch: opts.fetch,
+    });
+  }
+
+  unavailable() {
+    return this.opts.requireKey && !this.opts.apiKey
+      ? "Missing OPENAI_API_KEY on server"
+      : null;
+  }
+
+  private params(req: CompletionRequest) {
+    return {
+      model: req.model ?? this.defaultModel,
+      messages: req.messages,
+      temperature: req.temperature ?? 0.2,
+      ...(req.json
+        ? { response_format: { type: "json_object" as const } }
+        : {}),
+    };
+  }
+
+  async complete(req: CompletionRequest) {
+    try {
+      const r = await this.client.chat.completions.create(this.params(req), {
+        signal: req.signal,
+      });
+      return r.choices[0]?.message?.content ?? "";
+    } catch (err) {
+      throw upstreamError(err);
+    }
+  }
+
+  async *stream(req: CompletionRequest) {
+    let stream;
+    try {
+      stream = await this.client.chat.completions.create(
+        { ...this.params(req), stream: true },
+        { signal: req.signal }
+      );
+    } catch (err) {
+      throw upstreamError(err);
+    }
+    for await (const part of stream) {
+      const delta = part.choices?.[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+}
+
+/** SDK errors as ProviderError: API errors keep their HTTP status. */
+function upstreamError(err: unknown) {
+  if (err instanceof OpenAI.APIUserAbortError)
+    return new ProviderError(504, "AI request timed out");
+  if (err instanceof OpenAI.APIConnectionError)
+    return new ProviderError(502, `AI backend unreachable: ${err.message}`);
+  if (err instanceof OpenAI.APIError && err.status)
+    return new ProviderError(err.status, err.message);
+  return err;
+}
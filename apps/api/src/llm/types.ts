@@ -0,0 +1,31 @@
+// apps/api/src/llm/types.ts
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type CompletionRequest = {
+  messages: ChatMessage[];
+  /** Falls back to the provider's default model. */
+  model?: string;
+  temperature?: number;
+  /** Ask for a single JSON object (where the backend supports it). */
+  json?: boolean;
+  signal?: AbortSignal;
+};
+
+/**
+ * A chat model backend. Failures throw ProviderError with the upstream
+ * status, so routes can pass it through like market data errors.
+ */
+export interface LLMProvider {
+  /** Also reported as `source` on analysis responses. */
+  readonly name: string;
+  readonly defaultModel: string;
+  /** Why calls would fail right now (e.g. no API key), or null if ready. */
+  unavailable(): string | null;
+  complete(req: CompletionRequest): Promise<string>;
+  /** The reply as text deltas, in order. */
+  stream(req: CompletionRequest): AsyncIterable<string>;
+}
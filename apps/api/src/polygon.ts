@@ -0,0 +1,246 @@
+// apps/api/src/polygon.ts
+import type { Agg } from "./bars";
+import type { CachedBody } from "./cache";
+import { replaying, upstreamFetch } from "./upstream";
+
+export const POLY_BASE = "https://api.polygon.io";
+export const KEY = process.env.POLYGON_API_KEY;
+
+export function withKey(
+  path: string,
+  q: Record<string, string | number | boolean> = {}
+) {
+  const params = new URLSearchParams();
+  for (const [k, v] of Object.entries(q)) params.set(k, String(v));
+  if (KEY) params.set("apiKey", KEY);
+  return `${POLY_BASE}${path}?${params.toString()}`;
+}
+
+/** Thrown instead of calling Polygon when the request budget is exhausted. */
+export class RateLimitError extends Error {
+  constructor(
+    public retryAfterSec: number,
+    message = "Polygon rate limit reached, retry later"
+  ) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * Token bucket with a FIFO wait queue. Requests wait for a token up to
+ * `maxWaitMs`; if the queue is already longer than that they are rejected
+ * up front with a RateLimitError carrying the expected wait.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private last = Date.now();
+  private queue: Array<() => void> = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private capacity: number,
+    private windowMs: number,
+    private maxWaitMs: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  private get ratePerMs() {
+    return this.capacity / this.windowMs;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.last) * this.ratePerMs
+    );
+    this.last = now;
+  }
+
+  /** ms until a request enqueued now would get its token */
+  estimateWaitMs() {
+    this.refill();
+    const deficit = this.queue.length + 1 - this.tokens;
+    return deficit <= 0 ? 0 : Math.ceil(deficit / this.ratePerMs);
+  }
+
+  async take() {
+    const wait = this.estimateWaitMs();
+    if (wait === 0 && this.queue.length === 0) {
+      this.tokens -= 1;
+      return;
+    }
+    if (wait > this.maxWaitMs) throw new RateLimitError(Math.ceil(wait / 1000));
+    await new Promise<void>((resolve) => {
+      this.queue.push(resolve);
+      this.schedule();
+    });
+  }
+
+  /** Upstream told us we're over quota: empty the bucket. */
+  drain() {
+    this.refill();
+    this.tokens = Math.min(this.tokens, 0);
+  }
+
+  status() {
+    this.refill();
+    return {
+      capacity: this.capacity,
+      windowSec: this.windowMs / 1000,
+      tokens: Math.floor(this.tokens * 100) / 100,
+      queued: this.queue.length,
+    };
+  }
+
+  private schedule() {
+    if (this.timer) return;
+    this.refill();
+    const ms =
+      this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.ratePerMs);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refill();
+      while (this.queue.length && this.tokens >= 1) {
+        this.tokens -= 1;
+        this.queue.shift()!();
+      }
+      if (this.queue.length) this.schedule();
+    }, ms);
+  }
+}
+
+function envNum(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+// Free tier: 5 requests / minute. POLYGON_RATE_LIMIT=0 disables limiting.
+const RATE_LIMIT = envNum("POLYGON_RATE_LIMIT", 5);
+const bucket = new TokenBucket(
+  RATE_LIMIT || 1,
+  envNum("POLYGON_RATE_WINDOW_SEC", 60) * 1000,
+  envNum("POLYGON_MAX_WAIT_SEC", 20) * 1000
+);
+const limiting = RATE_LIMIT > 0 && !replaying;
+
+const inFlight = new Map<string, Promise<CachedBody>>();
+
+export function polygonStatus() {
+  return {
+    limiting,
+    inFlight: inFlight.size,
+    ...bucket.status(),
+  };
+}
+
+async function fetchLimited(url: string, fallbackType: string) {
+  if (limiting) await bucket.take();
+  const r = await upstreamFetch(url);
+
+  if (r.status === 429) {
+    bucket.drain();
+    const header = Number(r.headers.get("retry-after"));
+    const retry =
+      Number.isFinite(header) && header > 0
+        ? header
+        : Math.ceil(bucket.estimateWaitMs() / 1000) || 60;
+    throw new RateLimitError(
+      retry,
+      "Polygon rejected the request (rate limit)"
+    );
+  }
+
+  return {
+    status: r.status,
+    contentType: r.headers.get("content-type") ?? fallbackType,
+    body: Buffer.from(await r.arrayBuffer()),
+  } satisfies CachedBody;
+}
+
+/**
+ * GET a Polygon URL through the shared token bucket. Identical requests that
+ * are already in flight share one upstream call; the buffered result can be
+ * handed to every caller.
+ */
+export function polygonGet(
+  url: string,
+  fallbackType = "application/json"
+): Promise<CachedBody> {
+  const pending = inFlight.get(url);
+  if (pending) return pending;
+
+  const p = fetchLimited(url, fallbackType).finally(() => inFlight.delete(url));
+  inFlight.set(url, p);
+  return p;
+}
+
+/** Bars for a date range, following `next_url` pages (max 50k bars each). */
+export async function fetchAggs(
+  spec: {
+    ticker: string;
+    multiplier: number;
+    timespan: string;
+    adjusted: boolean;
+  },
+  range: { from: string; to: string }
+) {
+  let url: string | null = withKey(
+    `/v2/aggs/ticker/${encodeURIComponent(spec.ticker)}/range/${spec.multiplier}/${spec.timespan}/${range.from}/${range.to}`,
+    { adjusted: spec.adjusted, sort: "asc", limit: 50000 }
+  );
+  const bars: Agg[] = [];
+
+  while (url) {
+    const r = await polygonGet(url);
+    let j: any = null;
+    try {
+      j = JSON.parse(r.body.toString("utf8"));
+    } catch {
+      // fall through with j = null
+    }
+    if (r.status < 200 || r.status >= 300 || !j || j.status === "ERROR") {
+      return {
+        ok: false as const,
+        status: r.status >= 400 ? r.status : 502,
+        error: j?.error ?? j?.message ?? `Polygon error ${r.status}`,
+      };
+    }
+    if (Array.isArray(j.results)) bars.push(...j.results);
+
+    // next_url omits the key; re-attach it
+    url =
+      typeof j.next_url === "string" && j.next_url
+        ? j.next_url + (KEY ? `&apiKey=${encodeURIComponent(KEY)}` : "")
+        : null;
+  }
+  return { ok: true as const, bars };
+}
+
+/** Every ticker's daily bar for one market date (`T` is the ticker). */
+export async function fetchGrouped(date: string) {
+  const r = await polygonGet(
+    withKey(`/v2/aggs/grouped/locale/us/market/stocks/${date}`, {
+      adjusted: true,
+    })
+  );
+  let j: any = null;
+  try {
+    j = JSON.parse(r.body.toString("utf8"));
+  } catch {
+    // fall through with j = null
+  }
+  if (r.status < 200 || r.status >= 300 || !j || j.status === "ERROR") {
+    return {
+      ok: false as const,
+      status: r.status >= 400 ? r.status : 502,
+      error: j?.error ?? j?.message ?? `Polygon error ${r.status}`,
+    };
+  }
+  const bars: (Agg & { T: string })[] = Array.isArray(j.results)
+    ? j.results
+    : [];
+  return { ok: true as const, bars };
+}
@@ -0,0 +1,95 @@
+// apps/api/src/prompts/analyze.ts
+import type { PromptTemplate } from "./types";
+
+const SYSTEM =
+  "You are a cautious, concise-but-thorough equities analyst. Provide clear caveats, quantify when possible, avoid certainty.";
+const TASK = "Analyze the following stock snapshot and return structured JSON.";
+const INPUTS = [
+  "ticker",
+  "asOf",
+  "price",
+  "fundamentals",
+  "stats",
+  "indicators",
+  "series",
+  "news",
+] as const;
+
+const required = (o: { summary: string; bullets: string }) => [
+  `stance: "bullish" | "bearish" | "neutral"`,
+  "confidence: number (0..1)",
+  `summary: ${o.summary} sentences`,
+  "highlights: string[]",
+  "technical: { supports: string[], resistances: string[], signals: { name: string, status: string }[] }",
+  `actions: string[] (${o.bullets} bullets)`,
+  `risks: string[] (${o.bullets} bullets)`,
+  "horizon: string",
+  "disclaimers: string[]",
+];
+
+const optional = (paragraphs: string) => [
+  `rationale_long: string[] (${paragraphs} short paragraphs; plain text, no markdown)`,
+  `scenarios: {
+    bull?: { prob?: number (0..1), target?: string, drivers?: string[] },
+    base?: { prob?: number, target?: string, drivers?: string[] },
+    bear?: { prob?: number, target?: string, drivers?: string[] }
+  }`,
+  `valuation: {
+    multiples?: { name: string, value: string, peer_range?: string }[],
+    notes?: string[]
+  }`,
+  `playbook?: {
+    entry?: string, exits?: string[], invalidation?: string,
+    position?: string, timeframe?: string
+  }`,
+  "watchlist?: string[]  // signals/events to monitor",
+  "confidence_notes?: string[]",
+  "data_used?: string[]  // what key inputs you used",
+];
+
+/** The original /api/ai/analyze prompt. */
+export const analyzeV1: PromptTemplate = {
+  id: "analyze-v1",
+  name: "analyze",
+  version: 1,
+  notes: "Original non-streaming prompt.",
+  inputs: INPUTS,
+  maxPoints: 300,
+  system: SYSTEM,
+  task: TASK,
+  output: {
+    schema: "analysis",
+    required: required({ summary: "2-3", bullets: "1–3" }),
+    optional: optional("2–4"),
+  },
+};
+
+/**
+ * The original /api/ai/analyze/stream prompt, which had drifted from v1; a
+ * name of its own, since it is not the same prompt as analyze v1.
+ */
+export const analyzeStreamV1: PromptTemplate = {
+  ...analyzeV1,
+  id: "analyze-stream-v1",
+  name: "analyze-stream",
+  notes: "Original streaming prompt: longer summary and lists than v1.",
+  output: {
+    schema: "analysis",
+    required: required({ summary: "3-5", bullets: "1–5" }),
+    optional: optional("2–6"),
+  },
+};
+
+/** One prompt for both routes, settling the drift between the v1 copies. */
+export const analyzeV2: PromptTemplate = {
+  ...analyzeV1,
+  id: "analyze-v2",
+  version: 2,
+  notes:
+    "Shared by both routes: 2-4 sentence summary, 1–4 actions and risks, 2–5 rationale paragraphs.",
+  output: {
+    schema: "analysis",
+    required: required({ summary: "2-4", bullets: "1–4" }),
+    optional: optional("2–5"),
+  },
+};
@@ -0,0 +1,28 @@
+// apps/api/src/prompts/index.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CHAT_PROMPT, PROMPTS, findPrompt, latestPrompt } from "./index";
+
+const templates = [...PROMPTS.values(), CHAT_PROMPT];
+
+test("each (name, version) pair is published once", () => {
+  const seen = new Map<string, string>();
+  for (const t of templates) {
+    const key = `${t.name}@${t.version}`;
+    assert.ok(!seen.has(key), `${t.id} and ${seen.get(key)} are both ${key}`);
+    seen.set(key, t.id);
+  }
+});
+
+test("ids follow <name>-v<version>", () => {
+  for (const t of templates) assert.equal(t.id, `${t.name}-v${t.version}`);
+});
+
+test("the streaming prompt is not a version of analyze", () => {
+  assert.equal(findPrompt("analyze", "analyze-stream-v1"), undefined);
+  assert.equal(
+    findPrompt("analyze-stream", "analyze-stream-v1")?.id,
+    "analyze-stream-v1"
+  );
+  assert.equal(latestPrompt("analyze").id, "analyze-v2");
+});
@@ -0,0 +1,113 @@
+// apps/api/src/prompts/index.ts
+import type { AIPayload, Analysis } from "@stock-search/shared/ai";
+import type { ChatMessage } from "../llm";
+import { analyzeStreamV1, analyzeV1, analyzeV2 } from "./analyze";
+import { chatV1 } from "./chat";
+import type { ChatPromptTemplate, PromptTemplate } from "./types";
+
+export * from "./types";
+
+/** Current follow-up chat prompt. */
+export const CHAT_PROMPT = chatV1;
+
+/** Precedes the payload in every user message; the mock provider reads it. */
+export const SNAPSHOT_MARKER = "Snapshot JSON:";
+
+/** Every published prompt version, by id. */
+export const PROMPTS = new Map<string, PromptTemplate>(
+  [analyzeV1, analyzeStreamV1, analyzeV2].map((t) => [t.id, t])
+);
+
+/** Highest version of a prompt name. */
+export function latestPrompt(name: string) {
+  let best: PromptTemplate | undefined;
+  for (const t of PROMPTS.values())
+    if (t.name === name && (!best || t.version > best.version)) best = t;
+  if (!best) throw new Error(`no prompt named "${name}"`);
+  return best;
+}
+
+/** The configured version of `name` (an id), else its latest. */
+export function defaultPrompt(name: string, id?: string) {
+  if (!id) return latestPrompt(name);
+  const t = findPrompt(name, id);
+  if (!t) throw new Error(`"${id}" is not a version of the ${name} prompt`);
+  return t;
+}
+
+/** `id` if it is a version of `name`, for picking one per request. */
+export function findPrompt(name: string, id: string) {
+  const t = PROMPTS.get(id);
+  return t?.name === name ? t : undefined;
+}
+
+/**
+ * The payload as the template sees it: only its declared inputs, with the
+ * series cut to the newest `maxPoints`. Stored with the run as sent.
+ */
+export function promptInput(
+  t: Pick<PromptTemplate, "inputs" | "maxPoints">,
+  payload: unknown
+) {
+  const raw = (payload ?? {}) as Record<string, any>;
+  const out: Record<string, unknown> = {};
+  for (const k of t.inputs) if (raw[k] !== undefined) out[k] = raw[k];
+  if (raw.series && t.inputs.includes("series"))
+    out.series = {
+      ...raw.series,
+      points: Array.isArray(raw.series.points)
+        ? raw.series.points.slice(-t.maxPoints)
+        : [],
+    };
+  // a client-built payload: shaped like AIPayload, not checked field by field
+  return out as AIPayload;
+}
+
+/** System and user messages for one request. */
+export function renderPrompt(
+  t: PromptTemplate,
+  input: AIPayload
+): ChatMessage[] {
+  const list = (lines: string[]) => lines.map((l) => `- ${l}`).join("\n");
+  return [
+    { role: "system", content: t.system },
+    {
+      role: "user",
+      content: `${t.task}
+Required:
+${list(t.output.required)}
+
+Optional (include when useful to justify actions financially):
+${list(t.output.optional)}
+
+${SNAPSHOT_MARKER}
+${JSON.stringify(input)}`,
+    },
+  ];
+}
+
+/**
+ * Chat grounded in `context`: instructions with the analysis and snapshot,
+ * then the earlier turns and the new question.
+ */
+export function renderChat(
+  t: ChatPromptTemplate,
+  context: { payload: AIPayload; analysis: Analysis | null },
+  turns: { role: "user" | "assistant"; content: string }[],
+  question: string
+): ChatMessage[] {
+  return [
+    {
+      role: "system",
+      content: `${t.system}
+
+Prior analysis JSON:
+${context.analysis ? JSON.stringify(context.analysis) : "none yet"}
+
+${SNAPSHOT_MARKER}
+${JSON.stringify(promptInput(t, context.payload))}`,
+    },
+    ...turns.map((m) => ({ role: m.role, content: m.content })),
+    { role: "user", content: question },
+  ];
+}
@@ -0,0 +1,27 @@
+// apps/api/src/prompts/types.ts
+import type { AIPayload } from "@stock-search/shared/ai";
+
+/** A named prompt at one version. Published versions are never edited. */
+export type PromptTemplate = {
+  /** "<name>-v<version>"; recorded on every response and stored run. */
+  id: string;
+  name: string;
+  version: number;
+  /** What changed from the previous version. */
+  notes: string;
+  /** Payload fields sent to the model; anything else is dropped. */
+  inputs: readonly (keyof AIPayload)[];
+  /** Newest series points kept, when `series` is an input. */
+  maxPoints: number;
+  system: string;
+  /** Opening line of the user message, before the output spec. */
+  task: string;
+  /**
+   * Output requested, one field per line; `schema` names the shared schema
+   * the reply is validated against.
+   */
+  output: { schema: "analysis"; required: string[]; optional: string[] };
+};
+
+/** A free-text conversation prompt; replies are plain text, not a schema. */
+export type ChatPromptTemplate = Omit<PromptTemplate, "task" | "output">;
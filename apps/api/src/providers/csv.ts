@@ -0,0 +1,172 @@
+// apps/api/src/providers/csv.ts
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { marketDate, marketMidnight, type Agg, type BarFetcher } from "../bars";
+import { parseCsvRecords } from "../csv";
+import type {
+  GroupedFetcher,
+  MarketDataProvider,
+  NewsItem,
+  TickerDetails,
+} from "./types";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const LOGO_TYPES: Record<string, string> = {
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+};
+
+const num = (s: string | undefined) => {
+  if (s == null || s === "") return undefined;
+  const n = Number(s);
+  return Number.isFinite(n) ? n : undefined;
+};
+const str = (s: string | undefined) => s || undefined;
+
+/** `date` (YYYY-MM-DD market date) or `t` (epoch ms) plus OHLCV columns. */
+function toBar(r: Record<string, string>): Agg | null {
+  const t = DATE_RE.test(r.date ?? "") ? marketMidnight(r.date) : num(r.t);
+  const o = num(r.open);
+  const h = num(r.high);
+  const l = num(r.low);
+  const c = num(r.close);
+  if (t == null || o == null || h == null || l == null || c == null)
+    return null;
+  const vw = num(r.vwap);
+  return { t, o, h, l, c, v: num(r.volume) ?? 0, ...(vw ? { vw } : {}) };
+}
+
+const fileTicker = (ticker: string) =>
+  ticker.toUpperCase().replace(/[^A-Z0-9._-]/g, "_");
+
+/**
+ * Market data from a directory of files, for running off our own data:
+ *
+ *   bars/<TICKER>.csv    date,open,high,low,close,volume[,vwap]  (daily)
+ *   tickers.csv          ticker,name,market_cap,currency_name,
+ *                        primary_exchange,industry,homepage_url
+ *   news.csv             ticker,id,title,publisher,published_utc,article_url
+ *   logos/<TICKER>.svg   (or .png / .jpg)
+ *
+ * Files are re-read when their mtime changes. Bars already copied into the
+ * BarStore are not re-read; purge them via /api/admin/bars after edits.
+ */
+export class CsvProvider implements MarketDataProvider {
+  readonly name = "csv";
+  private files = new Map<
+    string,
+    { mtimeMs: number; rows: Record<string, string>[] }
+  >();
+
+  constructor(private dir: string) {}
+
+  bars: BarFetcher = async (spec, range) => {
+    if (spec.timespan !== "day" || spec.multiplier !== 1)
+      return {
+        ok: false,
+        status: 400,
+        error: "the csv provider only has daily bars",
+      };
+    const all = await this.dailyBars(spec.ticker);
+    if (!all)
+      return { ok: false, status: 404, error: `no bars for ${spec.ticker}` };
+    return {
+      ok: true,
+      bars: all.filter((b) => {
+        const d = marketDate(b.t);
+        return d >= range.from && d <= range.to;
+      }),
+    };
+  };
+
+  grouped: GroupedFetcher = async (date) => {
+    const names = await fs
+      .readdir(path.join(this.dir, "bars"))
+      .catch(() => [] as string[]);
+    const bars: (Agg & { T: string })[] = [];
+    for (const f of names) {
+      if (!f.endsWith(".csv")) continue;
+      const T = f.slice(0, -4);
+      const bar = (await this.dailyBars(T))?.find(
+        (b) => marketDate(b.t) === date
+      );
+      if (bar) bars.push({ ...bar, T });
+    }
+    return { ok: true, bars };
+  };
+
+  async previousClose(ticker: string) {
+    const today = marketDate(Date.now());
+    const settled = ((await this.dailyBars(ticker)) ?? []).filter(
+      (b) => marketDate(b.t) < today
+    );
+    return { ticker, bar: settled.at(-1) ?? null };
+  }
+
+  async details(ticker: string): Promise<TickerDetails | null> {
+    const rows = await this.records("tickers.csv");
+    const r = rows?.find((x) => x.ticker?.toUpperCase() === ticker);
+    if (!r) return null;
+    return {
+      ticker,
+      name: str(r.name),
+      market_cap: num(r.market_cap),
+      currency_name: str(r.currency_name),
+      primary_exchange: str(r.primary_exchange),
+      industry: str(r.industry),
+      homepage_url: str(r.homepage_url),
+    };
+  }
+
+  async news(ticker: string, limit: number): Promise<NewsItem[]> {
+    const rows = (await this.records("news.csv")) ?? [];
+    return rows
+      .filter((r) => !ticker || r.ticker?.toUpperCase() === ticker)
+      .map((r, i) => ({
+        id: r.id || `${r.ticker}-${i}`,
+        title: r.title,
+        publisher: str(r.publisher),
+        published_utc: str(r.published_utc),
+        article_url: str(r.article_url),
+      }))
+      .sort((a, b) =>
+        (b.published_utc ?? "").localeCompare(a.published_utc ?? "")
+      )
+      .slice(0, limit);
+  }
+
+  async logo(ticker: string) {
+    for (const [ext, contentType] of Object.entries(LOGO_TYPES)) {
+      const file = path.join(this.dir, "logos", fileTicker(ticker) + ext);
+      const body = await fs.readFile(file).catch(() => null);
+      if (body) return { contentType, body };
+    }
+    return null;
+  }
+
+  private async dailyBars(ticker: string) {
+    const rows = await this.records(
+      path.join("bars", `${fileTicker(ticker)}.csv`)
+    );
+    if (!rows) return null;
+    const byT = new Map<number, Agg>();
+    for (const r of rows) {
+      const bar = toBar(r);
+      if (bar) byT.set(bar.t, bar);
+    }
+    return [...byT.values()].sort((a, b) => a.t - b.t);
+  }
+
+  /** Parsed rows of a file under `dir`, cached until its mtime changes. */
+  private async records(rel: string) {
+    const file = path.join(this.dir, rel);
+    const stat = await fs.stat(file).catch(() => null);
+    if (!stat) return null;
+    const hit = this.files.get(file);
+    if (hit && hit.mtimeMs === stat.mtimeMs) return hit.rows;
+    const rows = parseCsvRecords(await fs.readFile(file, "utf8"));
+    this.files.set(file, { mtimeMs: stat.mtimeMs, rows });
+    return rows;
+  }
+}
@@ -0,0 +1,18 @@
+// apps/api/src/providers/index.ts
+import { CsvProvider } from "./csv";
+import { PolygonProvider } from "./polygon";
+import type { MarketDataProvider } from "./types";
+
+export * from "./types";
+
+/** Provider selected by MARKET_DATA_PROVIDER ("polygon" | "csv"). */
+export function createProvider(name: string, dir: string): MarketDataProvider {
+  switch (name) {
+    case "polygon":
+      return new PolygonProvider();
+    case "csv":
+      return new CsvProvider(dir);
+    default:
+      throw new Error(`unknown MARKET_DATA_PROVIDER "${name}"`);
+  }
+}
@@ -0,0 +1,100 @@
+// apps/api/src/providers/polygon.ts
+import type { CachedBody } from "../cache";
+import { KEY, fetchAggs, fetchGrouped, polygonGet, withKey } from "../polygon";
+import { replaying } from "../upstream";
+import {
+  ProviderError,
+  type MarketDataProvider,
+  type NewsItem,
+  type TickerDetails,
+} from "./types";
+
+/** Parse a JSON body; non-2xx answers become ProviderError, 404 → null. */
+function parse(r: CachedBody): any {
+  let j: any = null;
+  try {
+    j = JSON.parse(r.body.toString("utf8"));
+  } catch {
+    // fall through with j = null
+  }
+  if (r.status === 404) return null;
+  if (r.status < 200 || r.status >= 300 || !j || j.status === "ERROR") {
+    throw new ProviderError(
+      r.status >= 400 ? r.status : 502,
+      j?.error ?? j?.message ?? `Polygon error ${r.status}`
+    );
+  }
+  return j;
+}
+
+const path = (ticker: string) => encodeURIComponent(ticker);
+
+/** Polygon.io REST, through the shared rate limiter and fixture layer. */
+export class PolygonProvider implements MarketDataProvider {
+  readonly name = "polygon";
+  bars = fetchAggs;
+  grouped = fetchGrouped;
+
+  async previousClose(ticker: string) {
+    const j = parse(
+      await polygonGet(withKey(`/v2/aggs/ticker/${path(ticker)}/prev`))
+    );
+    const bar = Array.isArray(j?.results) ? j.results[0] : undefined;
+    return {
+      ticker,
+      bar: bar
+        ? { t: bar.t, o: bar.o, h: bar.h, l: bar.l, c: bar.c, v: bar.v }
+        : null,
+    };
+  }
+
+  async details(ticker: string): Promise<TickerDetails | null> {
+    const j = parse(
+      await polygonGet(withKey(`/v3/reference/tickers/${path(ticker)}`))
+    );
+    const r = j?.results;
+    if (!r) return null;
+    return {
+      ticker: r.ticker ?? ticker,
+      name: r.name,
+      market_cap: r.market_cap,
+      currency_name: r.currency_name,
+      primary_exchange: r.primary_exchange ?? r.primary_exchange_symbol,
+      industry: r.sic_description ?? r.industry,
+      homepage_url: r.homepage_url,
+      logo_url: r.branding?.logo_url,
+    };
+  }
+
+  async news(ticker: string, limit: number): Promise<NewsItem[]> {
+    const j = parse(
+      await polygonGet(
+        withKey("/v2/reference/news", { ticker, limit, order: "desc" })
+      )
+    );
+    const arr: any[] = Array.isArray(j?.results) ? j.results : [];
+    return arr.map((n) => ({
+      id: String(n.id ?? n.article_url),
+      title: n.title,
+      publisher: n.publisher?.name,
+      published_utc: n.published_utc,
+      article_url: n.article_url,
+    }));
+  }
+
+  async logo(ticker: string, details?: TickerDetails | null) {
+    if (!KEY && !replaying)
+      throw new ProviderError(500, "missing POLYGON_API_KEY");
+    const d = details === undefined ? await this.details(ticker) : details;
+    if (!d?.logo_url) return null;
+
+    // branding URLs need the key too
+    const url = new URL(d.logo_url);
+    if (KEY && !url.searchParams.has("apiKey"))
+      url.searchParams.set("apiKey", KEY);
+    const img = await polygonGet(url.toString(), "image/svg+xml");
+    if (img.status < 200 || img.status >= 300)
+      throw new ProviderError(img.status, "failed to fetch logo");
+    return { contentType: img.contentType, body: img.body };
+  }
+}
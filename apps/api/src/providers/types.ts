@@ -0,0 +1,51 @@
+// apps/api/src/providers/types.ts
+import type {
+  NewsItem,
+  PrevClose,
+  TickerDetails,
+} from "@stock-search/shared/market";
+import type { Agg, BarFetcher } from "../bars";
+
+export type { NewsItem, PrevClose, TickerDetails };
+
+export type LogoImage = { contentType: string; body: Buffer };
+
+export type GroupedFetcher = (
+  date: string
+) => Promise<
+  | { ok: true; bars: (Agg & { T: string })[] }
+  | { ok: false; status: number; error: string }
+>;
+
+/** Upstream refused or failed; `status` is passed through to the client. */
+export class ProviderError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+/**
+ * Source of market data. Implementations return normalized shapes only, so
+ * routes, stores and the client never see vendor-specific fields. Unknown
+ * tickers come back as null / empty; other failures throw ProviderError
+ * (or RateLimitError for metered upstreams).
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+  /** Daily/intraday bars for a range; the BarStore's fetcher. */
+  bars: BarFetcher;
+  /** Every ticker's bar for one date; optional (used by the screener). */
+  grouped?: GroupedFetcher;
+  previousClose(ticker: string): Promise<PrevClose>;
+  details(ticker: string): Promise<TickerDetails | null>;
+  news(ticker: string, limit: number): Promise<NewsItem[]>;
+  /** `details` is passed when the caller already has it, to save a lookup. */
+  logo(
+    ticker: string,
+    details?: TickerDetails | null
+  ): Promise<LogoImage | null>;
+}
@@ -0,0 +1,118 @@
+// apps/api/src/report/chart.ts
+// A small static line chart, laid out once in SVG coordinates (y grows
+// downwards) so the HTML, Markdown and PDF renderers draw the same thing.
+
+export type Chart = {
+  width: number;
+  height: number;
+  /** Plot area inside the axes. */
+  plot: { x: number; y: number; width: number; height: number };
+  /** SVG path data for the close line. */
+  line: string;
+  color: string;
+  yTicks: { y: number; label: string }[];
+  xTicks: { x: number; label: string }[];
+};
+
+const UP = "#059669";
+const DOWN = "#dc2626";
+const MONTHS = "Jan Feb Mar Apr May Jun Jul Aug Sep Oct Nov Dec".split(" ");
+
+/** Round tick step: 1, 2 or 5 × 10^n, giving about `count` ticks. */
+function niceStep(span: number, count: number) {
+  const raw = span / Math.max(1, count);
+  const pow = 10 ** Math.floor(Math.log10(raw));
+  const m = raw / pow;
+  return (m <= 1 ? 1 : m <= 2 ? 2 : m <= 5 ? 5 : 10) * pow;
+}
+
+/** Lay out at least two finite points. */
+export function buildChart(
+  pts: Array<{ t: number; c: number }>,
+  width = 640,
+  height = 240
+): Chart {
+  const plot = { x: 48, y: 10, width: width - 58, height: height - 34 };
+  let lo = Math.min(...pts.map((p) => p.c));
+  let hi = Math.max(...pts.map((p) => p.c));
+  if (hi === lo) [lo, hi] = [lo * 0.99, hi * 1.01 || 1];
+  const step = niceStep(hi - lo, 4);
+  lo = Math.floor(lo / step) * step;
+  hi = Math.ceil(hi / step) * step;
+
+  const t0 = pts[0].t;
+  const t1 = pts[pts.length - 1].t;
+  const sx = (t: number) =>
+    plot.x + (t1 === t0 ? 0 : ((t - t0) / (t1 - t0)) * plot.width);
+  const sy = (c: number) => plot.y + ((hi - c) / (hi - lo)) * plot.height;
+
+  const line = pts
+    .map(
+      (p, i) => `${i ? "L" : "M"}${sx(p.t).toFixed(1)} ${sy(p.c).toFixed(1)}`
+    )
+    .join(" ");
+
+  const decimals = step < 1 ? 2 : 0;
+  const yTicks: Chart["yTicks"] = [];
+  for (let v = lo; v <= hi + step / 2; v += step)
+    yTicks.push({ y: sy(v), label: v.toFixed(decimals) });
+
+  // one tick at the start of each month, thinned to at most six
+  const months: Chart["xTicks"] = [];
+  let prev = "";
+  for (const p of pts) {
+    const d = new Date(p.t);
+    const key = `${d.getUTCFullYear()}-${d.getUTCMonth()}`;
+    if (key === prev) continue;
+    if (prev)
+      months.push({
+        x: sx(p.t),
+        label:
+          d.getUTCMonth() === 0
+            ? String(d.getUTCFullYear())
+            : MONTHS[d.getUTCMonth()],
+      });
+    prev = key;
+  }
+  const every = Math.ceil(months.length / 6);
+  const xTicks = months.filter((_, i) => i % every === 0);
+
+  return {
+    width,
+    height,
+    plot,
+    line,
+    color: pts[pts.length - 1].c >= pts[0].c ? UP : DOWN,
+    yTicks,
+    xTicks,
+  };
+}
+
+const esc = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/** Standalone SVG markup for a chart. */
+export function chartSvg(c: Chart) {
+  const { plot } = c;
+  const bottom = plot.y + plot.height;
+  const grid = c.yTicks
+    .map(
+      (t) =>
+        `<line x1="${plot.x}" x2="${plot.x + plot.width}" y1="${t.y.toFixed(1)}" y2="${t.y.toFixed(1)}" stroke="#e5e7eb"/>` +
+        `<text x="${plot.x - 6}" y="${(t.y + 3).toFixed(1)}" text-anchor="end">${esc(t.label)}</text>`
+    )
+    .join("");
+  const xs = c.xTicks
+    .map(
+      (t) =>
+        `<text x="${t.x.toFixed(1)}" y="${bottom + 16}" text-anchor="middle">${esc(t.label)}</text>`
+    )
+    .join("");
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${c.width}" height="${c.height}" viewBox="0 0 ${c.width} ${c.height}" font-family="Helvetica, Arial, sans-serif" font-size="10" fill="#6b7280">` +
+    grid +
+    xs +
+    `<path d="${c.line}" fill="none" stroke="${c.color}" stroke-width="1.5" stroke-linejoin="round"/>` +
+    `</svg>`
+  );
+}
@@ -0,0 +1,81 @@
+// apps/api/src/report/html.ts
+import { chartSvg } from "./chart";
+import type { Block, ReportDoc } from "./model";
+
+const esc = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/** Only http(s) links survive; anything else renders as plain text. */
+const safeHref = (href?: string) =>
+  href && /^https?:\/\//i.test(href) ? href : undefined;
+
+const STYLE = `
+body{font:14px/1.5 -apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#111827;max-width:760px;margin:2rem auto;padding:0 1rem}
+h1{font-size:1.5rem;margin:0}
+.sub{color:#6b7280;margin:.25rem 0 1.5rem}
+h2{font-size:1.1rem;border-bottom:1px solid #e5e7eb;padding-bottom:.25rem;margin-top:1.75rem}
+table{border-collapse:collapse;width:100%;margin:.5rem 0}
+th,td{text-align:left;padding:.3rem .5rem;border-bottom:1px solid #f3f4f6;vertical-align:top}
+th{color:#6b7280;font-weight:600}
+ul{padding-left:1.25rem}
+.meta{color:#6b7280;font-size:.85em}
+svg{max-width:100%;height:auto}
+@media print{body{margin:0}}`;
+
+function block(b: Block): string {
+  switch (b.kind) {
+    case "paragraph":
+      return `<p>${esc(b.text)}</p>`;
+    case "list":
+      return `<ul>${b.items.map((i) => `<li>${esc(i)}</li>`).join("")}</ul>`;
+    case "table": {
+      const head = b.head
+        ? `<thead><tr>${b.head.map((h) => `<th>${esc(h)}</th>`).join("")}</tr></thead>`
+        : "";
+      const rows = b.rows
+        .map((r) => `<tr>${r.map((c) => `<td>${esc(c)}</td>`).join("")}</tr>`)
+        .join("");
+      return `<table>${head}<tbody>${rows}</tbody></table>`;
+    }
+    case "links":
+      return `<ul>${b.items
+        .map((i) => {
+          const href = safeHref(i.href);
+          const text = href
+            ? `<a href="${esc(href)}">${esc(i.text)}</a>`
+            : esc(i.text);
+          const meta = i.meta
+            ? ` <span class="meta">${esc(i.meta)}</span>`
+            : "";
+          return `<li>${text}${meta}</li>`;
+        })
+        .join("")}</ul>`;
+    case "chart":
+      return chartSvg(b.chart);
+  }
+}
+
+/** A standalone page (inline CSS and SVG, no external assets). */
+export function renderHtml(doc: ReportDoc) {
+  const body = doc.sections
+    .map((s) => `<h2>${esc(s.title)}</h2>\n${s.blocks.map(block).join("\n")}`)
+    .join("\n");
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(doc.title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${esc(doc.title)}</h1>
+<p class="sub">${esc(doc.subtitle)}</p>
+${body}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,34 @@
+// apps/api/src/report/index.ts
+import { renderHtml } from "./html";
+import { renderMarkdown } from "./markdown";
+import type { ReportDoc } from "./model";
+import { renderPdf } from "./pdf";
+
+export {
+  buildReport,
+  validateReportInput,
+  type ReportDoc,
+  type ReportInput,
+} from "./model";
+
+export const REPORT_FORMATS = {
+  md: { contentType: "text/markdown; charset=utf-8" },
+  html: { contentType: "text/html; charset=utf-8" },
+  pdf: { contentType: "application/pdf" },
+} as const;
+
+export type ReportFormat = keyof typeof REPORT_FORMATS;
+
+export const isReportFormat = (f: unknown): f is ReportFormat =>
+  typeof f === "string" && Object.hasOwn(REPORT_FORMATS, f);
+
+export async function renderReport(
+  doc: ReportDoc,
+  format: ReportFormat
+): Promise<Buffer> {
+  if (format === "pdf") return Buffer.from(await renderPdf(doc));
+  return Buffer.from(
+    format === "html" ? renderHtml(doc) : renderMarkdown(doc),
+    "utf8"
+  );
+}
@@ -0,0 +1,44 @@
+// apps/api/src/report/markdown.ts
+import { chartSvg } from "./chart";
+import type { Block, ReportDoc } from "./model";
+
+const cell = (s: string) => s.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+function block(b: Block): string {
+  switch (b.kind) {
+    case "paragraph":
+      return b.text;
+    case "list":
+      return b.items.map((i) => `- ${i}`).join("\n");
+    case "table": {
+      const cols = b.head?.length ?? b.rows[0]?.length ?? 0;
+      const head = b.head ?? Array<string>(cols).fill(" ");
+      return [
+        `| ${head.map(cell).join(" | ")} |`,
+        `|${" --- |".repeat(cols)}`,
+        ...b.rows.map((r) => `| ${r.map(cell).join(" | ")} |`),
+      ].join("\n");
+    }
+    case "links":
+      return b.items
+        .map((i) => {
+          const text = i.href ? `[${i.text}](${i.href})` : i.text;
+          return `- ${text}${i.meta ? ` — ${i.meta}` : ""}`;
+        })
+        .join("\n");
+    case "chart": {
+      // inline, so the file stays self-contained
+      const data = Buffer.from(chartSvg(b.chart)).toString("base64");
+      return `![Price chart](data:image/svg+xml;base64,${data})`;
+    }
+  }
+}
+
+export function renderMarkdown(doc: ReportDoc) {
+  const out = [`# ${doc.title}`, `_${doc.subtitle}_`];
+  for (const s of doc.sections) {
+    out.push(`## ${s.title}`);
+    for (const b of s.blocks) out.push(block(b));
+  }
+  return out.join("\n\n") + "\n";
+}
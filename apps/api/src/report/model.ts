@@ -0,0 +1,338 @@
+// apps/api/src/report/model.ts
+import type { AIPayload, Analysis } from "@stock-search/shared/ai";
+import { buildChart, type Chart } from "./chart";
+
+export type ReportInput = {
+  payload: AIPayload;
+  analysis?: Analysis | null;
+};
+
+/** Format-neutral building blocks; each renderer knows how to draw these. */
+export type Block =
+  | { kind: "paragraph"; text: string }
+  | { kind: "list"; items: string[] }
+  | { kind: "table"; head?: string[]; rows: string[][] }
+  | { kind: "links"; items: { text: string; href?: string; meta?: string }[] }
+  | { kind: "chart"; chart: Chart };
+
+export type Section = { title: string; blocks: Block[] };
+
+export type ReportDoc = {
+  ticker: string;
+  title: string;
+  subtitle: string;
+  generatedAt: string;
+  sections: Section[];
+};
+
+export function validateReportInput(input: unknown): string[] {
+  const b = input as Partial<ReportInput> | null;
+  if (!b || typeof b !== "object") return ["body must be an object"];
+  const errors: string[] = [];
+  const p = b.payload;
+  if (!p || typeof p !== "object") errors.push("payload is required");
+  else {
+    if (typeof p.ticker !== "string" || !p.ticker)
+      errors.push("payload.ticker is required");
+    if (!p.price || typeof p.price !== "object")
+      errors.push("payload.price is required");
+    if (p.series != null && !Array.isArray(p.series.points))
+      errors.push("payload.series.points must be an array");
+  }
+  if (b.analysis != null && typeof b.analysis !== "object")
+    errors.push("analysis must be an object");
+  return errors;
+}
+
+// ---- value formatting (reports are static, so no locale surprises) ----
+
+const isNum = (n: unknown): n is number =>
+  typeof n === "number" && Number.isFinite(n);
+const dash = "—";
+const num = (n: unknown, d = 2) =>
+  isNum(n)
+    ? n.toLocaleString("en-US", {
+        minimumFractionDigits: d,
+        maximumFractionDigits: d,
+      })
+    : dash;
+const usd = (n: unknown) =>
+  isNum(n) ? `${n < 0 ? "-" : ""}$${num(Math.abs(n))}` : dash;
+const pct = (n: unknown) => (isNum(n) ? `${n.toFixed(2)}%` : dash);
+const signedPct = (n: unknown) =>
+  isNum(n) ? `${n >= 0 ? "+" : ""}${n.toFixed(2)}%` : dash;
+const compact = (n: unknown) =>
+  isNum(n)
+    ? new Intl.NumberFormat("en-US", {
+        notation: "compact",
+        maximumFractionDigits: 2,
+      }).format(n)
+    : dash;
+const prob = (n: unknown) => (isNum(n) ? `${Math.round(n * 100)}%` : dash);
+const list = (v: unknown) =>
+  Array.isArray(v) ? v.filter((x) => typeof x === "string" && x.trim()) : [];
+
+/** Assemble the report: quote, stats, chart, analysis, indicators, news. */
+export function buildReport(input: ReportInput, now = new Date()): ReportDoc {
+  const { payload: p, analysis: a } = input;
+  const f = p.fundamentals ?? {};
+  const s = p.stats ?? {};
+  const ind = p.indicators;
+  const sections: Section[] = [];
+
+  sections.push({
+    title: "Quote",
+    blocks: [
+      {
+        kind: "table",
+        rows: [
+          ["Last", usd(p.price.last)],
+          [
+            "Change",
+            `${usd(p.price.change)} (${signedPct(p.price.changePct)})`,
+          ],
+          ["Day range", `${usd(p.price.dayLow)} – ${usd(p.price.dayHigh)}`],
+          ["Previous close", usd(p.price.prevClose)],
+          ["Volume", compact(p.price.volume)],
+          [
+            "Market cap",
+            isNum(f.marketCap) ? `$${compact(f.marketCap)}` : dash,
+          ],
+          [
+            "Exchange / industry",
+            [f.exchange, f.industry].filter(Boolean).join(" · ") || dash,
+          ],
+        ],
+      },
+    ],
+  });
+
+  sections.push({
+    title: "Key stats",
+    blocks: [
+      {
+        kind: "table",
+        head: ["Metric", "Value", "Metric", "Value"],
+        rows: [
+          ["52-week high", usd(s.high52w), "Volatility 1y", pct(s.vol1y)],
+          [
+            "52-week low",
+            usd(s.low52w),
+            "Max drawdown 1y",
+            pct(s.maxDrawdown1y),
+          ],
+          [
+            "Return 1y",
+            signedPct(s.return1y),
+            `Beta vs ${s.benchmark ?? "SPY"}`,
+            num(s.beta),
+          ],
+          ["Avg volume 90d", compact(s.avgVolume90d), "Sharpe", num(s.sharpe)],
+          ["Volatility 20d", pct(s.vol20d), "Sortino", num(s.sortino)],
+          [
+            "Volatility 60d",
+            pct(s.vol60d),
+            "VaR 95% (1d)",
+            pct(isNum(s.var95) ? -s.var95 : null),
+          ],
+        ],
+      },
+    ],
+  });
+
+  const points = (p.series?.points ?? []).filter(
+    (pt) => isNum(pt?.t) && isNum(pt?.c)
+  );
+  if (points.length >= 2)
+    sections.push({
+      title: "Price",
+      blocks: [{ kind: "chart", chart: buildChart(points) }],
+    });
+
+  if (a) sections.push(...analysisSections(a));
+
+  if (ind)
+    sections.push({
+      title: "Indicators",
+      blocks: [
+        {
+          kind: "table",
+          head: ["Indicator", "Value", "Indicator", "Value"],
+          rows: [
+            [
+              "SMA 20 / 50 / 200",
+              [ind.sma20, ind.sma50, ind.sma200].map((n) => num(n)).join(" / "),
+              "RSI 14",
+              num(ind.rsi14, 1),
+            ],
+            [
+              "EMA 20 / 50 / 200",
+              [ind.ema20, ind.ema50, ind.ema200].map((n) => num(n)).join(" / "),
+              "MFI 14",
+              num(ind.mfi14, 1),
+            ],
+            [
+              "MACD / signal / hist",
+              [ind.macd.line, ind.macd.signal, ind.macd.hist]
+                .map((n) => num(n))
+                .join(" / "),
+              "Stochastic %K / %D",
+              `${num(ind.stochastic.k, 1)} / ${num(ind.stochastic.d, 1)}`,
+            ],
+            [
+              "Bollinger (L / M / U)",
+              [ind.bollinger.lower, ind.bollinger.middle, ind.bollinger.upper]
+                .map((n) => num(n))
+                .join(" / "),
+              "ADX (+DI / −DI)",
+              `${num(ind.adx.adx, 1)} (${num(ind.adx.plusDI, 1)} / ${num(ind.adx.minusDI, 1)})`,
+            ],
+            [
+              "ATR 14",
+              `${num(ind.atr14)} (${num(ind.atrPct)}%)`,
+              "Anchored VWAP",
+              `${usd(ind.vwap.anchored)}${ind.vwap.anchorDate ? ` since ${ind.vwap.anchorDate}` : ""}`,
+            ],
+          ],
+        },
+      ],
+    });
+
+  if (p.news?.length)
+    sections.push({
+      title: "News",
+      blocks: [
+        {
+          kind: "links",
+          items: p.news.map((n) => ({
+            text: n.title,
+            href: n.article_url,
+            meta: [n.publisher, n.published_utc?.slice(0, 10)]
+              .filter(Boolean)
+              .join(", "),
+          })),
+        },
+      ],
+    });
+
+  const name = f.name ? `${f.name} (${p.ticker})` : p.ticker;
+  return {
+    ticker: p.ticker,
+    title: `${name} — research report`,
+    subtitle: `Data as of ${p.asOf.slice(0, 10)} · generated ${now.toISOString().slice(0, 16).replace("T", " ")} UTC`,
+    generatedAt: now.toISOString(),
+    sections,
+  };
+}
+
+function analysisSections(a: Analysis): Section[] {
+  const out: Section[] = [];
+  const head = [
+    `Stance: ${a.stance ?? "neutral"}`,
+    `confidence ${prob(a.confidence)}`,
+    a.horizon ? `horizon ${a.horizon}` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  const summary: Block[] = [{ kind: "paragraph", text: head }];
+  if (a.summary) summary.push({ kind: "paragraph", text: a.summary });
+  if (list(a.highlights).length)
+    summary.push({ kind: "list", items: list(a.highlights) });
+  for (const para of list(a.rationale_long))
+    summary.push({ kind: "paragraph", text: para });
+  out.push({ title: "Analysis", blocks: summary });
+
+  const cases = (["bull", "base", "bear"] as const)
+    .map((k) => [k, a.scenarios?.[k]] as const)
+    .filter(([, c]) => c);
+  if (cases.length)
+    out.push({
+      title: "Scenarios",
+      blocks: [
+        {
+          kind: "table",
+          head: ["Case", "Probability", "Target", "Drivers"],
+          rows: cases.map(([k, c]) => [
+            k[0].toUpperCase() + k.slice(1),
+            prob(c!.prob),
+            c!.target ?? dash,
+            list(c!.drivers).join("; ") || dash,
+          ]),
+        },
+      ],
+    });
+
+  const valuation: Block[] = [];
+  if (a.valuation?.multiples?.length)
+    valuation.push({
+      kind: "table",
+      head: ["Multiple", "Value", "Peer range"],
+      rows: a.valuation.multiples.map((m) => [
+        m.name,
+        m.value,
+        m.peer_range ?? dash,
+      ]),
+    });
+  if (list(a.valuation?.notes).length)
+    valuation.push({ kind: "list", items: list(a.valuation?.notes) });
+  if (valuation.length) out.push({ title: "Valuation", blocks: valuation });
+
+  const pb = a.playbook;
+  const playbook = [
+    pb?.entry && `Entry: ${pb.entry}`,
+    list(pb?.exits).length && `Exits: ${list(pb?.exits).join("; ")}`,
+    pb?.invalidation && `Invalidation: ${pb.invalidation}`,
+    pb?.position && `Position: ${pb.position}`,
+    pb?.timeframe && `Timeframe: ${pb.timeframe}`,
+  ].filter((x): x is string => typeof x === "string");
+  const actions: Block[] = [];
+  if (playbook.length) actions.push({ kind: "list", items: playbook });
+  if (list(a.actions).length)
+    actions.push(
+      { kind: "paragraph", text: "Actions" },
+      { kind: "list", items: list(a.actions) }
+    );
+  if (actions.length) out.push({ title: "Playbook", blocks: actions });
+
+  const t = a.technical;
+  if (t) {
+    const blocks: Block[] = [
+      {
+        kind: "table",
+        rows: [
+          ["Supports", list(t.supports).join(", ") || dash],
+          ["Resistances", list(t.resistances).join(", ") || dash],
+        ],
+      },
+    ];
+    if (Array.isArray(t.signals) && t.signals.length)
+      blocks.push({
+        kind: "table",
+        head: ["Signal", "Status"],
+        rows: t.signals.map((g) => [g.name, g.status]),
+      });
+    out.push({ title: "Technical levels", blocks });
+  }
+
+  if (list(a.risks).length)
+    out.push({
+      title: "Risks",
+      blocks: [{ kind: "list", items: list(a.risks) }],
+    });
+  if (list(a.watchlist).length || list(a.catalysts).length)
+    out.push({
+      title: "What to watch",
+      blocks: [
+        {
+          kind: "list",
+          items: [...list(a.catalysts), ...list(a.watchlist)],
+        },
+      ],
+    });
+  if (list(a.disclaimers).length)
+    out.push({
+      title: "Disclaimers",
+      blocks: [{ kind: "list", items: list(a.disclaimers) }],
+    });
+  return out;
+}
@@ -0,0 +1,318 @@
+// apps/api/src/report/pdf.ts
+import {
+  PDFDocument,
+  StandardFonts,
+  rgb,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
+import type { Chart } from "./chart";
+import type { Block, ReportDoc } from "./model";
+
+const PAGE = { width: 612, height: 792 }; // US Letter, points
+const MARGIN = 50;
+const CONTENT = PAGE.width - MARGIN * 2;
+const BODY = 10;
+const LEADING = 1.35;
+const INK = rgb(0.07, 0.09, 0.15);
+const MUTED = rgb(0.42, 0.45, 0.5);
+const RULE = rgb(0.9, 0.91, 0.92);
+
+/** Swaps for common characters outside WinAnsi, the standard fonts' encoding. */
+const REPLACE: Record<string, string> = {
+  "−": "-", // minus sign
+  "→": "->",
+  "←": "<-",
+  "≈": "~",
+  "≤": "<=",
+  "≥": ">=",
+  " ": " ",
+};
+
+function hex(color: string) {
+  const n = parseInt(color.slice(1), 16);
+  return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255);
+}
+
+/** Lays blocks out top to bottom, starting a new page when one fills up. */
+class Writer {
+  page!: PDFPage;
+  y = 0;
+  private charset: Set<number>;
+
+  constructor(
+    private pdf: PDFDocument,
+    private font: PDFFont,
+    private bold: PDFFont
+  ) {
+    this.charset = new Set(font.getCharacterSet());
+    this.newPage();
+  }
+
+  newPage() {
+    this.page = this.pdf.addPage([PAGE.width, PAGE.height]);
+    this.y = PAGE.height - MARGIN;
+  }
+
+  /** Make sure `h` points fit below the cursor, else break the page. */
+  ensure(h: number) {
+    if (this.y - h < MARGIN) this.newPage();
+  }
+
+  clean(s: string) {
+    return [...s.replace(/[\r\n\t]+/g, " ")]
+      .map((ch) =>
+        this.charset.has(ch.codePointAt(0)!) ? ch : (REPLACE[ch] ?? "?")
+      )
+      .join("");
+  }
+
+  /** Greedy word wrap; words wider than the line are broken by character. */
+  wrap(text: string, width: number, size = BODY, font = this.font) {
+    const lines: string[] = [];
+    let line = "";
+    const fits = (s: string) => font.widthOfTextAtSize(s, size) <= width;
+    for (let word of this.clean(text).split(" ")) {
+      if (!word) continue;
+      const next = line ? `${line} ${word}` : word;
+      if (fits(next)) {
+        line = next;
+        continue;
+      }
+      if (line) lines.push(line);
+      while (!fits(word)) {
+        let i = word.length - 1;
+        while (i > 1 && !fits(word.slice(0, i))) i--;
+        lines.push(word.slice(0, i));
+        word = word.slice(i);
+      }
+      line = word;
+    }
+    if (line) lines.push(line);
+    return lines.length ? lines : [""];
+  }
+
+  text(
+    text: string,
+    opts: {
+      size?: number;
+      bold?: boolean;
+      color?: typeof INK;
+      indent?: number;
+    } = {}
+  ) {
+    const size = opts.size ?? BODY;
+    const font = opts.bold ? this.bold : this.font;
+    const indent = opts.indent ?? 0;
+    for (const line of this.wrap(text, CONTENT - indent, size, font)) {
+      this.ensure(size * LEADING);
+      this.y -= size * LEADING;
+      this.page.drawText(line, {
+        x: MARGIN + indent,
+        y: this.y + size * 0.25,
+        size,
+        font,
+        color: opts.color ?? INK,
+      });
+    }
+  }
+
+  gap(h: number) {
+    this.y -= h;
+  }
+
+  heading(title: string) {
+    // keep a heading together with at least a couple of lines of content
+    this.ensure(13 * LEADING + 40);
+    this.gap(10);
+    this.text(title, { size: 13, bold: true });
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y - 2 },
+      end: { x: MARGIN + CONTENT, y: this.y - 2 },
+      thickness: 0.75,
+      color: RULE,
+    });
+    this.gap(8);
+  }
+
+  list(items: string[]) {
+    for (const item of items) {
+      this.ensure(BODY * LEADING);
+      this.page.drawText("•", {
+        x: MARGIN + 4,
+        y: this.y - BODY * LEADING + BODY * 0.25,
+        size: BODY,
+        font: this.font,
+        color: INK,
+      });
+      this.text(item, { indent: 14 });
+      this.gap(2);
+    }
+  }
+
+  table(rows: string[][], head?: string[]) {
+    const cols = Math.max(head?.length ?? 0, ...rows.map((r) => r.length));
+    const pad = 6;
+    // columns get space in proportion to their widest cell, within limits
+    const natural = Array.from({ length: cols }, (_, i) =>
+      Math.min(
+        CONTENT * 0.6,
+        Math.max(
+          40,
+          ...[head ?? [], ...rows].map(
+            (r) =>
+              (head && r === head ? this.bold : this.font).widthOfTextAtSize(
+                this.clean(r[i] ?? ""),
+                BODY
+              ) +
+              pad * 2
+          )
+        )
+      )
+    );
+    const total = natural.reduce((a, b) => a + b, 0);
+    const widths = natural.map((w) => (w / total) * CONTENT);
+
+    const drawRow = (cells: string[], isHead: boolean) => {
+      const font = isHead ? this.bold : this.font;
+      const wrapped = widths.map((w, i) =>
+        this.wrap(cells[i] ?? "", w - pad * 2, BODY, font)
+      );
+      const h =
+        Math.max(...wrapped.map((l) => l.length)) * BODY * LEADING + pad;
+      this.ensure(h);
+      let x = MARGIN;
+      wrapped.forEach((lines, i) => {
+        lines.forEach((line, j) =>
+          this.page.drawText(line, {
+            x: x + pad,
+            y: this.y - pad / 2 - (j + 1) * BODY * LEADING + BODY * 0.25,
+            size: BODY,
+            font,
+            color: isHead ? MUTED : INK,
+          })
+        );
+        x += widths[i];
+      });
+      this.y -= h;
+      this.page.drawLine({
+        start: { x: MARGIN, y: this.y },
+        end: { x: MARGIN + CONTENT, y: this.y },
+        thickness: 0.5,
+        color: RULE,
+      });
+    };
+
+    if (head) drawRow(head, true);
+    for (const r of rows) drawRow(r, false);
+    this.gap(6);
+  }
+
+  chart(c: Chart) {
+    const scale = CONTENT / c.width;
+    const h = c.height * scale;
+    this.ensure(h);
+    const top = this.y;
+    const at = (x: number, y: number) => ({
+      x: MARGIN + x * scale,
+      y: top - y * scale,
+    });
+    const size = 7;
+    for (const t of c.yTicks) {
+      this.page.drawLine({
+        start: at(c.plot.x, t.y),
+        end: at(c.plot.x + c.plot.width, t.y),
+        thickness: 0.5,
+        color: RULE,
+      });
+      const p = at(c.plot.x - 6, t.y);
+      const w = this.font.widthOfTextAtSize(t.label, size);
+      this.page.drawText(t.label, {
+        x: p.x - w,
+        y: p.y - size / 3,
+        size,
+        font: this.font,
+        color: MUTED,
+      });
+    }
+    for (const t of c.xTicks) {
+      const p = at(t.x, c.plot.y + c.plot.height + 14);
+      const w = this.font.widthOfTextAtSize(t.label, size);
+      this.page.drawText(t.label, {
+        x: p.x - w / 2,
+        y: p.y,
+        size,
+        font: this.font,
+        color: MUTED,
+      });
+    }
+    // drawSvgPath uses SVG's y-down coordinates from the given origin
+    this.page.drawSvgPath(c.line, {
+      x: MARGIN,
+      y: top,
+      scale,
+      borderColor: hex(c.color),
+      borderWidth: 1.5 / scale,
+    });
+    this.y -= h + 6;
+  }
+
+  block(b: Block) {
+    switch (b.kind) {
+      case "paragraph":
+        this.text(b.text);
+        this.gap(4);
+        break;
+      case "list":
+        this.list(b.items);
+        this.gap(2);
+        break;
+      case "table":
+        this.table(b.rows, b.head);
+        break;
+      case "links":
+        for (const i of b.items) {
+          this.text(i.text, { bold: true });
+          const meta = [i.meta, i.href].filter(Boolean).join(" · ");
+          if (meta) this.text(meta, { size: 8, color: MUTED });
+          this.gap(4);
+        }
+        break;
+      case "chart":
+        this.chart(b.chart);
+        break;
+    }
+  }
+}
+
+/** A paginated PDF drawn with the standard Helvetica faces. */
+export async function renderPdf(doc: ReportDoc): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(doc.title);
+  pdf.setSubject(`${doc.ticker} research report`);
+  pdf.setCreationDate(new Date(doc.generatedAt));
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  const w = new Writer(pdf, font, bold);
+  w.text(doc.title, { size: 18, bold: true });
+  w.gap(2);
+  w.text(doc.subtitle, { size: 9, color: MUTED });
+  for (const s of doc.sections) {
+    w.heading(s.title);
+    for (const b of s.blocks) w.block(b);
+  }
+
+  const pages = pdf.getPages();
+  pages.forEach((page, i) => {
+    const label = `${doc.ticker} · page ${i + 1} of ${pages.length}`;
+    page.drawText(label, {
+      x: PAGE.width - MARGIN - font.widthOfTextAtSize(label, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font,
+      color: MUTED,
+    });
+  });
+  return pdf.save();
+}
@@ -0,0 +1,161 @@
+// apps/api/src/routes/alerts.ts
+import { Router } from "express";
+import {
+  validateAlertRule,
+  type AlertEvent,
+  type AlertRule,
+  type AlertRuleInput,
+} from "@stock-search/shared/alerts";
+import type { AlertEngine, AlertsDoc } from "../alerts";
+import { JsonStore, NotFoundError, newId, nowISO } from "../db";
+import type { EventHub } from "../sse";
+
+function toInput(body: Record<string, unknown>): AlertRuleInput {
+  return {
+    ticker: String(body.ticker).trim().toUpperCase(),
+    name: typeof body.name === "string" ? body.name.trim() : "",
+    conditions: body.conditions as AlertRuleInput["conditions"],
+    mode: body.mode === "any" ? "any" : "all",
+    enabled: body.enabled !== false,
+  };
+}
+
+/**
+ * Alert rules (rules-DSL conditions on daily bars), their fired events and
+ * the `/stream` SSE channel the engine publishes to.
+ */
+export function alertsRouter(deps: {
+  db: JsonStore<AlertsDoc>;
+  engine: AlertEngine;
+  hub: EventHub;
+}) {
+  const { db, engine, hub } = deps;
+  const router = Router();
+
+  const findEvent = (doc: AlertsDoc, id: string) => {
+    const e = doc.events.find((x) => x.id === id);
+    if (!e) throw new NotFoundError(`alert ${id} not found`);
+    return e;
+  };
+
+  /** `alert` events as rules fire, `update` when an event's status changes. */
+  router.get("/stream", (req, res) => hub.subscribe(req, res));
+
+  router.get("/rules", async (_req, res) => {
+    res.json({ rules: (await db.read()).rules });
+  });
+
+  /** Body: { ticker, name?, conditions, mode?, enabled? } */
+  router.post("/rules", async (req, res) => {
+    const errors = validateAlertRule(req.body);
+    if (errors.length)
+      return res.status(400).json({ error: "invalid rule", details: errors });
+
+    const now = nowISO();
+    const input = toInput(req.body);
+    const rule: AlertRule = {
+      ...input,
+      name: input.name ?? "",
+      mode: input.mode ?? "all",
+      enabled: input.enabled ?? true,
+      id: newId(),
+      armed: true,
+      lastBarT: null,
+      lastCheckedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.update((doc) => {
+      doc.rules.push(rule);
+    });
+    // best effort: a rule that already holds fires right away
+    engine.check(rule.id).catch(() => {});
+    res.status(201).json(rule);
+  });
+
+  /** Partial update of name / conditions / mode / enabled; re-arms the rule. */
+  router.patch("/rules/:id", async (req, res) => {
+    const rule = (await db.read()).rules.find((x) => x.id === req.params.id);
+    if (!rule) throw new NotFoundError(`rule ${req.params.id} not found`);
+    const errors = validateAlertRule({ ...rule, ...req.body });
+    if (errors.length)
+      return res.status(400).json({ error: "invalid rule", details: errors });
+
+    const next = await db.update((doc) => {
+      const r = doc.rules.find((x) => x.id === req.params.id);
+      if (!r) throw new NotFoundError(`rule ${req.params.id} not found`);
+      Object.assign(r, toInput({ ...r, ...req.body }), {
+        armed: true,
+        updatedAt: nowISO(),
+      });
+      return r;
+    });
+    engine.check(next.id).catch(() => {});
+    res.json(next);
+  });
+
+  router.delete("/rules/:id", async (req, res) => {
+    await db.update((doc) => {
+      const next = doc.rules.filter((r) => r.id !== req.params.id);
+      if (next.length === doc.rules.length)
+        throw new NotFoundError(`rule ${req.params.id} not found`);
+      doc.rules = next;
+    });
+    res.status(204).end();
+  });
+
+  /** Evaluate every enabled rule now instead of waiting for the schedule. */
+  router.post("/run", async (_req, res) => {
+    await engine.run();
+    res.json({ ok: true });
+  });
+
+  /** Newest first; ?status=active|acknowledged|snoozed filters. */
+  router.get("/events", async (req, res) => {
+    const { status } = req.query as { status?: string };
+    const events = (await db.read()).events
+      .filter((e) => !status || e.status === status)
+      .reverse();
+    res.json({ events });
+  });
+
+  const setStatus = async (
+    id: string,
+    change: (e: AlertEvent) => void
+  ): Promise<AlertEvent> => {
+    const event = await db.update((doc) => {
+      const e = findEvent(doc, id);
+      change(e);
+      return e;
+    });
+    hub.publish("update", event);
+    return event;
+  };
+
+  router.post("/events/:id/ack", async (req, res) => {
+    res.json(
+      await setStatus(req.params.id, (e) => {
+        e.status = "acknowledged";
+        e.acknowledgedAt = nowISO();
+        e.snoozedUntil = null;
+      })
+    );
+  });
+
+  /** Body: { minutes } — hide the event until then; it comes back active. */
+  router.post("/events/:id/snooze", async (req, res) => {
+    const minutes = Number(req.body?.minutes);
+    if (!(minutes > 0 && minutes <= 7 * 24 * 60))
+      return res
+        .status(400)
+        .json({ error: "minutes must be between 1 and 10080" });
+    res.json(
+      await setStatus(req.params.id, (e) => {
+        e.status = "snoozed";
+        e.snoozedUntil = new Date(Date.now() + minutes * 60_000).toISOString();
+      })
+    );
+  });
+
+  return router;
+}
@@ -0,0 +1,73 @@
+// apps/api/src/routes/backtest.ts
+import { Router } from "express";
+import {
+  STRATEGY_PRESETS,
+  runBacktest,
+  validateBacktest,
+  type BacktestConfig,
+  type Strategy,
+} from "@stock-search/shared/backtest";
+import type { BarStore } from "../bars";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function backtestRouter(barStore: BarStore) {
+  const router = Router();
+
+  /** Available preset names (the client builds the strategy JSON itself). */
+  router.get("/presets", (_req, res) => {
+    res.json({
+      presets: Object.entries(STRATEGY_PRESETS).map(([id, make]) => ({
+        id,
+        strategy: make(),
+      })),
+    });
+  });
+
+  /**
+   * Run a strategy over stored daily bars.
+   * Body: { ticker, from, to, strategy, config? }
+   */
+  router.post("/", async (req, res) => {
+    const { ticker, from, to, strategy, config } = (req.body ?? {}) as {
+      ticker?: string;
+      from?: string;
+      to?: string;
+      strategy?: Strategy;
+      config?: BacktestConfig;
+    };
+    if (!ticker || !from || !to)
+      return res.status(400).json({ error: "ticker, from, to required" });
+    if (!DATE_RE.test(from) || !DATE_RE.test(to) || from > to)
+      return res
+        .status(400)
+        .json({ error: "from, to must be YYYY-MM-DD, from <= to" });
+
+    const errors = validateBacktest(strategy, config);
+    if (errors.length)
+      return res
+        .status(400)
+        .json({ error: "invalid strategy", details: errors });
+
+    const { bars, meta } = await barStore.getRange(
+      {
+        ticker: ticker.toUpperCase(),
+        multiplier: 1,
+        timespan: "day",
+        adjusted: true,
+      },
+      { from, to }
+    );
+    if (bars.length < 2) {
+      const e = meta.errors[0];
+      return res
+        .status(e?.status ?? 404)
+        .json({ error: e?.error ?? "not enough bars for that range" });
+    }
+
+    const result = runBacktest(bars, strategy!, config);
+    res.json({ ok: true, ticker: ticker.toUpperCase(), from, to, ...result });
+  });
+
+  return router;
+}
@@ -0,0 +1,152 @@
+// apps/api/src/routes/chat.ts
+import { Router, type Response } from "express";
+import type { AIPayload, Analysis, ChatTurn } from "@stock-search/shared/ai";
+import { parseAnalysis } from "@stock-search/shared/analysisSchema";
+import type { ChatStore } from "../chat";
+import { nowISO } from "../db";
+import type { LLMProviders } from "../llm";
+import { CHAT_PROMPT, promptInput, renderChat } from "../prompts";
+
+const MAX_MESSAGE = 2000;
+
+export type ChatInput = {
+  message: string;
+  /** Snapshot to ground the conversation in; required on the first message. */
+  payload?: AIPayload;
+  /** Analysis of that snapshot, if one was run. */
+  analysis?: Analysis | null;
+  runId?: string | null;
+};
+
+export function validateChatInput(input: unknown, ticker: string): string[] {
+  const b = input as Partial<ChatInput> | null;
+  if (!b || typeof b !== "object") return ["body must be an object"];
+  const errors: string[] = [];
+  if (typeof b.message !== "string" || !b.message.trim())
+    errors.push("message is required");
+  else if (b.message.length > MAX_MESSAGE)
+    errors.push(`message must be at most ${MAX_MESSAGE} characters`);
+  if (b.payload != null) {
+    if (typeof b.payload !== "object") errors.push("payload must be an object");
+    else if (String(b.payload.ticker ?? "").toUpperCase() !== ticker)
+      errors.push(`payload.ticker must be ${ticker}`);
+  }
+  if (b.analysis != null) {
+    const parsed = parseAnalysis(b.analysis);
+    if (!parsed.ok) errors.push(...parsed.errors.map((e) => `analysis.${e}`));
+  }
+  return errors;
+}
+
+const sse = (res: Response, event: string, data: unknown) =>
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+/**
+ * Follow-up chat per ticker, grounded in the snapshot and analysis the
+ * client last sent. Replies stream over SSE like /api/ai/analyze/stream.
+ */
+export function chatRouter(deps: {
+  chats: ChatStore;
+  llm: LLMProviders;
+  /** Earlier messages sent with each question. */
+  promptTurns: number;
+}) {
+  const { chats, llm } = deps;
+  const router = Router();
+
+  router.get("/:ticker", async (req, res) => {
+    res.json(await chats.get(req.params.ticker.toUpperCase()));
+  });
+
+  /**
+   * Ask a question. Query: provider, model (as for analyze).
+   * Body: ChatInput. Events: meta, chunk (text delta), done (the stored
+   * assistant turn), error.
+   */
+  router.post("/:ticker", async (req, res) => {
+    const ticker = req.params.ticker.toUpperCase();
+    const fail = (status: number, data: unknown) =>
+      res.status(status).end(`event: error\ndata: ${JSON.stringify(data)}\n\n`);
+
+    const errors = validateChatInput(req.body, ticker);
+    if (errors.length)
+      return fail(400, { error: "invalid chat message", details: errors });
+    const pick = llm.pick(req.query);
+    if (!pick.provider) return fail(400, pick.error);
+    const { provider, model } = pick;
+    const missing = provider.unavailable();
+    if (missing) return fail(503, missing);
+
+    const body = req.body as ChatInput;
+    const transcript = await chats.get(ticker);
+    const fresh = body.payload && {
+      payload: promptInput(CHAT_PROMPT, body.payload),
+      analysis: body.analysis ?? null,
+      runId: body.runId ?? null,
+    };
+    const context = fresh ?? transcript.context;
+    if (!context)
+      return fail(400, "payload is required to start a conversation");
+
+    const question = body.message.trim();
+    const messages = renderChat(
+      CHAT_PROMPT,
+      context,
+      transcript.messages.slice(-deps.promptTurns),
+      question
+    );
+    const asked: ChatTurn = { role: "user", content: question, at: nowISO() };
+
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    sse(res, "meta", {
+      source: provider.name,
+      model,
+      promptVersion: CHAT_PROMPT.id,
+    });
+
+    // stop generating once the reader has gone
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+
+    try {
+      let reply = "";
+      for await (const delta of provider.stream({
+        model,
+        messages,
+        signal: controller.signal,
+      })) {
+        reply += delta;
+        sse(res, "chunk", delta);
+      }
+      if (!reply.trim()) throw new Error("empty reply");
+
+      const answer: ChatTurn = {
+        role: "assistant",
+        content: reply.trim(),
+        at: nowISO(),
+        source: provider.name,
+        model,
+      };
+      await chats.append(ticker, [asked, answer], fresh);
+      sse(res, "done", answer);
+      res.end();
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      console.error("AI chat error:", err);
+      try {
+        sse(res, "error", err?.message ?? "chat failed");
+        res.end();
+      } catch {}
+    }
+  });
+
+  /** Start over: drops the messages and the grounding snapshot. */
+  router.delete("/:ticker", async (req, res) => {
+    await chats.clear(req.params.ticker.toUpperCase());
+    res.json({ ok: true });
+  });
+
+  return router;
+}
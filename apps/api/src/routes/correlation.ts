@@ -0,0 +1,127 @@
+// apps/api/src/routes/correlation.ts
+import { Router } from "express";
+import {
+  clusterOrder,
+  correlationMatrix,
+  reorderMatrix,
+  rollingCorrelation,
+} from "@stock-search/shared/correlation";
+import { alignCloses, type ClosePoint } from "@stock-search/shared/series";
+import { marketDate, type BarStore } from "../bars";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TICKERS = 30;
+
+function parseQuery(q: Record<string, string | undefined>) {
+  const tickers = [
+    ...new Set(
+      (q.tickers ?? "")
+        .split(",")
+        .map((t) => t.trim().toUpperCase())
+        .filter(Boolean)
+    ),
+  ];
+  const to = q.to ?? marketDate(Date.now());
+  // only derive the default `from` from a `to` that is a real date
+  const toMs = DATE_RE.test(to) ? Date.parse(to) : NaN;
+  const from =
+    q.from ?? (Number.isFinite(toMs) ? marketDate(toMs - 365 * DAY_MS) : "");
+  const window = Math.round(Number(q.window ?? 60));
+
+  let error: string | null = null;
+  if (
+    !Number.isFinite(toMs) ||
+    !DATE_RE.test(from) ||
+    !Number.isFinite(Date.parse(from)) ||
+    from > to
+  )
+    error = "from, to must be YYYY-MM-DD, from <= to";
+  else if (!Number.isFinite(window) || window < 5 || window > 250)
+    error = "window must be between 5 and 250";
+  return { tickers, from, to, window, error };
+}
+
+/**
+ * Return correlations between tickers from stored adjusted daily bars, so
+ * repeated requests over the same range are served from the bar store.
+ */
+export function correlationRouter(barStore: BarStore) {
+  const router = Router();
+
+  /** Closes per ticker; tickers without bars are reported, not fatal. */
+  const loadCloses = async (tickers: string[], from: string, to: string) => {
+    const series: Record<string, ClosePoint[]> = {};
+    const missing: { ticker: string; error: string }[] = [];
+    for (const ticker of tickers) {
+      try {
+        const { bars, meta } = await barStore.getRange(
+          { ticker, multiplier: 1, timespan: "day", adjusted: true },
+          { from, to }
+        );
+        if (bars.length > 1) series[ticker] = bars;
+        else
+          missing.push({ ticker, error: meta.errors[0]?.error ?? "no data" });
+      } catch (err) {
+        missing.push({
+          ticker,
+          error: err instanceof Error ? err.message : "prices unavailable",
+        });
+      }
+    }
+    return { aligned: alignCloses(series), missing };
+  };
+
+  /**
+   * Pairwise correlation matrix in clustered order.
+   * Query: tickers=A,B,C&from&to (defaults to the trailing year)
+   */
+  router.get("/", async (req, res) => {
+    const q = parseQuery(req.query as Record<string, string>);
+    if (q.error) return res.status(400).json({ error: q.error });
+    if (q.tickers.length < 2 || q.tickers.length > MAX_TICKERS)
+      return res
+        .status(400)
+        .json({ error: `tickers: between 2 and ${MAX_TICKERS} symbols` });
+
+    const { aligned, missing } = await loadCloses(q.tickers, q.from, q.to);
+    const matrix = correlationMatrix(aligned.closes);
+    const ordered = reorderMatrix(matrix, clusterOrder(matrix));
+    res.json({
+      from: q.from,
+      to: q.to,
+      days: aligned.dates.length,
+      ...ordered,
+      missing,
+    });
+  });
+
+  /**
+   * Rolling correlation of one pair over a trailing window of daily returns.
+   * Query: tickers=A,B&window=60&from&to
+   */
+  router.get("/rolling", async (req, res) => {
+    const q = parseQuery(req.query as Record<string, string>);
+    if (q.error) return res.status(400).json({ error: q.error });
+    if (q.tickers.length !== 2)
+      return res.status(400).json({ error: "tickers: exactly 2 symbols" });
+
+    const [a, b] = q.tickers;
+    const { aligned, missing } = await loadCloses(q.tickers, q.from, q.to);
+    if (missing.length)
+      return res.status(404).json({ error: "prices unavailable", missing });
+
+    const values = rollingCorrelation(
+      aligned.closes[a],
+      aligned.closes[b],
+      q.window
+    );
+    res.json({
+      tickers: [a, b],
+      window: q.window,
+      points: aligned.dates.map((date, i) => ({ date, value: values[i] })),
+    });
+  });
+
+  return router;
+}
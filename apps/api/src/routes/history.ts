@@ -0,0 +1,45 @@
+// apps/api/src/routes/history.ts
+import { Router } from "express";
+import { diffRuns } from "@stock-search/shared/ai";
+import type { AnalysisHistory } from "../history";
+
+/** Stored analysis runs per ticker, and diffs between two of them. */
+export function historyRouter(history: AnalysisHistory) {
+  const router = Router();
+
+  /** Run summaries, newest first. Query: limit (default 50, max 200). */
+  router.get("/:ticker", async (req, res) => {
+    const limit = Math.round(Number(req.query.limit ?? 50));
+    if (!Number.isFinite(limit) || limit < 1 || limit > 200)
+      return res.status(400).json({ error: "limit must be between 1 and 200" });
+    res.json({
+      runs: await history.list(req.params.ticker.toUpperCase(), limit),
+    });
+  });
+
+  /** Query: from, to (run ids; `from` is treated as the older run). */
+  router.get("/:ticker/diff", async (req, res) => {
+    const { from, to } = req.query as Record<string, string | undefined>;
+    if (!from || !to)
+      return res.status(400).json({ error: "from and to run ids required" });
+    const ticker = req.params.ticker.toUpperCase();
+    let [a, b] = await Promise.all([
+      history.get(ticker, from),
+      history.get(ticker, to),
+    ]);
+    if (a.createdAt > b.createdAt) [a, b] = [b, a];
+    res.json(diffRuns(a, b));
+  });
+
+  /** The full run, including the exact payload sent. */
+  router.get("/:ticker/:id", async (req, res) => {
+    res.json(await history.get(req.params.ticker.toUpperCase(), req.params.id));
+  });
+
+  router.delete("/:ticker/:id", async (req, res) => {
+    await history.remove(req.params.ticker.toUpperCase(), req.params.id);
+    res.json({ ok: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,362 @@
+// apps/api/src/routes/portfolio.ts
+import { Router } from "express";
+import {
+  buildPositions,
+  sortTransactions,
+  validateTransaction,
+  valueHistory,
+  type Transaction,
+  type TransactionInput,
+} from "@stock-search/shared/portfolio";
+import {
+  optimizePortfolio,
+  validateConstraints,
+  type OptimizeConstraints,
+} from "@stock-search/shared/optimize";
+import { alignCloses, type ClosePoint } from "@stock-search/shared/series";
+import { marketDate, type BarStore } from "../bars";
+import { JsonStore, NotFoundError, newId, nowISO } from "../db";
+
+export type PortfolioDoc = { transactions: Transaction[] };
+
+export const emptyPortfolio = (): PortfolioDoc => ({ transactions: [] });
+
+export type TickerInfo = {
+  name?: string;
+  industry?: string;
+  marketCap?: number;
+};
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_UNIVERSE = 30;
+
+function toInput(body: Record<string, unknown>): TransactionInput {
+  return {
+    ticker: String(body.ticker).trim().toUpperCase(),
+    side: body.side as TransactionInput["side"],
+    quantity: Number(body.quantity),
+    price: Number(body.price),
+    fees: Number(body.fees ?? 0),
+    date: String(body.date),
+    ...(typeof body.note === "string" && body.note.trim()
+      ? { note: body.note.trim() }
+      : {}),
+  };
+}
+
+/** Error message if the ledger contains an impossible sell, else null. */
+function ledgerError(txs: Transaction[]) {
+  try {
+    buildPositions(txs);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : "invalid ledger";
+  }
+}
+
+const weights = (entries: Map<string, number>, total: number) =>
+  [...entries]
+    .map(([key, value]) => ({ key, value, weight: total ? value / total : 0 }))
+    .sort((a, b) => b.value - a.value);
+
+/**
+ * Holdings ledger plus derived positions, P&L, allocation and value history.
+ * Valuation uses unadjusted daily closes from the bar store, which match the
+ * share counts as traded (splits are not modelled).
+ */
+export function portfolioRouter(deps: {
+  db: JsonStore<PortfolioDoc>;
+  barStore: BarStore;
+  tickerInfo: (ticker: string) => Promise<TickerInfo | null>;
+}) {
+  const { db, barStore, tickerInfo } = deps;
+  const router = Router();
+
+  const closes = async (ticker: string, from: string, to: string) => {
+    const { bars } = await barStore.getRange(
+      { ticker, multiplier: 1, timespan: "day", adjusted: false },
+      { from, to }
+    );
+    return bars.map((b) => ({ date: marketDate(b.t), c: b.c }));
+  };
+
+  router.get("/transactions", async (_req, res) => {
+    const { transactions } = await db.read();
+    res.json({ transactions: sortTransactions(transactions) });
+  });
+
+  /** Body: { ticker, side, quantity, price, fees?, date, note? } */
+  router.post("/transactions", async (req, res) => {
+    const errors = validateTransaction(req.body);
+    if (errors.length)
+      return res
+        .status(400)
+        .json({ error: "invalid transaction", details: errors });
+
+    const tx: Transaction = {
+      ...toInput(req.body),
+      id: newId(),
+      createdAt: nowISO(),
+    };
+    const problem = await db.update((doc) => {
+      const err = ledgerError([...doc.transactions, tx]);
+      if (!err) doc.transactions.push(tx);
+      return err;
+    });
+    if (problem) return res.status(400).json({ error: problem });
+    res.status(201).json(tx);
+  });
+
+  /** Replace an existing transaction (same body as POST). */
+  router.put("/transactions/:id", async (req, res) => {
+    const errors = validateTransaction(req.body);
+    if (errors.length)
+      return res
+        .status(400)
+        .json({ error: "invalid transaction", details: errors });
+
+    const result = await db.update((doc) => {
+      const i = doc.transactions.findIndex((t) => t.id === req.params.id);
+      if (i < 0)
+        throw new NotFoundError(`transaction ${req.params.id} not found`);
+      const tx = { ...doc.transactions[i], ...toInput(req.body) };
+      const next = doc.transactions.map((t, j) => (j === i ? tx : t));
+      const err = ledgerError(next);
+      if (!err) doc.transactions = next;
+      return err ? { error: err } : { tx };
+    });
+    if ("error" in result) return res.status(400).json(result);
+    res.json(result.tx);
+  });
+
+  router.delete("/transactions/:id", async (req, res) => {
+    const problem = await db.update((doc) => {
+      const next = doc.transactions.filter((t) => t.id !== req.params.id);
+      if (next.length === doc.transactions.length)
+        throw new NotFoundError(`transaction ${req.params.id} not found`);
+      const err = ledgerError(next);
+      if (!err) doc.transactions = next;
+      return err;
+    });
+    if (problem) return res.status(400).json({ error: problem });
+    res.status(204).end();
+  });
+
+  /** Positions priced at the latest stored close, totals and allocation. */
+  router.get("/", async (_req, res) => {
+    const { transactions } = await db.read();
+    const { positions, sales } = buildPositions(transactions);
+    const to = marketDate(Date.now());
+    const from = marketDate(Date.now() - 10 * DAY_MS);
+    const warnings: string[] = [];
+
+    const rows = await Promise.all(
+      positions.map(async (p) => {
+        let last: { date: string; c: number } | undefined;
+        let info: TickerInfo | null = null;
+        if (p.quantity > 0) {
+          try {
+            last = (await closes(p.ticker, from, to)).at(-1);
+            if (!last) warnings.push(`no recent price for ${p.ticker}`);
+          } catch (err) {
+            warnings.push(
+              `${p.ticker}: ${err instanceof Error ? err.message : "price unavailable"}`
+            );
+          }
+          info = await tickerInfo(p.ticker).catch(() => null);
+        }
+        const marketValue = last ? p.quantity * last.c : null;
+        const unrealizedPnl =
+          marketValue != null ? marketValue - p.costBasis : null;
+        return {
+          ...p,
+          name: info?.name ?? null,
+          industry: info?.industry ?? null,
+          lastPrice: last?.c ?? null,
+          lastDate: last?.date ?? null,
+          marketValue,
+          unrealizedPnl,
+          unrealizedPct:
+            unrealizedPnl != null && p.costBasis
+              ? (unrealizedPnl / p.costBasis) * 100
+              : null,
+        };
+      })
+    );
+
+    const open = rows.filter((r) => r.quantity > 0);
+    const marketValue = open.reduce((s, r) => s + (r.marketValue ?? 0), 0);
+    const byTicker = new Map<string, number>();
+    const byIndustry = new Map<string, number>();
+    for (const r of open) {
+      if (r.marketValue == null) continue;
+      byTicker.set(r.ticker, r.marketValue);
+      const k = r.industry ?? "Unknown";
+      byIndustry.set(k, (byIndustry.get(k) ?? 0) + r.marketValue);
+    }
+
+    res.json({
+      positions: rows.map((r) => ({
+        ...r,
+        weight:
+          r.marketValue != null && marketValue
+            ? r.marketValue / marketValue
+            : null,
+      })),
+      totals: {
+        marketValue,
+        costBasis: open.reduce((s, r) => s + r.costBasis, 0),
+        unrealizedPnl: open.reduce((s, r) => s + (r.unrealizedPnl ?? 0), 0),
+        realizedPnl: rows.reduce((s, r) => s + r.realizedPnl, 0),
+        fees: rows.reduce((s, r) => s + r.fees, 0),
+      },
+      allocation: {
+        byTicker: weights(byTicker, marketValue),
+        byIndustry: weights(byIndustry, marketValue),
+      },
+      sales,
+      warnings,
+    });
+  });
+
+  /** Daily value, cost basis and realized P&L since the first trade (or `from`). */
+  router.get("/history", async (req, res) => {
+    const { from: qFrom } = req.query as Record<string, string>;
+    if (qFrom && !DATE_RE.test(qFrom))
+      return res.status(400).json({ error: "from must be YYYY-MM-DD" });
+
+    const { transactions } = await db.read();
+    const sorted = sortTransactions(transactions);
+    if (!sorted.length) return res.json({ points: [], warnings: [] });
+
+    const to = marketDate(Date.now());
+    const start = sorted[0].date;
+    const tickers = [...new Set(sorted.map((t) => t.ticker))];
+    const warnings: string[] = [];
+    const series: Record<string, { date: string; c: number }[]> = {};
+    for (const t of tickers) {
+      try {
+        series[t] = await closes(t, start, to);
+      } catch (err) {
+        warnings.push(
+          `${t}: ${err instanceof Error ? err.message : "prices unavailable"}`
+        );
+      }
+    }
+
+    const points = valueHistory(sorted, series, to).filter(
+      (p) => !qFrom || p.date >= qFrom
+    );
+    res.json({ points, warnings });
+  });
+
+  /**
+   * Weights for max-Sharpe, minimum variance, risk parity and equal weight
+   * over a universe (default: open holdings), plus the efficient frontier and
+   * the current holdings evaluated on the same adjusted daily returns.
+   * Body: { tickers?, from?, to?, constraints: { longOnly, maxWeight,
+   * targetVol?, riskFreeRate? } }
+   */
+  router.post("/optimize", async (req, res) => {
+    const body = (req.body ?? {}) as {
+      tickers?: unknown;
+      from?: string;
+      to?: string;
+      constraints?: OptimizeConstraints;
+    };
+    const errors = validateConstraints(body.constraints);
+    const to = body.to ?? marketDate(Date.now());
+    // only derive the default `from` from a `to` that is a real date
+    const toMs =
+      typeof to === "string" && DATE_RE.test(to) ? Date.parse(to) : NaN;
+    const from =
+      body.from ??
+      (Number.isFinite(toMs) ? marketDate(toMs - 365 * DAY_MS) : "");
+    if (
+      !Number.isFinite(toMs) ||
+      typeof from !== "string" ||
+      !DATE_RE.test(from) ||
+      !Number.isFinite(Date.parse(from)) ||
+      from > to
+    )
+      errors.push("from, to must be YYYY-MM-DD, from <= to");
+    if (body.tickers != null && !Array.isArray(body.tickers))
+      errors.push("tickers must be an array");
+    if (errors.length)
+      return res
+        .status(400)
+        .json({ error: "invalid optimize request", details: errors });
+
+    const { transactions } = await db.read();
+    const held = buildPositions(transactions).positions.filter(
+      (p) => p.quantity > 0
+    );
+    const tickers = [
+      ...new Set(
+        ((body.tickers as unknown[] | undefined) ?? held.map((p) => p.ticker))
+          .map((t) => String(t).trim().toUpperCase())
+          .filter(Boolean)
+      ),
+    ];
+    if (tickers.length < 2 || tickers.length > MAX_UNIVERSE)
+      return res.status(400).json({
+        error: `universe must have between 2 and ${MAX_UNIVERSE} tickers`,
+      });
+
+    const warnings: string[] = [];
+    const series: Record<string, ClosePoint[]> = {};
+    for (const ticker of tickers) {
+      try {
+        const { bars } = await barStore.getRange(
+          { ticker, multiplier: 1, timespan: "day", adjusted: true },
+          { from, to }
+        );
+        if (bars.length > 1) series[ticker] = bars;
+        else warnings.push(`${ticker}: no prices in range, excluded`);
+      } catch (err) {
+        warnings.push(
+          `${ticker}: ${err instanceof Error ? err.message : "prices unavailable"}`
+        );
+      }
+    }
+    const aligned = alignCloses(series);
+    const universe = Object.keys(aligned.closes);
+    if (universe.length < 2 || aligned.dates.length < 30)
+      return res.status(422).json({
+        error: "not enough overlapping price history to optimize",
+        warnings,
+      });
+
+    // current weights at the last common close, within the universe only
+    const last = aligned.dates.length - 1;
+    const value = new Map<string, number>();
+    for (const p of held) {
+      if (aligned.closes[p.ticker])
+        value.set(p.ticker, p.quantity * aligned.closes[p.ticker][last]);
+      else if (!tickers.includes(p.ticker))
+        warnings.push(`${p.ticker}: held but not in the optimized universe`);
+    }
+    const total = [...value.values()].reduce((s, v) => s + v, 0);
+    const current = total
+      ? Object.fromEntries([...value].map(([t, v]) => [t, v / total]))
+      : undefined;
+
+    let result;
+    try {
+      result = optimizePortfolio(aligned.closes, body.constraints!, current);
+    } catch (err) {
+      return res.status(400).json({
+        error: err instanceof Error ? err.message : "optimization failed",
+      });
+    }
+    res.json({
+      from: aligned.dates[0],
+      to: aligned.dates[last],
+      ...result,
+      warnings: [...warnings, ...result.warnings],
+    });
+  });
+
+  return router;
+}
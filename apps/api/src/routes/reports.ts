@@ -0,0 +1,44 @@
+// apps/api/src/routes/reports.ts
+import { Router } from "express";
+import {
+  REPORT_FORMATS,
+  buildReport,
+  isReportFormat,
+  renderReport,
+  validateReportInput,
+  type ReportInput,
+} from "../report";
+
+const EXT = { md: "md", html: "html", pdf: "pdf" } as const;
+
+export function reportsRouter() {
+  const router = Router();
+
+  /**
+   * Render a research report from the same payload the analyst sees, plus
+   * the analysis if there is one. Stateless, so it works headless too.
+   * Query: format=md|html|pdf (default md). Body: { payload, analysis? }
+   */
+  router.post("/", async (req, res) => {
+    const format = (req.query.format as string | undefined) ?? "md";
+    if (!isReportFormat(format))
+      return res.status(400).json({
+        error: `format must be one of ${Object.keys(REPORT_FORMATS).join(", ")}`,
+      });
+    const errors = validateReportInput(req.body);
+    if (errors.length)
+      return res.status(400).json({ error: "invalid report", details: errors });
+
+    const doc = buildReport(req.body as ReportInput);
+    const body = await renderReport(doc, format);
+    const name = `${doc.ticker.replace(/[^A-Za-z0-9.-]/g, "_")}-report-${doc.generatedAt.slice(0, 10)}.${EXT[format]}`;
+    res
+      .type(REPORT_FORMATS[format].contentType)
+      .attachment(name)
+      // the web app is cross-origin and reads the filename from here
+      .setHeader("Access-Control-Expose-Headers", "Content-Disposition")
+      .send(body);
+  });
+
+  return router;
+}
@@ -0,0 +1,69 @@
+// apps/api/src/routes/screener.ts
+import { Router } from "express";
+import {
+  SORT_FIELDS,
+  validateScreenerFilters,
+  type ScreenerFilters,
+  type SortField,
+} from "@stock-search/shared/screener";
+import { MAX_UNIVERSE, type ScreenerService } from "../screener";
+
+export function screenerRouter(screener: ScreenerService) {
+  const router = Router();
+
+  /** Universe source/size and background refresh progress. */
+  router.get("/status", async (_req, res) => {
+    res.json(await screener.status());
+  });
+
+  /** Body: { tickers: string[] } */
+  router.put("/universe", async (req, res) => {
+    const raw: unknown = req.body?.tickers;
+    if (!Array.isArray(raw) || raw.some((t) => typeof t !== "string"))
+      return res.status(400).json({ error: "tickers must be a string array" });
+    if (!raw.length || raw.length > MAX_UNIVERSE)
+      return res
+        .status(400)
+        .json({ error: `between 1 and ${MAX_UNIVERSE} tickers` });
+    res.json(await screener.setUniverse(raw as string[]));
+  });
+
+  /** Rebuild the universe from Polygon's grouped daily bars. */
+  router.post("/universe/grouped", async (_req, res) => {
+    res.json(await screener.importGrouped());
+  });
+
+  /** Refresh a batch of stale tickers now (the schedule does this too). */
+  router.post("/refresh", async (req, res) => {
+    const n = Math.min(25, Math.max(1, Number(req.body?.batch) || 5));
+    res.json({ refreshed: await screener.refreshBatch(n) });
+  });
+
+  /** Body: { filters?, sort?, dir?, limit? } */
+  router.post("/scan", async (req, res) => {
+    const { filters, sort, dir, limit } = (req.body ?? {}) as {
+      filters?: ScreenerFilters;
+      sort?: string;
+      dir?: string;
+      limit?: number;
+    };
+    const errors = validateScreenerFilters(filters);
+    if (sort != null && !SORT_FIELDS.includes(sort as SortField))
+      errors.push(`sort must be one of ${SORT_FIELDS.join(", ")}`);
+    if (dir != null && dir !== "asc" && dir !== "desc")
+      errors.push('dir must be "asc" or "desc"');
+    if (errors.length)
+      return res.status(400).json({ error: "invalid scan", details: errors });
+
+    res.json(
+      await screener.scan({
+        filters: filters ?? {},
+        sort: (sort as SortField) ?? "marketCap",
+        dir: dir === "asc" ? "asc" : "desc",
+        limit: Math.min(1000, Math.max(1, Number(limit) || 200)),
+      })
+    );
+  });
+
+  return router;
+}
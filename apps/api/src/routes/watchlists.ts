@@ -0,0 +1,155 @@
+// apps/api/src/routes/watchlists.ts
+import { Router } from "express";
+import { JsonStore, NotFoundError, newId, nowISO } from "../db";
+
+export type Watchlist = {
+  id: string;
+  name: string;
+  symbols: string[]; // display order
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Array order is the display order of the lists. */
+export type WatchlistDoc = { watchlists: Watchlist[] };
+
+export const emptyWatchlists = (): WatchlistDoc => ({ watchlists: [] });
+
+const SYMBOL_RE = /^[A-Z0-9.:-]{1,16}$/;
+
+function parseName(input: unknown) {
+  const name = typeof input === "string" ? input.trim() : "";
+  return name && name.length <= 80 ? name : null;
+}
+
+/** Uppercased, de-duplicated symbols, or null if any entry is invalid. */
+function parseSymbols(input: unknown) {
+  if (!Array.isArray(input)) return null;
+  const out: string[] = [];
+  for (const s of input) {
+    const sym = typeof s === "string" ? s.trim().toUpperCase() : "";
+    if (!SYMBOL_RE.test(sym)) return null;
+    if (!out.includes(sym)) out.push(sym);
+  }
+  return out;
+}
+
+function find(doc: WatchlistDoc, id: string) {
+  const wl = doc.watchlists.find((w) => w.id === id);
+  if (!wl) throw new NotFoundError(`watchlist ${id} not found`);
+  return wl;
+}
+
+export function watchlistsRouter(db: JsonStore<WatchlistDoc>) {
+  const router = Router();
+
+  router.get("/", async (_req, res) => {
+    res.json({ watchlists: (await db.read()).watchlists });
+  });
+
+  /** Body: { name, symbols? } */
+  router.post("/", async (req, res) => {
+    const name = parseName(req.body?.name);
+    const symbols = parseSymbols(req.body?.symbols ?? []);
+    if (!name) return res.status(400).json({ error: "name required" });
+    if (!symbols) return res.status(400).json({ error: "invalid symbols" });
+
+    const wl = await db.update((doc) => {
+      const now = nowISO();
+      const created: Watchlist = {
+        id: newId(),
+        name,
+        symbols,
+        createdAt: now,
+        updatedAt: now,
+      };
+      doc.watchlists.push(created);
+      return created;
+    });
+    res.status(201).json(wl);
+  });
+
+  /** Reorder the lists themselves. Body: { ids } (every id, new order). */
+  router.put("/order", async (req, res) => {
+    const ids = req.body?.ids;
+    if (!Array.isArray(ids))
+      return res.status(400).json({ error: "ids array required" });
+
+    const result = await db.update((doc) => {
+      const current = doc.watchlists.map((w) => w.id);
+      if (
+        ids.length !== current.length ||
+        !current.every((id) => ids.includes(id))
+      )
+        return null;
+      doc.watchlists.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+      return doc.watchlists;
+    });
+    if (!result)
+      return res
+        .status(400)
+        .json({ error: "ids must list every watchlist exactly once" });
+    res.json({ watchlists: result });
+  });
+
+  router.get("/:id", async (req, res) => {
+    res.json(find(await db.read(), req.params.id));
+  });
+
+  /** Rename and/or replace (reorder) symbols. Body: { name?, symbols? } */
+  router.patch("/:id", async (req, res) => {
+    const { name: rawName, symbols: rawSymbols } = req.body ?? {};
+    const name = rawName === undefined ? undefined : parseName(rawName);
+    const symbols =
+      rawSymbols === undefined ? undefined : parseSymbols(rawSymbols);
+    if (name === null) return res.status(400).json({ error: "invalid name" });
+    if (symbols === null)
+      return res.status(400).json({ error: "invalid symbols" });
+
+    const wl = await db.update((doc) => {
+      const w = find(doc, req.params.id);
+      if (name !== undefined) w.name = name;
+      if (symbols !== undefined) w.symbols = symbols;
+      w.updatedAt = nowISO();
+      return w;
+    });
+    res.json(wl);
+  });
+
+  router.delete("/:id", async (req, res) => {
+    await db.update((doc) => {
+      find(doc, req.params.id);
+      doc.watchlists = doc.watchlists.filter((w) => w.id !== req.params.id);
+    });
+    res.status(204).end();
+  });
+
+  /** Append one symbol. Body: { symbol } */
+  router.post("/:id/symbols", async (req, res) => {
+    const [symbol] = parseSymbols([req.body?.symbol]) ?? [];
+    if (!symbol) return res.status(400).json({ error: "invalid symbol" });
+
+    const wl = await db.update((doc) => {
+      const w = find(doc, req.params.id);
+      if (!w.symbols.includes(symbol)) {
+        w.symbols.push(symbol);
+        w.updatedAt = nowISO();
+      }
+      return w;
+    });
+    res.json(wl);
+  });
+
+  router.delete("/:id/symbols/:symbol", async (req, res) => {
+    const symbol = req.params.symbol.toUpperCase();
+    const wl = await db.update((doc) => {
+      const w = find(doc, req.params.id);
+      w.symbols = w.symbols.filter((s) => s !== symbol);
+      w.updatedAt = nowISO();
+      return w;
+    });
+    res.json(wl);
+  });
+
+  return router;
+}
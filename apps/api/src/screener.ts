@@ -0,0 +1,252 @@
+// apps/api/src/screener.ts
+import {
+  matchesConditions,
+  matchesRanges,
+  rowFromBars,
+  sortRows,
+  type ScreenerFilters,
+  type ScreenerRow,
+  type SortField,
+} from "@stock-search/shared/screener";
+import { marketDate, type Agg, type BarStore } from "./bars";
+import { JsonStore, nowISO } from "./db";
+import { RateLimitError } from "./polygon";
+import { ProviderError, type GroupedFetcher } from "./providers";
+
+export type UniverseSource = "import" | "grouped";
+
+export type ScreenerDoc = {
+  universe: {
+    source: UniverseSource | null;
+    tickers: string[];
+    updatedAt: string | null;
+  };
+  rows: Record<string, ScreenerRow>;
+};
+
+export const emptyScreener = (): ScreenerDoc => ({
+  universe: { source: null, tickers: [], updatedAt: null },
+  rows: {},
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** A year of bars plus slack for 200-period indicators. */
+const HISTORY_DAYS = 400;
+/** Largest universe accepted, imported or from grouped bars. */
+export const MAX_UNIVERSE = 10_000;
+/** Rows older than this are due for a background refresh. */
+const STALE_MS = 20 * 60 * 60 * 1000;
+
+const DAILY = { multiplier: 1, timespan: "day", adjusted: true } as const;
+
+const emptyRow = (ticker: string): ScreenerRow => ({
+  ticker,
+  name: null,
+  marketCap: null,
+  updatedAt: null,
+  ...rowFromBars([]),
+});
+
+/**
+ * Screens a ticker universe from locally stored data only. An opt-in
+ * background loop refreshes a few stale tickers per tick (bars into the bar
+ * store, name and market cap from cached details), so scans never wait on, or
+ * spend, the upstream rate limit.
+ */
+export class ScreenerService {
+  private timer: NodeJS.Timeout | null = null;
+  private refreshing = false;
+  private lastRun: { at: string; refreshed: number; error?: string } | null =
+    null;
+
+  constructor(
+    private deps: {
+      db: JsonStore<ScreenerDoc>;
+      barStore: BarStore;
+      /** Absent when the market data provider has no grouped endpoint. */
+      fetchGrouped?: GroupedFetcher;
+      tickerInfo: (
+        ticker: string
+      ) => Promise<{ name?: string; marketCap?: number } | null>;
+    }
+  ) {}
+
+  start(intervalMs: number, batch: number) {
+    if (this.timer || intervalMs <= 0) return;
+    this.timer = setInterval(() => void this.refreshBatch(batch), intervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Replace the universe with an imported ticker list. */
+  async setUniverse(tickers: string[]) {
+    const clean = [
+      ...new Set(tickers.map((t) => t.trim().toUpperCase()).filter(Boolean)),
+    ];
+    return this.deps.db.update((doc) => {
+      doc.universe = { source: "import", tickers: clean, updatedAt: nowISO() };
+      doc.rows = Object.fromEntries(
+        clean.map((t) => [t, doc.rows[t] ?? emptyRow(t)])
+      );
+      return doc.universe;
+    });
+  }
+
+  /**
+   * Universe = every ticker in the latest two grouped-daily snapshots. Price,
+   * volume and change are seeded from them right away; 52-week fields and
+   * market cap fill in as the background refresh reaches each ticker.
+   * Beyond MAX_UNIVERSE, the most traded (by dollar volume) are kept.
+   */
+  async importGrouped() {
+    const { fetchGrouped } = this.deps;
+    if (!fetchGrouped)
+      throw new ProviderError(501, "provider has no grouped daily bars");
+    const days: (Agg & { T: string })[][] = [];
+    for (let back = 0; back < 10 && days.length < 2; back++) {
+      const date = marketDate(Date.now() - back * DAY_MS);
+      const r = await fetchGrouped(date);
+      if (!r.ok) {
+        if (r.status === 403 || r.status === 401)
+          throw new ProviderError(r.status, r.error);
+        continue;
+      }
+      if (r.bars.length) days.push(r.bars);
+    }
+    if (!days.length)
+      throw new ProviderError(404, "no grouped daily data found");
+
+    const [all, previous = []] = days;
+    const latest = [...all]
+      .sort((a, b) => b.c * b.v - a.c * a.v)
+      .slice(0, MAX_UNIVERSE);
+    const prevClose = new Map(previous.map((b) => [b.T, b.c]));
+    return this.deps.db.update((doc) => {
+      const rows: Record<string, ScreenerRow> = {};
+      for (const b of latest) {
+        const old = doc.rows[b.T];
+        const prev = prevClose.get(b.T);
+        rows[b.T] = {
+          ...(old ?? emptyRow(b.T)),
+          asOf: marketDate(b.t),
+          close: b.c,
+          volume: b.v,
+          changePct: prev ? (b.c / prev - 1) * 100 : null,
+          // keep the 52-week position in step with the new close
+          pos52:
+            old?.high52 != null && old.low52 != null && old.high52 > old.low52
+              ? ((b.c - old.low52) / (old.high52 - old.low52)) * 100
+              : null,
+        };
+      }
+      doc.rows = rows;
+      doc.universe = {
+        source: "grouped",
+        tickers: Object.keys(rows).sort(),
+        updatedAt: nowISO(),
+      };
+      return doc.universe;
+    });
+  }
+
+  /** Refresh up to `n` of the stalest tickers; stops early on rate limits. */
+  async refreshBatch(n: number) {
+    if (this.refreshing) return 0;
+    this.refreshing = true;
+    let refreshed = 0;
+    let error: string | undefined;
+    try {
+      const { rows } = await this.deps.db.read();
+      const cutoff = new Date(Date.now() - STALE_MS).toISOString();
+      const due = Object.values(rows)
+        .filter((r) => !r.updatedAt || r.updatedAt < cutoff)
+        .sort((a, b) => (a.updatedAt ?? "").localeCompare(b.updatedAt ?? ""))
+        .slice(0, n);
+      for (const row of due) {
+        try {
+          await this.refreshTicker(row.ticker);
+          refreshed++;
+        } catch (err) {
+          error = err instanceof Error ? err.message : String(err);
+          if (err instanceof RateLimitError) break;
+        }
+      }
+    } finally {
+      this.refreshing = false;
+      this.lastRun = { at: nowISO(), refreshed, ...(error ? { error } : {}) };
+    }
+    return refreshed;
+  }
+
+  private async refreshTicker(ticker: string) {
+    const to = marketDate(Date.now());
+    const from = marketDate(Date.now() - HISTORY_DAYS * DAY_MS);
+    const { bars } = await this.deps.barStore.getRange(
+      { ticker, ...DAILY },
+      { from, to }
+    );
+    const info = await this.deps.tickerInfo(ticker).catch(() => null);
+    await this.deps.db.update((doc) => {
+      if (!doc.rows[ticker]) return; // dropped from the universe meanwhile
+      const old = doc.rows[ticker];
+      doc.rows[ticker] = {
+        ...old,
+        ...(bars.length ? rowFromBars(bars) : {}),
+        name: info?.name ?? old.name,
+        marketCap: info?.marketCap ?? old.marketCap,
+        updatedAt: nowISO(),
+      };
+    });
+  }
+
+  async status() {
+    const { universe, rows } = await this.deps.db.read();
+    const all = Object.values(rows);
+    const cutoff = new Date(Date.now() - STALE_MS).toISOString();
+    const { tickers, ...source } = universe;
+    return {
+      ...source,
+      size: tickers.length,
+      withHistory: all.filter((r) => r.updatedAt).length,
+      stale: all.filter((r) => !r.updatedAt || r.updatedAt < cutoff).length,
+      scheduled: this.timer != null,
+      refreshing: this.refreshing,
+      lastRun: this.lastRun,
+    };
+  }
+
+  /**
+   * Filter and sort stored rows. Indicator conditions are evaluated on the
+   * stored bars of rows that passed the cheaper range filters.
+   */
+  async scan(opts: {
+    filters: ScreenerFilters;
+    sort: SortField;
+    dir: "asc" | "desc";
+    limit: number;
+  }) {
+    const { rows } = await this.deps.db.read();
+    let matched = Object.values(rows).filter((r) =>
+      matchesRanges(r, opts.filters)
+    );
+    if (opts.filters.conditions?.length) {
+      const keep: ScreenerRow[] = [];
+      for (const r of matched) {
+        const bars = await this.deps.barStore.peek({
+          ticker: r.ticker,
+          ...DAILY,
+        });
+        if (matchesConditions(bars, opts.filters)) keep.push(r);
+      }
+      matched = keep;
+    }
+    const sorted = sortRows(matched, opts.sort, opts.dir);
+    return {
+      total: sorted.length,
+      rows: sorted.slice(0, opts.limit),
+    };
+  }
+}
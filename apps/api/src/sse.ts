@@ -0,0 +1,45 @@
+// apps/api/src/sse.ts
+import type { Request, Response } from "express";
+
+/**
+ * Fan-out of named Server-Sent Events to every connected browser. Clients
+ * are dropped when their request closes; a comment line every `heartbeatMs`
+ * keeps proxies from timing idle streams out.
+ */
+export class EventHub {
+  private clients = new Set<Response>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(private heartbeatMs = 25_000) {}
+
+  /** Take over `res` as an event stream until the client disconnects. */
+  subscribe(req: Request, res: Response) {
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+
+    this.clients.add(res);
+    this.heartbeat ??= setInterval(() => {
+      for (const c of this.clients) c.write(": ping\n\n");
+    }, this.heartbeatMs);
+
+    req.on("close", () => {
+      this.clients.delete(res);
+      if (!this.clients.size && this.heartbeat) {
+        clearInterval(this.heartbeat);
+        this.heartbeat = null;
+      }
+    });
+  }
+
+  publish(event: string, data: unknown) {
+    const frame = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const c of this.clients) c.write(frame);
+  }
+
+  get size() {
+    return this.clients.size;
+  }
+}
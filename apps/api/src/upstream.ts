@@ -0,0 +1,206 @@
+// apps/api/src/upstream.ts
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+/**
+ * live   — talk to Polygon / OpenAI as usual
+ * record — talk to them and save every response as a fixture file
+ * replay — never touch the network; answer from fixture files only
+ */
+export type UpstreamMode = "live" | "record" | "replay";
+
+function parseMode(v: string | undefined): UpstreamMode {
+  return v === "record" || v === "replay" ? v : "live";
+}
+
+export const UPSTREAM_MODE = parseMode(process.env.UPSTREAM_MODE);
+export const FIXTURES_DIR = path.resolve(
+  process.env.FIXTURES_DIR ?? "fixtures"
+);
+
+/** Replay mode needs no API keys; routes use this to skip their key checks. */
+export const replaying = UPSTREAM_MODE === "replay";
+
+type Fixture = {
+  recordedAt: string;
+  request: { method: string; url: string; bodyHash: string | null };
+  response: {
+    status: number;
+    statusText: string;
+    contentType: string | null;
+    body: string; // base64
+  };
+};
+
+// Credentials never reach fixture files.
+const SECRET_PARAMS = ["apiKey", "api_key", "key"];
+
+function redact(url: URL) {
+  const u = new URL(url);
+  for (const p of SECRET_PARAMS) u.searchParams.delete(p);
+  u.searchParams.sort();
+  return u;
+}
+
+function sha(s: string) {
+  return createHash("sha1").update(s).digest("hex");
+}
+
+/** fixtures/<host>/<path-slug>/<hash>.json — one directory per endpoint. */
+function endpointDir(url: URL) {
+  const slug =
+    url.pathname.replace(/^\/+|\/+$/g, "").replace(/[^A-Za-z0-9._-]+/g, "_") ||
+    "_root";
+  return path.join(FIXTURES_DIR, url.host, slug);
+}
+
+function bodyText(body: RequestInit["body"]): string | null {
+  if (body == null) return null;
+  if (typeof body === "string") return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  if (body instanceof ArrayBuffer) return Buffer.from(body).toString("utf8");
+  if (ArrayBuffer.isView(body)) {
+    return Buffer.from(body.buffer, body.byteOffset, body.byteLength).toString(
+      "utf8"
+    );
+  }
+  // streams / FormData are not used by our upstream calls
+  return null;
+}
+
+async function describe(input: string | URL | Request, init?: RequestInit) {
+  const req = input instanceof Request ? input : null;
+  const url = redact(new URL(req ? req.url : String(input)));
+  const method = (init?.method ?? req?.method ?? "GET").toUpperCase();
+  const text = init?.body != null ? bodyText(init.body) : null;
+  const bodyHash =
+    text != null ? sha(text) : req?.body ? sha(await req.clone().text()) : null;
+  const file = path.join(
+    endpointDir(url),
+    `${sha(`${method} ${url.toString()} ${bodyHash ?? ""}`)}.json`
+  );
+  return { url, method, bodyHash, file };
+}
+
+function toResponse(f: Fixture, match: "exact" | "fallback") {
+  const headers = new Headers({ "x-fixture-match": match });
+  if (f.response.contentType) {
+    headers.set("content-type", f.response.contentType);
+  }
+  return new Response(Buffer.from(f.response.body, "base64"), {
+    status: f.response.status,
+    statusText: f.response.statusText,
+    headers,
+  });
+}
+
+async function readFixture(file: string): Promise<Fixture | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as Fixture;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * When the exact request was never recorded because only its body differs
+ * (the AI payload carries a fresh `asOf`), fall back to the newest fixture
+ * for the same method and full URL. A different query (another ticker or
+ * date range) never matches: that is a missing fixture, not a near miss.
+ */
+async function newestFor(dir: string, method: string, url: URL) {
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(dir);
+  } catch {
+    return null;
+  }
+  let best: Fixture | null = null;
+  for (const f of files) {
+    if (!f.endsWith(".json")) continue;
+    const fx = await readFixture(path.join(dir, f));
+    if (!fx || fx.request.method !== method) continue;
+    if (fx.request.url !== url.toString()) continue;
+    if (!best || fx.recordedAt > best.recordedAt) best = fx;
+  }
+  return best;
+}
+
+async function writeFixture(file: string, fixture: Fixture) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(fixture, null, 2));
+  await fs.rename(tmp, file);
+}
+
+async function replay(input: string | URL | Request, init?: RequestInit) {
+  const { url, method, file } = await describe(input, init);
+  const exact = await readFixture(file);
+  if (exact) return toResponse(exact, "exact");
+
+  const fallback = await newestFor(endpointDir(url), method, url);
+  if (fallback) return toResponse(fallback, "fallback");
+
+  return new Response(
+    JSON.stringify({
+      error: `no fixture recorded for ${method} ${url.toString()}`,
+    }),
+    {
+      status: 504,
+      headers: {
+        "content-type": "application/json",
+        "x-fixture-match": "none",
+      },
+    }
+  );
+}
+
+async function record(input: string | URL | Request, init?: RequestInit) {
+  const { url, method, bodyHash, file } = await describe(input, init);
+  const r = await fetch(input, init);
+
+  const save = (body: Buffer) =>
+    writeFixture(file, {
+      recordedAt: new Date().toISOString(),
+      request: { method, url: url.toString(), bodyHash },
+      response: {
+        status: r.status,
+        statusText: r.statusText,
+        contentType: r.headers.get("content-type"),
+        body: body.toString("base64"),
+      },
+    }).catch((err) => console.error("fixture write error", err));
+
+  if (!r.body) {
+    await save(Buffer.alloc(0));
+    return r;
+  }
+
+  // Tee the body so streamed responses (SSE) reach the caller unbuffered
+  // while the copy is collected and written once the stream ends.
+  const [forCaller, forFixture] = r.body.tee();
+  void new Response(forFixture)
+    .arrayBuffer()
+    .then((buf) => save(Buffer.from(buf)))
+    .catch((err) => console.error("fixture capture error", err));
+
+  return new Response(forCaller, {
+    status: r.status,
+    statusText: r.statusText,
+    headers: r.headers,
+  });
+}
+
+/**
+ * Drop-in `fetch` for every upstream call (Polygon URLs and OpenAI, including
+ * the SDK via its `fetch` option). Behaviour follows UPSTREAM_MODE.
+ */
+export async function upstreamFetch(
+  input: string | URL | Request,
+  init?: RequestInit
+): Promise<Response> {
+  if (UPSTREAM_MODE === "replay") return replay(input, init);
+  if (UPSTREAM_MODE === "record") return record(input, init);
+  return fetch(input, init);
+}
@@ -1,27 +1,45 @@
 // apps/web/src/App.tsx
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { PriceHistoryChart } from "./components/PriceHistoryChart";
+import { BacktestPanel } from "./components/BacktestPanel";
+import { WatchlistSidebar } from "./components/WatchlistSidebar";
+import { Card } from "./components/Card";
+import { PortfolioPage } from "./components/PortfolioPage";
+import { CompareControls } from "./components/CompareControls";
+import { RiskPanel } from "./components/RiskPanel";
+import { CorrelationPage } from "./components/CorrelationPage";
+import { AlertActions, AlertsPage } from "./components/AlertsPage";
+import { ScreenerPage } from "./components/ScreenerPage";
+import { ReportActions } from "./components/ReportActions";
+import { AnalysisHistory } from "./components/AnalysisHistory";
+import { ChatDrawer } from "./components/ChatDrawer";
+import { usePersistentState } from "./lib/usePersistentState";
+import { useCompareSeries } from "./lib/useCompareSeries";
+import { useAlerts } from "./lib/useAlerts";
+import { fmt } from "./lib/format";
 import {
   getAggregates,
-  getDetailsNormalized,
-  getNewsNormalized,
+  getDetails,
+  getNews,
   getPreviousDay,
   logoUrlFor,
 } from "./services/polygon";
-import type { TickerDetails as PolyDetails } from "./services/polygon";
+import type { Agg, TickerDetails } from "./services/polygon";
 import search from "./assets/search.svg";
-import { summarizeIndicators } from "./lib/indicators";
+import { summarizeBars } from "@stock-search/shared/indicators";
+import {
+  computeRisk,
+  trailing,
+  trailingReturn,
+  type RiskMetrics,
+} from "@stock-search/shared/risk";
 import {
   buildAIPayload,
   type AIIndicators,
   type AIPayload,
 } from "./lib/aiPayload";
-import {
-  analyzeStock,
-  analyzeStockStream,
-  type AIAnalysis,
-} from "./services/ai";
+import { analyzeStockStream, type AIAnalysis } from "./services/ai";
 
 // ---- types ----
 export type TickerQuote = {
@@ -39,45 +57,44 @@ export type TickerQuote = {
   asOf: string;
 };
 
-// ---- formatters ----
-const fmt = {
-  usd: (n: number) =>
-    new Intl.NumberFormat(undefined, {
-      style: "currency",
-      currency: "USD",
-      maximumFractionDigits: 2,
-    }).format(n),
-  usdCompact: (n: number) =>
-    new Intl.NumberFormat(undefined, {
-      style: "currency",
-      currency: "USD",
-      notation: "compact",
-      maximumFractionDigits: 2,
-    }).format(n),
-  compactNum: (n: number) =>
-    new Intl.NumberFormat(undefined, {
-      notation: "compact",
-      maximumFractionDigits: 1,
-    }).format(n),
-  pct: (n: number) => `${n >= 0 ? "+" : ""}${n.toFixed(2)}%`,
-  time: (iso: string) => new Date(iso).toLocaleString(),
-};
+// beta / correlation are measured against this
+const BENCHMARK = "SPY";
 
 // ---- main SPA component ----
 export default function StockSearchApp() {
   const [ticker, setTicker] = useState("");
   const [symbol, setSymbol] = useState<string | null>(null);
   const [submitted, setSubmitted] = useState(false);
+  const [view, setView] = useState<
+    "dashboard" | "portfolio" | "screener" | "correlation" | "alerts"
+  >("dashboard");
+  const alerts = useAlerts();
   const [loading, setLoading] = useState(false);
   const [quote, setQuote] = useState<TickerQuote | null>(null);
-  const [chartData, setChartData] = useState<{ t: number; y: number }[]>([]);
-  const [details, setDetails] = useState<PolyDetails | null>(null);
+  const [bars, setBars] = useState<Agg[]>([]);
+  const [risk, setRisk] = useState<RiskMetrics | null>(null);
+  const [compareOn, setCompareOn] = useState(false);
+  const [compareSymbols, setCompareSymbols] = usePersistentState<string[]>(
+    "compare.symbols",
+    ["SPY"]
+  );
+  const peers = useMemo(
+    () => compareSymbols.filter((s) => s !== symbol),
+    [compareSymbols, symbol]
+  );
+  const compare = useCompareSeries(peers, compareOn);
+  const [details, setDetails] = useState<TickerDetails | null>(null);
   const [news, setNews] = useState<any[] | null>(null);
   const [indicators, setIndicators] = useState<AIIndicators | null>(null);
   const [aiPayload, setAiPayload] = useState<AIPayload | null>(null);
   const [aiLoading, setAiLoading] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
   const [aiResult, setAiResult] = useState<null | AIAnalysis["analysis"]>(null);
+  const [aiRunId, setAiRunId] = useState<string | null>(null);
+  /** Set while fields are still arriving, or while the server repairs them. */
+  const [aiStreaming, setAiStreaming] = useState<
+    null | "streaming" | "repairing"
+  >(null);
 
   const [yearStats, setYearStats] = useState<{
     high: number;
@@ -89,9 +106,15 @@ export default function StockSearchApp() {
   function onSubmit(e?: React.FormEvent) {
     console.log("Submit", ticker, e);
     e?.preventDefault();
-    const nextTicker = ticker.trim().toUpperCase();
+    selectSymbol(ticker);
+  }
+
+  function selectSymbol(next: string) {
+    const nextTicker = next.trim().toUpperCase();
     if (!nextTicker) return;
+    setTicker(nextTicker);
     setSubmitted(true);
+    setView("dashboard");
     setAiPayload(null);
     setSymbol(nextTicker);
   }
@@ -101,13 +124,15 @@ export default function StockSearchApp() {
     if (!sym) return;
 
     setLoading(true);
+    setAiRunId(null);
     setQuote(null);
     setDetails(null);
     setNews(null);
     setYearStats(null);
     setOneYearReturn(null);
     setAvgVolume(null);
-    setChartData([]);
+    setBars([]);
+    setRisk(null);
 
     const to = new Date();
     const from = new Date(to);
@@ -117,26 +142,34 @@ export default function StockSearchApp() {
     // Fetch aggregates first (chart + stats)
     (async () => {
       try {
-        const aggResp = await getAggregates(sym, iso(from), iso(to));
+        const [aggResp, benchResp] = await Promise.all([
+          getAggregates(sym, iso(from), iso(to)),
+          sym === BENCHMARK
+            ? null
+            : getAggregates(BENCHMARK, iso(from), iso(to)).catch(() => null),
+        ]);
         const rows: any[] = Array.isArray(aggResp)
           ? aggResp
           : (aggResp?.results ?? []);
 
-        const highs = rows.map((r) => r.h ?? r.c);
-        const lows = rows.map((r) => r.l ?? r.c);
-        if (highs.length && lows.length) {
-          setYearStats({ high: Math.max(...highs), low: Math.min(...lows) });
-        }
-
-        if (rows.length >= 2) {
-          const firstClose = rows[0].c ?? rows[0].o;
-          const lastClose = rows.at(-1).c ?? rows.at(-1).o;
-          setOneYearReturn(
-            firstClose && lastClose
-              ? ((lastClose - firstClose) / firstClose) * 100
-              : null
-          );
+        const all: Agg[] = rows.map((r) => ({
+          t: r.t ?? r.timestamp,
+          o: r.o ?? r.c,
+          h: r.h ?? r.c,
+          l: r.l ?? r.c,
+          c: r.c,
+          v: Number(r.v) || 0,
+        }));
+
+        // 52-week stats from the trailing year only (we load two years)
+        const year = trailing(all, 365);
+        if (year.length) {
+          setYearStats({
+            high: Math.max(...year.map((b) => b.h)),
+            low: Math.min(...year.map((b) => b.l)),
+          });
         }
+        setOneYearReturn(trailingReturn(all, 365));
 
         const vols = rows.map((r) => Number(r.v) || 0);
         const last90 = vols.slice(-90);
@@ -146,16 +179,26 @@ export default function StockSearchApp() {
             : null
         );
 
-        const all = rows.map((r: any) => ({ t: r.t ?? r.timestamp, y: r.c }));
-        setChartData(all);
-
-        const closes = all.map((p) => p.y);
-        setIndicators(summarizeIndicators(closes));
+        setBars(all);
+        setIndicators(summarizeBars(all));
+        // without the benchmark's bars, beta/correlation are left out
+        // rather than measured against the ticker itself
+        const benchPoints =
+          sym === BENCHMARK ? all : (benchResp?.results ?? null);
+        setRisk(
+          computeRisk(
+            all,
+            benchPoints
+              ? { benchmark: { symbol: BENCHMARK, points: benchPoints } }
+              : {}
+          )
+        );
       } catch {
         setYearStats(null);
         setOneYearReturn(null);
         setAvgVolume(null);
-        setChartData([]);
+        setBars([]);
+        setRisk(null);
       }
     })();
 
@@ -163,8 +206,8 @@ export default function StockSearchApp() {
     (async () => {
       try {
         const [detailsRes, newsRes, prevRes] = await Promise.allSettled([
-          getDetailsNormalized(sym),
-          getNewsNormalized(sym),
+          getDetails(sym),
+          getNews(sym),
           getPreviousDay(sym),
         ]);
 
@@ -172,9 +215,7 @@ export default function StockSearchApp() {
         if (newsRes.status === "fulfilled") setNews(newsRes.value);
 
         if (prevRes.status === "fulfilled") {
-          const bar = Array.isArray(prevRes.value?.results)
-            ? prevRes.value.results[0]
-            : undefined;
+          const { bar } = prevRes.value;
           if (bar) {
             setQuote({
               symbol: sym,
@@ -199,7 +240,7 @@ export default function StockSearchApp() {
   }, [symbol]);
 
   useEffect(() => {
-    if (!symbol || !chartData.length || !quote || !indicators) {
+    if (!symbol || !bars.length || !quote || !indicators) {
       setAiPayload(null);
       return;
     }
@@ -223,19 +264,21 @@ export default function StockSearchApp() {
         oneYearReturn,
         avgVolume,
         indicators,
-        chartData,
+        risk,
+        chartData: bars.map((b) => ({ t: b.t, y: b.c })),
         news: news ?? [],
       })
     );
   }, [
     symbol,
-    chartData,
+    bars,
     quote,
     details,
     yearStats,
     oneYearReturn,
     avgVolume,
     indicators,
+    risk,
     news,
   ]);
 
@@ -251,27 +294,52 @@ export default function StockSearchApp() {
       return;
 
     let cancelled = false;
+    const controller = new AbortController();
     (async () => {
       setAiLoading(true);
       setAiError(null);
       setAiResult(null);
-      const res = await analyzeStock(aiPayload);
+      setAiRunId(null);
+      setAiStreaming("streaming");
+      const res = await analyzeStockStream(
+        aiPayload,
+        {
+          // fields show as they complete; the panel tolerates missing ones
+          onPartial: (partial) => {
+            if (cancelled) return;
+            setAiResult(partial as AIAnalysis["analysis"]);
+            setAiLoading(false);
+          },
+          onRepair: () => !cancelled && setAiStreaming("repairing"),
+        },
+        undefined,
+        controller.signal
+      );
       if (cancelled) return;
+      setAiStreaming(null);
 
       if (!res.ok) {
-        setAiError(res.error || "AI analysis failed");
+        setAiError(
+          res.code === "invalid_output" && res.details?.length
+            ? `${res.error}: ${res.details.slice(0, 3).join("; ")}`
+            : res.error || "AI analysis failed"
+        );
+        setAiResult(null);
         setAiLoading(false);
         return;
       }
 
       setAiResult(res.analysis ?? null);
+      setAiRunId(res.runId ?? null);
       console.log("AI result", res.analysis);
       setAiLoading(false);
     })();
 
-    // if user searches a new symbol mid-flight, ignore late result
+    // if user searches a new symbol mid-flight, drop the stream
     return () => {
       cancelled = true;
+      controller.abort();
+      setAiStreaming(null);
     };
   }, [symbol, aiPayload]);
 
@@ -295,12 +363,43 @@ export default function StockSearchApp() {
             className="fixed top-0 left-0 right-0 z-50 h-16 bg-white/70 backdrop-blur supports-[backdrop-filter]:bg-white/60"
           >
             <div className="h-full flex items-center justify-between px-4 md:px-6 pointer-events-auto">
-              <motion.h1
-                layoutId="title"
-                className="text-lg md:text-xl font-semibold tracking-tight text-gray-900"
-              >
-                stock.ai
-              </motion.h1>
+              <div className="flex items-center gap-4">
+                <motion.h1
+                  layoutId="title"
+                  className="text-lg md:text-xl font-semibold tracking-tight text-gray-900"
+                >
+                  stock.ai
+                </motion.h1>
+                <nav className="flex gap-1 text-sm">
+                  {(
+                    [
+                      "dashboard",
+                      "portfolio",
+                      "screener",
+                      "correlation",
+                      "alerts",
+                    ] as const
+                  ).map((v) => (
+                    <button
+                      key={v}
+                      onClick={() => setView(v)}
+                      className={
+                        "rounded-lg px-2.5 py-1 capitalize transition " +
+                        (view === v
+                          ? "bg-gray-900 text-white"
+                          : "text-gray-600 hover:bg-gray-100")
+                      }
+                    >
+                      {v}
+                      {v === "alerts" && alerts.active > 0 && (
+                        <span className="ml-1.5 rounded-full bg-rose-600 px-1.5 text-xs text-white">
+                          {alerts.active}
+                        </span>
+                      )}
+                    </button>
+                  ))}
+                </nav>
+              </div>
 
               <motion.form
                 layoutId="search"
@@ -342,7 +441,16 @@ export default function StockSearchApp() {
                     stock.ai
                   </motion.h1>
                   <p className="mt-3 text-sm md:text-base text-gray-500">
-                    Your AI stock assistant
+                    Your AI stock assistant ·{" "}
+                    <button
+                      className="underline underline-offset-2 hover:text-gray-900"
+                      onClick={() => {
+                        setSubmitted(true);
+                        setView("portfolio");
+                      }}
+                    >
+                      Portfolio
+                    </button>
                   </p>
 
                   <motion.form
@@ -364,6 +472,13 @@ export default function StockSearchApp() {
         </div>
       </div>
 
+      {/* watchlists (wide screens) */}
+      {submitted && (
+        <aside className="fixed left-0 top-16 bottom-0 z-40 hidden w-72 border-r border-gray-200 bg-white/70 p-4 backdrop-blur xl:block">
+          <WatchlistSidebar activeSymbol={symbol} onSelect={selectSymbol} />
+        </aside>
+      )}
+
       {/* dashboard */}
       <AnimatePresence>
         {submitted && (
@@ -373,9 +488,41 @@ export default function StockSearchApp() {
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: 16 }}
             transition={{ duration: 0.4 }}
-            className="relative z-0 pt-30 pb-24"
+            className="relative z-0 pt-30 pb-24 xl:pl-72"
           >
-            <div className="mx-auto max-w-6xl px-4 md:px-6 grid gap-6 md:gap-8 md:grid-cols-3">
+            {view === "portfolio" && (
+              <div className="mx-auto max-w-6xl px-4 md:px-6">
+                <PortfolioPage onSelect={selectSymbol} />
+              </div>
+            )}
+            {view === "screener" && (
+              <div className="mx-auto max-w-6xl px-4 md:px-6">
+                <ScreenerPage onSelect={selectSymbol} />
+              </div>
+            )}
+            {view === "correlation" && (
+              <div className="mx-auto max-w-6xl px-4 md:px-6">
+                <CorrelationPage />
+              </div>
+            )}
+            {view === "alerts" && (
+              <div className="mx-auto max-w-6xl px-4 md:px-6">
+                <AlertsPage
+                  symbol={symbol ?? ""}
+                  events={alerts.events}
+                  onAcknowledge={alerts.acknowledge}
+                  onSnooze={alerts.snooze}
+                  onSelect={selectSymbol}
+                />
+              </div>
+            )}
+            <div
+              className={
+                view !== "dashboard"
+                  ? "hidden"
+                  : "mx-auto max-w-6xl px-4 md:px-6 grid gap-6 md:gap-8 md:grid-cols-3"
+              }
+            >
               {/* ============== AI ANALYSIS — EMPHASIZED ============== */}
               <section className="md:col-span-3 relative rounded-2xl p-[1px]">
                 {/* gradient accent frame */}
@@ -436,6 +583,28 @@ export default function StockSearchApp() {
                             AI Analysis
                           </h3>
 
+                          <span className="flex-1" />
+                          {aiStreaming &&
+                            !aiLoading &&
+                            !aiError &&
+                            aiResult && (
+                              <span className="text-xs text-slate-500 animate-pulse">
+                                {aiStreaming === "repairing"
+                                  ? "Fixing invalid output…"
+                                  : "Streaming…"}
+                              </span>
+                            )}
+                          {!aiLoading &&
+                            !aiStreaming &&
+                            !aiError &&
+                            aiResult &&
+                            aiPayload && (
+                              <ReportActions
+                                payload={aiPayload}
+                                analysis={aiResult}
+                              />
+                            )}
+
                           {/* stance pill */}
                           {!aiLoading && !aiError && aiResult && (
                             <span
@@ -852,6 +1021,27 @@ export default function StockSearchApp() {
                 </div>
               </section>
 
+              {symbol && (
+                <section className="md:col-span-3">
+                  <Card variant="outlined">
+                    <ChatDrawer
+                      ticker={symbol}
+                      payload={aiPayload}
+                      analysis={aiStreaming ? null : (aiResult ?? null)}
+                      runId={aiRunId}
+                    />
+                  </Card>
+                </section>
+              )}
+
+              {symbol && (
+                <section className="md:col-span-3">
+                  <Card variant="outlined">
+                    <AnalysisHistory ticker={symbol} refreshKey={aiRunId} />
+                  </Card>
+                </section>
+              )}
+
               {/* LEFT */}
               <section className="md:col-span-2 grid gap-6">
                 {/* Price card */}
@@ -906,9 +1096,21 @@ export default function StockSearchApp() {
                   </div>
 
                   {/* Chart */}
-                  <div className="mb-15 mt-3">
-                    {chartData.length ? (
-                      <PriceHistoryChart data={chartData} />
+                  <div className="mb-4 mt-3">
+                    <CompareControls
+                      enabled={compareOn}
+                      onToggle={setCompareOn}
+                      symbols={compareSymbols}
+                      onChange={setCompareSymbols}
+                      errors={compare.errors}
+                      loading={compare.loading}
+                    />
+                    {bars.length ? (
+                      <PriceHistoryChart
+                        data={bars}
+                        symbol={symbol ?? undefined}
+                        compare={compare.series}
+                      />
                     ) : (
                       <div className="h-48 grid place-items-center text-sm text-gray-500">
                         No price data
@@ -977,6 +1179,18 @@ export default function StockSearchApp() {
                     />
                   </div>
                 </Card>
+
+                {/* Risk */}
+                <Card>
+                  <RiskPanel risk={risk} />
+                </Card>
+
+                {/* Backtest */}
+                {symbol && (
+                  <Card>
+                    <BacktestPanel key={symbol} symbol={symbol} />
+                  </Card>
+                )}
               </section>
 
               {/* RIGHT */}
@@ -1077,6 +1291,42 @@ export default function StockSearchApp() {
           </motion.main>
         )}
       </AnimatePresence>
+
+      {/* live alert toast */}
+      <AnimatePresence>
+        {alerts.latest && (
+          <motion.div
+            key={alerts.latest.id}
+            initial={{ opacity: 0, y: 16 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 16 }}
+            className="fixed bottom-6 right-6 z-50 w-80 rounded-xl border border-rose-200 bg-white p-4 shadow-lg"
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="text-sm">
+                <div className="font-medium text-gray-900">
+                  Alert · {alerts.latest.ticker}
+                </div>
+                <div className="text-gray-700">{alerts.latest.message}</div>
+              </div>
+              <button
+                className="text-gray-400 hover:text-gray-900"
+                onClick={alerts.dismissLatest}
+                aria-label="Dismiss"
+              >
+                ×
+              </button>
+            </div>
+            <div className="mt-2">
+              <AlertActions
+                event={alerts.latest}
+                onAcknowledge={alerts.acknowledge}
+                onSnooze={alerts.snooze}
+              />
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 }
@@ -1142,23 +1392,6 @@ function SubmitButton({ loading }: { loading: boolean }) {
   );
 }
 
-function Card({
-  children,
-  variant = "filled",
-  className = "",
-}: {
-  children: React.ReactNode;
-  variant?: "filled" | "outlined";
-  className?: string;
-}) {
-  const base = "rounded-2xl p-4 md:p-6";
-  const style =
-    variant === "outlined"
-      ? "border border-gray-200 bg-white/60"
-      : "bg-white ring-1 ring-gray-200 shadow-xl shadow-black/5";
-  return <div className={`${base} ${style} ${className}`}>{children}</div>;
-}
-
 function Stat({ label, value }: { label: string; value: React.ReactNode }) {
   return (
     <div className="flex items-center gap-3">
@@ -0,0 +1,432 @@
+import { useCallback, useEffect, useState } from "react";
+import type {
+  Comparator,
+  Condition,
+  Operand,
+} from "@stock-search/shared/rules";
+import { describeRule } from "@stock-search/shared/alerts";
+import { Card } from "./Card";
+import { fmt } from "../lib/format";
+import {
+  createAlertRule,
+  deleteAlertRule,
+  listAlertRules,
+  updateAlertRule,
+  type AlertEvent,
+  type AlertRule,
+} from "../services/alerts";
+
+/** Operand picker entry; `param` is the period / value the user types. */
+type OperandDef = {
+  label: string;
+  param?: number;
+  make: (n: number) => Operand;
+};
+
+const OPERANDS = {
+  close: { label: "Close", make: (): Operand => ({ kind: "price" }) },
+  volume: { label: "Volume", make: (): Operand => ({ kind: "volume" }) },
+  sma: {
+    label: "SMA",
+    param: 200,
+    make: (n: number): Operand => ({ kind: "sma", period: n }),
+  },
+  ema: {
+    label: "EMA",
+    param: 50,
+    make: (n: number): Operand => ({ kind: "ema", period: n }),
+  },
+  rsi: {
+    label: "RSI",
+    param: 14,
+    make: (n: number): Operand => ({ kind: "rsi", period: n }),
+  },
+  macd: {
+    label: "MACD line",
+    make: (): Operand => ({ kind: "macd", part: "line" }),
+  },
+  macdSignal: {
+    label: "MACD signal",
+    make: (): Operand => ({ kind: "macd", part: "signal" }),
+  },
+  value: {
+    label: "Value",
+    param: 0,
+    make: (n: number): Operand => ({ kind: "const", value: n }),
+  },
+} satisfies Record<string, OperandDef>;
+type OperandKey = keyof typeof OPERANDS;
+
+const COMPARATORS: { op: Comparator; label: string }[] = [
+  { op: ">", label: ">" },
+  { op: "<", label: "<" },
+  { op: ">=", label: "≥" },
+  { op: "<=", label: "≤" },
+  { op: "crossesAbove", label: "crosses above" },
+  { op: "crossesBelow", label: "crosses below" },
+];
+
+const SNOOZE_OPTIONS = [
+  { minutes: 60, label: "1h" },
+  { minutes: 24 * 60, label: "1d" },
+  { minutes: 7 * 24 * 60, label: "1w" },
+];
+
+type Side = { key: OperandKey; param: number };
+type Draft = { left: Side; op: Comparator; right: Side };
+
+const side = (key: OperandKey): Side => {
+  const o: OperandDef = OPERANDS[key];
+  return { key, param: o.param ?? 0 };
+};
+const newDraft = (): Draft => ({
+  left: side("close"),
+  op: ">",
+  right: side("value"),
+});
+const toCondition = (d: Draft): Condition => ({
+  left: OPERANDS[d.left.key].make(d.left.param),
+  op: d.op,
+  right: OPERANDS[d.right.key].make(d.right.param),
+});
+
+const input =
+  "rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm tabular-nums";
+
+function OperandInput({
+  value,
+  onChange,
+}: {
+  value: Side;
+  onChange: (s: Side) => void;
+}) {
+  return (
+    <span className="inline-flex gap-1">
+      <select
+        className={input}
+        value={value.key}
+        onChange={(e) => onChange(side(e.target.value as OperandKey))}
+      >
+        {Object.entries(OPERANDS).map(([k, o]) => (
+          <option key={k} value={k}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+      {(OPERANDS[value.key] as OperandDef).param != null && (
+        <input
+          className={input + " w-20"}
+          type="number"
+          step="any"
+          value={value.param}
+          onChange={(e) =>
+            onChange({ ...value, param: Number(e.target.value) })
+          }
+        />
+      )}
+    </span>
+  );
+}
+
+function RuleForm({
+  defaultTicker,
+  onCreated,
+}: {
+  defaultTicker: string;
+  onCreated: () => void;
+}) {
+  const [ticker, setTicker] = useState(defaultTicker);
+  const [name, setName] = useState("");
+  const [mode, setMode] = useState<"all" | "any">("all");
+  const [drafts, setDrafts] = useState<Draft[]>([newDraft()]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const setDraft = (i: number, d: Draft) =>
+    setDrafts((list) => list.map((x, j) => (j === i ? d : x)));
+
+  return (
+    <form
+      className="space-y-3 text-sm"
+      onSubmit={async (e) => {
+        e.preventDefault();
+        setBusy(true);
+        setError(null);
+        try {
+          await createAlertRule({
+            ticker: ticker.trim().toUpperCase(),
+            name: name.trim() || undefined,
+            conditions: drafts.map(toCondition),
+            mode,
+          });
+          setName("");
+          setDrafts([newDraft()]);
+          onCreated();
+        } catch (err) {
+          setError(err instanceof Error ? err.message : "Failed to save");
+        } finally {
+          setBusy(false);
+        }
+      }}
+    >
+      <div className="flex flex-wrap gap-2">
+        <input
+          className={input + " w-28 uppercase"}
+          placeholder="Ticker"
+          value={ticker}
+          onChange={(e) => setTicker(e.target.value.toUpperCase())}
+          required
+        />
+        <input
+          className={input + " grow"}
+          placeholder="Name (optional)"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        {drafts.length > 1 && (
+          <select
+            className={input}
+            value={mode}
+            onChange={(e) => setMode(e.target.value as "all" | "any")}
+          >
+            <option value="all">All conditions</option>
+            <option value="any">Any condition</option>
+          </select>
+        )}
+      </div>
+      {drafts.map((d, i) => (
+        <div key={i} className="flex flex-wrap items-center gap-2">
+          <OperandInput
+            value={d.left}
+            onChange={(left) => setDraft(i, { ...d, left })}
+          />
+          <select
+            className={input}
+            value={d.op}
+            onChange={(e) =>
+              setDraft(i, { ...d, op: e.target.value as Comparator })
+            }
+          >
+            {COMPARATORS.map((c) => (
+              <option key={c.op} value={c.op}>
+                {c.label}
+              </option>
+            ))}
+          </select>
+          <OperandInput
+            value={d.right}
+            onChange={(right) => setDraft(i, { ...d, right })}
+          />
+          {drafts.length > 1 && (
+            <button
+              type="button"
+              className="text-xs text-gray-400 hover:text-rose-700"
+              onClick={() =>
+                setDrafts((list) => list.filter((_, j) => j !== i))
+              }
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      ))}
+      {error && <div className="text-rose-700">{error}</div>}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100"
+          onClick={() => setDrafts((list) => [...list, newDraft()])}
+        >
+          + Condition
+        </button>
+        <button
+          type="submit"
+          disabled={busy}
+          className="rounded-lg bg-gray-900 px-3 py-1.5 text-sm text-white disabled:opacity-50"
+        >
+          Create alert
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/** Ack / snooze buttons for one fired alert (also used by the toast). */
+export function AlertActions({
+  event,
+  onAcknowledge,
+  onSnooze,
+}: {
+  event: AlertEvent;
+  onAcknowledge: (id: string) => void;
+  onSnooze: (id: string, minutes: number) => void;
+}) {
+  if (event.status === "acknowledged") return null;
+  const btn =
+    "rounded-md border border-gray-300 px-1.5 py-0.5 text-xs text-gray-700 hover:bg-gray-100";
+  return (
+    <span className="inline-flex items-center gap-1">
+      <button className={btn} onClick={() => onAcknowledge(event.id)}>
+        Ack
+      </button>
+      <span className="ml-1 text-xs text-gray-400">Snooze</span>
+      {SNOOZE_OPTIONS.map((o) => (
+        <button
+          key={o.minutes}
+          className={btn}
+          title={`Snooze ${o.label}`}
+          onClick={() => onSnooze(event.id, o.minutes)}
+        >
+          {o.label}
+        </button>
+      ))}
+    </span>
+  );
+}
+
+const STATUS_STYLE: Record<AlertEvent["status"], string> = {
+  active: "text-rose-700",
+  snoozed: "text-amber-700",
+  acknowledged: "text-gray-400",
+};
+
+/**
+ * Alert rules evaluated by the API on a schedule, and the alerts they fired.
+ * Fired alerts arrive live over SSE (see `useAlerts`).
+ */
+export function AlertsPage({
+  symbol,
+  events,
+  onAcknowledge,
+  onSnooze,
+  onSelect,
+}: {
+  symbol: string;
+  events: AlertEvent[];
+  onAcknowledge: (id: string) => void;
+  onSnooze: (id: string, minutes: number) => void;
+  onSelect: (symbol: string) => void;
+}) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRules(await listAlertRules());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load rules");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const act = (fn: () => Promise<unknown>) => async () => {
+    try {
+      await fn();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    }
+  };
+
+  return (
+    <div className="grid gap-6 md:gap-8">
+      <Card>
+        <h2 className="text-lg font-semibold text-gray-900">Alerts</h2>
+        <p className="mt-1 mb-4 text-xs text-gray-500">
+          Evaluated by the server on daily bars. A rule fires when its
+          conditions become true and re-arms once they stop holding.
+        </p>
+        <RuleForm defaultTicker={symbol} onCreated={refresh} />
+      </Card>
+
+      <div className="grid gap-6 md:gap-8 md:grid-cols-2">
+        <Card>
+          <h3 className="mb-3 text-sm font-medium text-gray-900">Rules</h3>
+          {error && <div className="mb-2 text-sm text-rose-700">{error}</div>}
+          {!rules.length && (
+            <div className="text-sm text-gray-500">No rules yet.</div>
+          )}
+          <ul className="divide-y divide-gray-100 text-sm">
+            {rules.map((r) => (
+              <li key={r.id} className="flex items-center gap-2 py-2">
+                <div className="min-w-0 grow">
+                  <div
+                    className={
+                      "truncate " +
+                      (r.enabled ? "text-gray-900" : "text-gray-400")
+                    }
+                  >
+                    {r.name || describeRule(r)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {r.name && describeRule(r) + " · "}
+                    {r.lastCheckedAt
+                      ? `checked ${fmt.time(r.lastCheckedAt)}`
+                      : "not checked yet"}
+                    {!r.armed && " · fired, waiting to re-arm"}
+                  </div>
+                </div>
+                <button
+                  className="text-xs text-gray-500 hover:text-gray-900"
+                  onClick={act(() =>
+                    updateAlertRule(r.id, { enabled: !r.enabled })
+                  )}
+                >
+                  {r.enabled ? "Pause" : "Resume"}
+                </button>
+                <button
+                  className="text-xs text-gray-400 hover:text-rose-700"
+                  onClick={act(() => deleteAlertRule(r.id))}
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        </Card>
+
+        <Card>
+          <h3 className="mb-3 text-sm font-medium text-gray-900">Fired</h3>
+          {!events.length && (
+            <div className="text-sm text-gray-500">Nothing has fired yet.</div>
+          )}
+          <ul className="divide-y divide-gray-100 text-sm">
+            {events.map((e) => (
+              <li key={e.id} className="py-2">
+                <div className="flex items-center gap-2">
+                  <button
+                    className="font-medium text-gray-900 hover:underline"
+                    onClick={() => onSelect(e.ticker)}
+                  >
+                    {e.ticker}
+                  </button>
+                  <span className="truncate grow text-gray-700">
+                    {e.message}
+                  </span>
+                  <span className={"text-xs " + STATUS_STYLE[e.status]}>
+                    {e.status === "snoozed" && e.snoozedUntil
+                      ? `until ${fmt.time(e.snoozedUntil)}`
+                      : e.status}
+                  </span>
+                </div>
+                <div className="mt-1 flex items-center justify-between text-xs text-gray-500">
+                  <span>
+                    {fmt.time(e.firedAt)} · close {fmt.usd(e.close)}
+                  </span>
+                  <AlertActions
+                    event={e}
+                    onAcknowledge={onAcknowledge}
+                    onSnooze={onSnooze}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+import { useEffect, useState, type ReactNode } from "react";
+import type {
+  AnalysisDiff,
+  AnalysisRunSummary,
+  ListChange,
+} from "@stock-search/shared/ai";
+import { deleteRun, diffRuns, listRuns } from "../services/history";
+import { usePersistentState } from "../lib/usePersistentState";
+import { fmt } from "../lib/format";
+
+const STANCE_STYLE: Record<string, string> = {
+  bullish: "text-emerald-700",
+  bearish: "text-rose-700",
+};
+
+const confidence = (n: number | null) =>
+  n != null ? `${Math.round(n * 100)}%` : "—";
+
+function Delta({ value, suffix = "" }: { value: number; suffix?: string }) {
+  if (Math.abs(value) < 1e-9) return null;
+  return (
+    <span
+      className={`ml-1 text-xs ${value > 0 ? "text-emerald-600" : "text-rose-600"}`}
+    >
+      {value > 0 ? "▲" : "▼"}
+      {Math.abs(value).toFixed(0)}
+      {suffix}
+    </span>
+  );
+}
+
+/** Levels, with the ones new since the previous run highlighted. */
+function Levels({ list, prev }: { list: string[]; prev?: string[] }) {
+  if (!list.length) return <>—</>;
+  const before = new Set(prev?.map((s) => s.toLowerCase()));
+  return (
+    <>
+      {list.map((s, i) => (
+        <span
+          key={i}
+          className={
+            prev && !before.has(s.toLowerCase())
+              ? "font-medium text-indigo-700"
+              : undefined
+          }
+        >
+          {i > 0 && ", "}
+          {s}
+        </span>
+      ))}
+    </>
+  );
+}
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="grid grid-cols-[8rem_1fr] gap-2 py-1 border-b border-slate-100 last:border-0">
+      <div className="text-xs text-slate-500">{label}</div>
+      <div className="text-sm text-slate-800">{children}</div>
+    </div>
+  );
+}
+
+function ListDiff({ change }: { change: ListChange }) {
+  if (!change.added.length && !change.removed.length)
+    return <span className="text-slate-400">unchanged</span>;
+  return (
+    <span className="flex flex-wrap gap-1">
+      {change.removed.map((s, i) => (
+        <span
+          key={`r${i}`}
+          className="rounded bg-rose-50 px-1.5 text-rose-700 line-through"
+        >
+          {s}
+        </span>
+      ))}
+      {change.added.map((s, i) => (
+        <span
+          key={`a${i}`}
+          className="rounded bg-emerald-50 px-1.5 text-emerald-700"
+        >
+          {s}
+        </span>
+      ))}
+      {change.kept.map((s, i) => (
+        <span
+          key={`k${i}`}
+          className="rounded bg-slate-100 px-1.5 text-slate-600"
+        >
+          {s}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+const arrow = (from: ReactNode, to: ReactNode) => (
+  <>
+    <span className="text-slate-500">{from}</span> → <span>{to}</span>
+  </>
+);
+
+function DiffView({ diff }: { diff: AnalysisDiff }) {
+  const same = <span className="text-slate-400">unchanged</span>;
+  return (
+    <div className="mt-4 rounded-lg border border-slate-200 bg-white p-3">
+      <div className="mb-2 text-sm font-medium text-slate-900">
+        {fmt.time(diff.from.createdAt)} → {fmt.time(diff.to.createdAt)}
+      </div>
+      <Row label="Price">
+        {arrow(
+          diff.price.from != null ? fmt.usd(diff.price.from) : "—",
+          diff.price.to != null ? fmt.usd(diff.price.to) : "—"
+        )}
+        {diff.price.changePct != null && (
+          <span className="ml-2 text-xs text-slate-500">
+            {fmt.pct(diff.price.changePct)}
+          </span>
+        )}
+      </Row>
+      <Row label="Stance">
+        {diff.stance ? arrow(diff.stance.from, diff.stance.to) : same}
+      </Row>
+      <Row label="Confidence">
+        {diff.confidence ? (
+          <>
+            {arrow(
+              confidence(diff.confidence.from),
+              confidence(diff.confidence.to)
+            )}
+            {diff.confidence.delta != null && (
+              <Delta value={diff.confidence.delta * 100} suffix=" pts" />
+            )}
+          </>
+        ) : (
+          same
+        )}
+      </Row>
+      <Row label="Horizon">
+        {diff.horizon
+          ? arrow(diff.horizon.from ?? "—", diff.horizon.to ?? "—")
+          : same}
+      </Row>
+      <Row label="Scenarios">
+        {diff.scenarios.length
+          ? diff.scenarios.map((s) => (
+              <div key={s.case}>
+                <span className="capitalize">{s.case}</span>:{" "}
+                {s.target && arrow(s.target.from ?? "—", s.target.to ?? "—")}
+                {s.prob && (
+                  <span className="ml-2 text-xs text-slate-500">
+                    prob {confidence(s.prob.from)} → {confidence(s.prob.to)}
+                  </span>
+                )}
+              </div>
+            ))
+          : same}
+      </Row>
+      <Row label="Supports">
+        <ListDiff change={diff.supports} />
+      </Row>
+      <Row label="Resistances">
+        <ListDiff change={diff.resistances} />
+      </Row>
+      <Row label="Signals">
+        {diff.signals.length
+          ? diff.signals.map((s) => (
+              <div key={s.name}>
+                {s.name}: {arrow(s.from ?? "—", s.to ?? "—")}
+              </div>
+            ))
+          : same}
+      </Row>
+      <Row label="Risks">
+        <ListDiff change={diff.risks} />
+      </Row>
+      <Row label="Actions">
+        <ListDiff change={diff.actions} />
+      </Row>
+      {(diff.model || diff.promptVersion) && (
+        <Row label="Setup">
+          {diff.model && (
+            <div>model {arrow(diff.model.from, diff.model.to)}</div>
+          )}
+          {diff.promptVersion && (
+            <div>
+              prompt {arrow(diff.promptVersion.from, diff.promptVersion.to)}
+            </div>
+          )}
+        </Row>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Stored analysis runs for a ticker, newest first, with changes against the
+ * previous run inline and a full diff of any two selected runs.
+ * `refreshKey` changes whenever a new run has been saved.
+ */
+export function AnalysisHistory({
+  ticker,
+  refreshKey,
+}: {
+  ticker: string;
+  refreshKey?: string | null;
+}) {
+  const [open, setOpen] = usePersistentState("aiHistory.open", false);
+  const [runs, setRuns] = useState<AnalysisRunSummary[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [diff, setDiff] = useState<AnalysisDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setSelected([]);
+    setDiff(null);
+    listRuns(ticker)
+      .then((r) => {
+        if (cancelled) return;
+        setRuns(r);
+        setError(null);
+      })
+      .catch((e: Error) => !cancelled && setError(e.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [ticker, refreshKey, open]);
+
+  const toggle = (id: string) => {
+    setDiff(null);
+    setSelected((s) =>
+      s.includes(id) ? s.filter((x) => x !== id) : [...s, id].slice(-2)
+    );
+  };
+
+  const compare = async () => {
+    try {
+      setDiff(await diffRuns(ticker, selected[0], selected[1]));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await deleteRun(ticker, id);
+      setRuns((r) => r.filter((x) => x.id !== id));
+      setSelected((s) => s.filter((x) => x !== id));
+      setDiff(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const btn =
+    "rounded-md border border-slate-300 px-2 py-0.5 text-xs text-slate-700 hover:bg-slate-100 disabled:opacity-50";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3">
+        <button
+          className="text-sm font-semibold text-slate-900"
+          onClick={() => setOpen(!open)}
+        >
+          {open ? "▾" : "▸"} Analysis history
+        </button>
+        {open && runs.length > 1 && (
+          <span className="flex items-center gap-2 text-xs text-slate-500">
+            Select two runs
+            <button
+              className={btn}
+              disabled={selected.length !== 2}
+              onClick={compare}
+            >
+              Compare
+            </button>
+          </span>
+        )}
+      </div>
+
+      {open && error && (
+        <div className="mt-2 text-sm text-rose-600">{error}</div>
+      )}
+      {open && !error && !runs.length && (
+        <div className="mt-2 text-sm text-slate-400">
+          No stored runs for {ticker} yet.
+        </div>
+      )}
+
+      {open && runs.length > 0 && (
+        <div className="mt-3 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-slate-500">
+              <tr className="text-left">
+                <th className="py-1 pr-2" />
+                <th className="pr-3">When</th>
+                <th className="pr-3">Price</th>
+                <th className="pr-3">Stance</th>
+                <th className="pr-3">Confidence</th>
+                <th className="pr-3">Base target</th>
+                <th className="pr-3">Supports</th>
+                <th className="pr-3">Resistances</th>
+                <th className="pr-3">Model / prompt</th>
+                <th className="pr-3 text-right">Latency</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody className="text-slate-800">
+              {runs.map((r, i) => {
+                const prev = runs[i + 1];
+                return (
+                  <tr key={r.id} className="border-t border-slate-100">
+                    <td className="py-1 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(r.id)}
+                        onChange={() => toggle(r.id)}
+                      />
+                    </td>
+                    <td className="pr-3 whitespace-nowrap">
+                      {fmt.time(r.createdAt)}
+                    </td>
+                    <td className="pr-3 tabular-nums">
+                      {r.price != null ? fmt.usd(r.price) : "—"}
+                    </td>
+                    <td
+                      className={`pr-3 capitalize ${STANCE_STYLE[r.stance] ?? "text-slate-700"}`}
+                    >
+                      {r.stance}
+                      {prev && prev.stance !== r.stance && (
+                        <span className="ml-1 text-xs text-slate-400 normal-case">
+                          (was {prev.stance})
+                        </span>
+                      )}
+                    </td>
+                    <td className="pr-3 tabular-nums">
+                      {confidence(r.confidence)}
+                      {prev?.confidence != null && r.confidence != null && (
+                        <Delta value={(r.confidence - prev.confidence) * 100} />
+                      )}
+                    </td>
+                    <td className="pr-3">
+                      {r.targets.base ?? "—"}
+                      {prev && prev.targets.base !== r.targets.base && (
+                        <span className="ml-1 text-xs text-slate-400">
+                          (was {prev.targets.base ?? "—"})
+                        </span>
+                      )}
+                    </td>
+                    <td className="pr-3">
+                      <Levels list={r.supports} prev={prev?.supports} />
+                    </td>
+                    <td className="pr-3">
+                      <Levels list={r.resistances} prev={prev?.resistances} />
+                    </td>
+                    <td className="pr-3 text-xs text-slate-500">
+                      {r.model} · {r.promptVersion}
+                    </td>
+                    <td className="pr-3 text-right tabular-nums text-xs text-slate-500">
+                      {(r.latencyMs / 1000).toFixed(1)}s
+                    </td>
+                    <td>
+                      <button
+                        className="text-xs text-slate-400 hover:text-rose-600"
+                        title="Delete this run"
+                        onClick={() => remove(r.id)}
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {open && diff && <DiffView diff={diff} />}
+    </div>
+  );
+}
@@ -0,0 +1,426 @@
+import { useState, type ReactNode } from "react";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  Legend,
+} from "recharts";
+import {
+  STRATEGY_PRESETS,
+  type Strategy,
+  type StrategyPreset,
+} from "@stock-search/shared/backtest";
+import { describeCondition } from "@stock-search/shared/rules";
+import { runBacktest, type BacktestResponse } from "../services/backtest";
+import { fmt } from "../lib/format";
+
+type Ok = Extract<BacktestResponse, { ok: true }>;
+
+const fmtDate = (ts: number) =>
+  new Date(ts).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "2-digit",
+  });
+
+// preset → UI label and its numeric parameters with defaults
+const PRESET_PARAMS: Record<
+  StrategyPreset,
+  { label: string; params: [string, number][] }
+> = {
+  smaCross: {
+    label: "SMA crossover",
+    params: [
+      ["Fast", 50],
+      ["Slow", 200],
+    ],
+  },
+  emaCross: {
+    label: "EMA crossover",
+    params: [
+      ["Fast", 20],
+      ["Slow", 50],
+    ],
+  },
+  rsiReversion: {
+    label: "RSI mean reversion",
+    params: [
+      ["Oversold", 30],
+      ["Overbought", 70],
+    ],
+  },
+  macdCross: { label: "MACD signal cross", params: [] },
+};
+
+function buildStrategy(preset: StrategyPreset, p: number[]): Strategy {
+  switch (preset) {
+    case "smaCross":
+      return STRATEGY_PRESETS.smaCross(p[0], p[1]);
+    case "emaCross":
+      return STRATEGY_PRESETS.emaCross(p[0], p[1]);
+    case "rsiReversion":
+      return STRATEGY_PRESETS.rsiReversion(p[0], p[1]);
+    case "macdCross":
+      return STRATEGY_PRESETS.macdCross();
+  }
+}
+
+const YEARS = [1, 2, 5, 10] as const;
+
+export function BacktestPanel({ symbol }: { symbol: string }) {
+  const [preset, setPreset] = useState<StrategyPreset>("smaCross");
+  const [params, setParams] = useState<number[]>(
+    PRESET_PARAMS.smaCross.params.map(([, v]) => v)
+  );
+  const [years, setYears] = useState<(typeof YEARS)[number]>(2);
+  const [capital, setCapital] = useState(10_000);
+  const [sizingPct, setSizingPct] = useState(100);
+  const [commission, setCommission] = useState(1);
+  const [slippageBps, setSlippageBps] = useState(5);
+  const [stopLossPct, setStopLossPct] = useState<number | "">("");
+  const [takeProfitPct, setTakeProfitPct] = useState<number | "">("");
+
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<Ok | null>(null);
+
+  function choosePreset(p: StrategyPreset) {
+    setPreset(p);
+    setParams(PRESET_PARAMS[p].params.map(([, v]) => v));
+  }
+
+  async function run() {
+    const to = new Date();
+    const from = new Date(to);
+    from.setFullYear(to.getFullYear() - years);
+    const iso = (d: Date) => d.toISOString().slice(0, 10);
+
+    const strategy: Strategy = {
+      ...buildStrategy(preset, params),
+      stopLossPct: stopLossPct === "" ? undefined : stopLossPct,
+      takeProfitPct: takeProfitPct === "" ? undefined : takeProfitPct,
+    };
+
+    setRunning(true);
+    setError(null);
+    const res = await runBacktest({
+      ticker: symbol,
+      from: iso(from),
+      to: iso(to),
+      strategy,
+      config: {
+        initialCapital: capital,
+        commission: { perTrade: commission },
+        slippageBps,
+        sizing: { mode: "percentEquity", pct: sizingPct },
+      },
+    });
+    setRunning(false);
+    if (!res.ok) {
+      setResult(null);
+      setError([res.error, ...(res.details ?? [])].filter(Boolean).join(" · "));
+      return;
+    }
+    setResult(res);
+  }
+
+  const m = result?.metrics;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <h3 className="text-base md:text-lg font-semibold">Backtest</h3>
+        <button
+          onClick={run}
+          disabled={running}
+          className="rounded-lg px-3 py-1.5 text-xs border bg-gray-900 text-white border-gray-900 disabled:opacity-50"
+        >
+          {running ? "Running…" : `Run on ${symbol}`}
+        </button>
+      </div>
+
+      {/* strategy + execution settings */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <Field label="Strategy">
+          <select
+            value={preset}
+            onChange={(e) => choosePreset(e.target.value as StrategyPreset)}
+            className={inputCls}
+          >
+            {(Object.keys(PRESET_PARAMS) as StrategyPreset[]).map((k) => (
+              <option key={k} value={k}>
+                {PRESET_PARAMS[k].label}
+              </option>
+            ))}
+          </select>
+        </Field>
+        {PRESET_PARAMS[preset].params.map(([label], i) => (
+          <Field key={label} label={label}>
+            <NumberInput
+              value={params[i]}
+              onChange={(v) =>
+                setParams((p) => p.map((x, j) => (j === i ? Number(v) : x)))
+              }
+            />
+          </Field>
+        ))}
+        <Field label="History">
+          <select
+            value={years}
+            onChange={(e) =>
+              setYears(Number(e.target.value) as (typeof YEARS)[number])
+            }
+            className={inputCls}
+          >
+            {YEARS.map((y) => (
+              <option key={y} value={y}>
+                {y}Y
+              </option>
+            ))}
+          </select>
+        </Field>
+        <Field label="Capital ($)">
+          <NumberInput
+            value={capital}
+            onChange={(v) => setCapital(Number(v))}
+          />
+        </Field>
+        <Field label="Position size (% equity)">
+          <NumberInput
+            value={sizingPct}
+            onChange={(v) => setSizingPct(Number(v))}
+          />
+        </Field>
+        <Field label="Commission ($/trade)">
+          <NumberInput
+            value={commission}
+            onChange={(v) => setCommission(Number(v))}
+          />
+        </Field>
+        <Field label="Slippage (bps)">
+          <NumberInput
+            value={slippageBps}
+            onChange={(v) => setSlippageBps(Number(v))}
+          />
+        </Field>
+        <Field label="Stop loss (%)">
+          <NumberInput
+            value={stopLossPct}
+            onChange={setStopLossPct}
+            placeholder="off"
+          />
+        </Field>
+        <Field label="Take profit (%)">
+          <NumberInput
+            value={takeProfitPct}
+            onChange={setTakeProfitPct}
+            placeholder="off"
+          />
+        </Field>
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-rose-200 bg-rose-50 text-rose-700 p-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {result && m && (
+        <div className="mt-6 space-y-6">
+          <div className="text-xs text-gray-500">
+            {result.strategy.name} · entry:{" "}
+            {result.strategy.entry.map(describeCondition).join(" and ")} · exit:{" "}
+            {result.strategy.exit.map(describeCondition).join(" or ")}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <Metric label="Total return" value={fmt.pct(m.totalReturnPct)} />
+            <Metric label="Buy & hold" value={fmt.pct(m.buyHoldReturnPct)} />
+            <Metric label="CAGR" value={fmt.pct(m.cagrPct)} />
+            <Metric
+              label="Max drawdown"
+              value={`-${m.maxDrawdownPct.toFixed(2)}%`}
+            />
+            <Metric
+              label="Sharpe"
+              value={m.sharpe != null ? m.sharpe.toFixed(2) : "—"}
+            />
+            <Metric
+              label="Win rate"
+              value={m.winRatePct != null ? `${m.winRatePct.toFixed(1)}%` : "—"}
+            />
+            <Metric label="Trades" value={String(m.trades)} />
+            <Metric label="Exposure" value={`${m.exposurePct.toFixed(1)}%`} />
+            <Metric label="End equity" value={fmt.usd(m.endEquity)} />
+            <Metric label="Fees paid" value={fmt.usd(m.totalFees)} />
+            <Metric
+              label="Profit factor"
+              value={m.profitFactor != null ? m.profitFactor.toFixed(2) : "—"}
+            />
+            <Metric
+              label="Avg win / loss"
+              value={`${fmt.pct(m.avgWinPct)} / ${fmt.pct(m.avgLossPct)}`}
+            />
+          </div>
+
+          {/* equity curve vs buy & hold */}
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={result.equity}
+                margin={{ top: 8, right: 8, bottom: 0, left: 0 }}
+              >
+                <CartesianGrid
+                  stroke="rgb(229 231 235)"
+                  strokeDasharray="3 3"
+                />
+                <XAxis
+                  dataKey="t"
+                  type="number"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={fmtDate}
+                  stroke="rgb(107 114 128)"
+                  tick={{ fontSize: 12 }}
+                  minTickGap={24}
+                />
+                <YAxis
+                  tickFormatter={fmt.num}
+                  stroke="rgb(107 114 128)"
+                  tick={{ fontSize: 12 }}
+                  width={64}
+                  domain={["auto", "auto"]}
+                />
+                <Tooltip
+                  contentStyle={{
+                    borderRadius: 12,
+                    borderColor: "rgb(229 231 235)",
+                  }}
+                  labelFormatter={(ts) => fmtDate(Number(ts))}
+                  formatter={(val, name) => [
+                    fmt.usd(Number(val)),
+                    name === "equity" ? "Strategy" : "Buy & hold",
+                  ]}
+                />
+                <Legend
+                  formatter={(v) =>
+                    v === "equity" ? "Strategy" : "Buy & hold"
+                  }
+                />
+                <Line
+                  type="monotone"
+                  dataKey="equity"
+                  stroke="rgb(17 24 39)"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="benchmark"
+                  stroke="rgb(156 163 175)"
+                  strokeDasharray="4 3"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* trade list */}
+          <div className="max-h-72 overflow-y-auto">
+            {result.trades.length === 0 ? (
+              <div className="text-sm text-gray-500">
+                No trades were triggered in this window.
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="text-gray-500 text-xs sticky top-0 bg-white">
+                  <tr>
+                    <th className="text-left py-1">Entry</th>
+                    <th className="text-left">Exit</th>
+                    <th className="text-right">Shares</th>
+                    <th className="text-right">Entry $</th>
+                    <th className="text-right">Exit $</th>
+                    <th className="text-right">P&L</th>
+                    <th className="text-right">Return</th>
+                    <th className="text-right">Reason</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-800">
+                  {result.trades.map((t) => (
+                    <tr key={t.entryT} className="border-t border-gray-100">
+                      <td className="py-1">{fmtDate(t.entryT)}</td>
+                      <td>{fmtDate(t.exitT)}</td>
+                      <td className="text-right">{fmt.num(t.shares)}</td>
+                      <td className="text-right">{fmt.num(t.entryPrice)}</td>
+                      <td className="text-right">{fmt.num(t.exitPrice)}</td>
+                      <td
+                        className={
+                          "text-right " +
+                          (t.pnl >= 0 ? "text-emerald-700" : "text-rose-700")
+                        }
+                      >
+                        {fmt.usd(t.pnl)}
+                      </td>
+                      <td className="text-right">{fmt.pct(t.returnPct)}</td>
+                      <td className="text-right text-gray-500">
+                        {t.exitReason}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const inputCls =
+  "w-full rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm";
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="block">
+      <span className="text-xs text-gray-500">{label}</span>
+      <div className="mt-1">{children}</div>
+    </label>
+  );
+}
+
+function NumberInput({
+  value,
+  onChange,
+  placeholder,
+}: {
+  value: number | "";
+  onChange: (v: number | "") => void;
+  placeholder?: string;
+}) {
+  return (
+    <input
+      type="number"
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) =>
+        onChange(e.target.value === "" ? "" : Number(e.target.value))
+      }
+      className={inputCls}
+    />
+  );
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-sm text-gray-900">{value}</div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import type { ReactNode } from "react";
+
+export function Card({
+  children,
+  variant = "filled",
+  className = "",
+}: {
+  children: ReactNode;
+  variant?: "filled" | "outlined";
+  className?: string;
+}) {
+  const base = "rounded-2xl p-4 md:p-6";
+  const style =
+    variant === "outlined"
+      ? "border border-gray-200 bg-white/60"
+      : "bg-white ring-1 ring-gray-200 shadow-xl shadow-black/5";
+  return <div className={`${base} ${style} ${className}`}>{children}</div>;
+}
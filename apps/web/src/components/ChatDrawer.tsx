@@ -0,0 +1,253 @@
+import { useEffect, useRef, useState } from "react";
+import type { AIPayload, Analysis, ChatTurn } from "@stock-search/shared/ai";
+import { clearChat, getChat, sendChat } from "../services/chat";
+import { usePersistentState } from "../lib/usePersistentState";
+import { fmt } from "../lib/format";
+
+/**
+ * What the chat is grounded in: the snapshot (ticker and time) and the run
+ * analysed from it, so a new payload re-grounds even without a new run.
+ */
+const contextKeyOf = (
+  payload: Pick<AIPayload, "ticker" | "asOf"> | null | undefined,
+  runId: string | null | undefined
+) =>
+  payload || runId
+    ? [payload?.ticker ?? "", payload?.asOf ?? "", runId ?? ""].join("|")
+    : null;
+
+const SUGGESTIONS = [
+  "What if it breaks below the 200-day?",
+  "Compare to last quarter",
+  "What would change the stance?",
+];
+
+/**
+ * Follow-up questions on the current analysis, kept per ticker on the
+ * server. The snapshot is sent with the first question and again whenever
+ * a new analysis run replaces it.
+ */
+export function ChatDrawer({
+  ticker,
+  payload,
+  analysis,
+  runId,
+}: {
+  ticker: string;
+  payload: AIPayload | null;
+  analysis: Analysis | null;
+  runId: string | null;
+}) {
+  const [open, setOpen] = usePersistentState("aiChat.open", false);
+  const [messages, setMessages] = useState<ChatTurn[]>([]);
+  const [groundedAt, setGroundedAt] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  /** Run (or snapshot time) the server's context came from. */
+  const groundedFor = useRef<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+  const bottom = useRef<HTMLDivElement>(null);
+
+  const contextKey = contextKeyOf(payload, runId);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    groundedFor.current = null;
+    setMessages([]);
+    setPending(null);
+    setGroundedAt(null);
+    getChat(ticker)
+      .then((t) => {
+        if (cancelled) return;
+        setMessages(t.messages);
+        setGroundedAt(t.context?.at ?? null);
+        groundedFor.current = t.context
+          ? contextKeyOf(t.context.payload, t.context.runId)
+          : null;
+        setError(null);
+      })
+      .catch((e: Error) => !cancelled && setError(e.message));
+    return () => {
+      cancelled = true;
+      abort.current?.abort();
+    };
+  }, [ticker, open]);
+
+  useEffect(() => {
+    bottom.current?.scrollIntoView({ block: "nearest" });
+  }, [messages, pending]);
+
+  const busy = pending != null;
+  const canSend = !!payload || groundedAt != null;
+
+  const send = async (text: string) => {
+    const question = text.trim();
+    if (!question || busy) return;
+    const ground = !!payload && contextKey !== groundedFor.current;
+
+    setMessages((m) => [
+      ...m,
+      { role: "user", content: question, at: new Date().toISOString() },
+    ]);
+    setDraft("");
+    setPending("");
+    setError(null);
+    const controller = new AbortController();
+    abort.current = controller;
+
+    const res = await sendChat(
+      ticker,
+      ground
+        ? { message: question, payload: payload!, analysis, runId }
+        : { message: question },
+      (d) => setPending((p) => (p ?? "") + d),
+      controller.signal
+    );
+    if (controller.signal.aborted && !res.ok) return;
+    setPending(null);
+    if (res.ok) {
+      if (ground) {
+        groundedFor.current = contextKey;
+        setGroundedAt(new Date().toISOString());
+      }
+      setMessages((m) => [...m, res.turn]);
+    } else {
+      // the server keeps nothing from a failed exchange; let the user retry
+      setMessages((m) => m.slice(0, -1));
+      setDraft(question);
+      setError(res.error);
+    }
+  };
+
+  const stop = () => {
+    abort.current?.abort();
+    setPending(null);
+    setMessages((m) => m.slice(0, -1));
+  };
+
+  const reset = async () => {
+    try {
+      await clearChat(ticker);
+      setMessages([]);
+      setGroundedAt(null);
+      groundedFor.current = null;
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const btn =
+    "rounded-md border border-slate-300 px-2 py-0.5 text-xs text-slate-700 hover:bg-slate-100 disabled:opacity-50";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3">
+        <button
+          className="text-sm font-semibold text-slate-900"
+          onClick={() => setOpen(!open)}
+        >
+          {open ? "▾" : "▸"} Ask a follow-up
+        </button>
+        {open && (
+          <span className="flex items-center gap-2 text-xs text-slate-500">
+            {groundedAt && <>Grounded in snapshot of {fmt.time(groundedAt)}</>}
+            <button
+              className={btn}
+              disabled={busy || !messages.length}
+              onClick={reset}
+            >
+              Clear
+            </button>
+          </span>
+        )}
+      </div>
+
+      {open && (
+        <div className="mt-3">
+          <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+            {!messages.length && !busy && (
+              <div className="flex flex-wrap gap-2">
+                {SUGGESTIONS.map((s) => (
+                  <button
+                    key={s}
+                    className="rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-xs text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+                    disabled={!canSend}
+                    onClick={() => send(s)}
+                  >
+                    {s}
+                  </button>
+                ))}
+              </div>
+            )}
+            {messages.map((m, i) => (
+              <Bubble key={i} role={m.role} text={m.content} />
+            ))}
+            {busy && <Bubble role="assistant" text={pending || "…"} />}
+            <div ref={bottom} />
+          </div>
+
+          {error && <div className="mt-2 text-sm text-rose-600">{error}</div>}
+          {!canSend && (
+            <div className="mt-2 text-sm text-slate-400">
+              Load price data for {ticker} to start a conversation.
+            </div>
+          )}
+
+          <form
+            className="mt-3 flex items-end gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              send(draft);
+            }}
+          >
+            <textarea
+              className="flex-1 resize-none rounded-lg border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              rows={2}
+              placeholder={`Ask about ${ticker}…`}
+              value={draft}
+              disabled={!canSend}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  send(draft);
+                }
+              }}
+            />
+            {busy ? (
+              <button type="button" className={btn} onClick={stop}>
+                Stop
+              </button>
+            ) : (
+              <button
+                type="submit"
+                className={btn}
+                disabled={!canSend || !draft.trim()}
+              >
+                Send
+              </button>
+            )}
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Bubble({ role, text }: { role: ChatTurn["role"]; text: string }) {
+  return (
+    <div className={role === "user" ? "flex justify-end" : "flex"}>
+      <div
+        className={`max-w-[85%] whitespace-pre-wrap rounded-xl px-3 py-2 text-sm ${
+          role === "user"
+            ? "bg-indigo-50 text-indigo-900"
+            : "bg-slate-50 text-slate-800"
+        }`}
+      >
+        {text}
+      </div>
+    </div>
+  );
+}
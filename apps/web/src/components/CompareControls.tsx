@@ -0,0 +1,96 @@
+import { useState } from "react";
+
+const SUGGESTED = ["SPY", "QQQ", "DIA", "IWM"];
+
+/** Compare-mode switch plus the list of symbols overlaid on the chart. */
+export function CompareControls({
+  enabled,
+  onToggle,
+  symbols,
+  onChange,
+  errors,
+  loading,
+}: {
+  enabled: boolean;
+  onToggle: (on: boolean) => void;
+  symbols: string[];
+  onChange: (symbols: string[]) => void;
+  errors: Record<string, string>;
+  loading: boolean;
+}) {
+  const [input, setInput] = useState("");
+
+  const add = (raw: string) => {
+    const sym = raw.trim().toUpperCase();
+    if (!sym || symbols.includes(sym)) return;
+    onChange([...symbols, sym]);
+  };
+
+  const chip =
+    "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs";
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2">
+      <button
+        onClick={() => onToggle(!enabled)}
+        className={
+          "rounded-lg px-2.5 py-1 text-xs border transition " +
+          (enabled
+            ? "bg-gray-900 text-white border-gray-900"
+            : "bg-white text-gray-700 border-gray-300 hover:bg-gray-100")
+        }
+      >
+        Compare
+      </button>
+      {enabled && (
+        <>
+          {symbols.map((s) => (
+            <span
+              key={s}
+              className={
+                chip +
+                (errors[s]
+                  ? " border-rose-200 text-rose-700"
+                  : " border-gray-300 text-gray-700")
+              }
+              title={errors[s]}
+            >
+              {s}
+              <button
+                className="text-gray-400 hover:text-gray-900"
+                onClick={() => onChange(symbols.filter((x) => x !== s))}
+                aria-label={`Remove ${s}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          {SUGGESTED.filter((s) => !symbols.includes(s)).map((s) => (
+            <button
+              key={s}
+              className={chip + " border-dashed border-gray-300 text-gray-500"}
+              onClick={() => add(s)}
+            >
+              + {s}
+            </button>
+          ))}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              add(input);
+              setInput("");
+            }}
+          >
+            <input
+              value={input}
+              onChange={(e) => setInput(e.target.value.toUpperCase())}
+              placeholder="Add peer"
+              className="w-24 rounded-lg border border-gray-300 bg-white px-2 py-0.5 text-xs uppercase"
+            />
+          </form>
+          {loading && <span className="text-xs text-gray-500">Loading…</span>}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+} from "recharts";
+import { Card } from "./Card";
+import { usePersistentState } from "../lib/usePersistentState";
+import { getPortfolio } from "../services/portfolio";
+import { listWatchlists, type Watchlist } from "../services/watchlists";
+import {
+  getCorrelation,
+  getRollingCorrelation,
+  type CorrelationResponse,
+  type RollingCorrelation,
+} from "../services/correlation";
+
+const PERIODS = { "6M": 182, "1Y": 365, "2Y": 730 } as const;
+type Period = keyof typeof PERIODS;
+const WINDOWS = [20, 60, 120];
+
+const iso = (d: Date) => d.toISOString().slice(0, 10);
+const fromFor = (period: Period) =>
+  iso(new Date(Date.now() - PERIODS[period] * 24 * 60 * 60 * 1000));
+
+/** Red for positive, blue for negative, transparent at zero. */
+const cellColor = (v: number | null) =>
+  v == null
+    ? "rgb(243 244 246)"
+    : v >= 0
+      ? `rgba(190, 18, 60, ${v.toFixed(2)})`
+      : `rgba(37, 99, 235, ${(-v).toFixed(2)})`;
+
+function Heatmap({
+  data,
+  selected,
+  onSelect,
+}: {
+  data: CorrelationResponse;
+  selected: [string, string] | null;
+  onSelect: (pair: [string, string]) => void;
+}) {
+  const n = data.symbols.length;
+  return (
+    <div className="overflow-x-auto">
+      <div
+        className="grid gap-px text-[11px] tabular-nums"
+        style={{
+          gridTemplateColumns: `4rem repeat(${n}, minmax(2.5rem, 1fr))`,
+        }}
+      >
+        <div />
+        {data.symbols.map((s) => (
+          <div key={s} className="truncate pb-1 text-center text-gray-500">
+            {s}
+          </div>
+        ))}
+        {data.symbols.map((row, i) => [
+          <div key={row} className="truncate pr-2 text-right text-gray-500">
+            {row}
+          </div>,
+          ...data.matrix[i].map((v, j) => {
+            const col = data.symbols[j];
+            const active =
+              selected &&
+              ((selected[0] === row && selected[1] === col) ||
+                (selected[0] === col && selected[1] === row));
+            return (
+              <button
+                key={`${row}-${col}`}
+                disabled={i === j}
+                onClick={() => onSelect([row, col])}
+                title={`${row} / ${col}: ${v != null ? v.toFixed(3) : "n/a"}`}
+                className={
+                  "h-9 rounded-sm " +
+                  (active ? "ring-2 ring-gray-900 " : "") +
+                  (v != null && Math.abs(v) > 0.6
+                    ? "text-white"
+                    : "text-gray-800")
+                }
+                style={{ background: cellColor(v) }}
+              >
+                {v != null ? v.toFixed(2) : "—"}
+              </button>
+            );
+          }),
+        ])}
+      </div>
+    </div>
+  );
+}
+
+function RollingChart({ data }: { data: RollingCorrelation }) {
+  const points = data.points.filter((p) => p.value != null);
+  if (points.length < 2)
+    return (
+      <div className="h-48 grid place-items-center text-sm text-gray-500">
+        Not enough overlapping history for a {data.window}-day window
+      </div>
+    );
+  return (
+    <div className="h-56">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points}>
+          <XAxis dataKey="date" minTickGap={40} tick={{ fontSize: 11 }} />
+          <YAxis domain={[-1, 1]} width={36} tick={{ fontSize: 11 }} />
+          <ReferenceLine y={0} stroke="#d1d5db" />
+          <Tooltip
+            formatter={(v) => (typeof v === "number" ? v.toFixed(3) : v)}
+          />
+          <Line
+            type="monotone"
+            dataKey="value"
+            name="ρ"
+            stroke="#111827"
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+/**
+ * Return correlations across the holdings of the portfolio or a watchlist,
+ * clustered so that tickers moving together sit in adjacent rows. Clicking a
+ * cell charts that pair's rolling correlation.
+ */
+export function CorrelationPage() {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [holdings, setHoldings] = useState<string[]>([]);
+  const [source, setSource] = usePersistentState<string>(
+    "correlation.source",
+    "portfolio"
+  );
+  const [period, setPeriod] = usePersistentState<Period>(
+    "correlation.period",
+    "1Y"
+  );
+  const [rollWindow, setRollWindow] = usePersistentState(
+    "correlation.window",
+    60
+  );
+
+  const [data, setData] = useState<CorrelationResponse | null>(null);
+  const [pair, setPair] = useState<[string, string] | null>(null);
+  const [rolling, setRolling] = useState<RollingCorrelation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    listWatchlists()
+      .then(setWatchlists)
+      .catch(() => setWatchlists([]));
+    getPortfolio()
+      .then((p) =>
+        setHoldings(
+          p.positions.filter((x) => x.quantity > 0).map((x) => x.ticker)
+        )
+      )
+      .catch(() => setHoldings([]));
+  }, []);
+
+  const tickers = useMemo(
+    () =>
+      source === "portfolio"
+        ? holdings
+        : (watchlists.find((w) => w.id === source)?.symbols ?? []),
+    [source, holdings, watchlists]
+  );
+
+  useEffect(() => {
+    setPair(null);
+    if (tickers.length < 2) {
+      setData(null);
+      return;
+    }
+    let alive = true;
+    setLoading(true);
+    setError(null);
+    getCorrelation(tickers, fromFor(period))
+      .then((d) => alive && setData(d))
+      .catch((err) => {
+        if (!alive) return;
+        setData(null);
+        setError(err instanceof Error ? err.message : "Failed to load");
+      })
+      .finally(() => alive && setLoading(false));
+    return () => {
+      alive = false;
+    };
+  }, [tickers, period]);
+
+  useEffect(() => {
+    setRolling(null);
+    if (!pair) return;
+    let alive = true;
+    getRollingCorrelation(pair, rollWindow, fromFor(period))
+      .then((r) => alive && setRolling(r))
+      .catch((err) => {
+        if (alive)
+          setError(err instanceof Error ? err.message : "Failed to load");
+      });
+    return () => {
+      alive = false;
+    };
+  }, [pair, rollWindow, period]);
+
+  const select = "rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm";
+
+  return (
+    <div className="grid gap-6 md:gap-8">
+      <Card>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold text-gray-900">Correlation</h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              className={select}
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+            >
+              <option value="portfolio">Portfolio holdings</option>
+              {watchlists.map((w) => (
+                <option key={w.id} value={w.id}>
+                  {w.name}
+                </option>
+              ))}
+            </select>
+            <select
+              className={select}
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as Period)}
+            >
+              {Object.keys(PERIODS).map((p) => (
+                <option key={p}>{p}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {error && <div className="mt-2 text-sm text-rose-700">{error}</div>}
+        {!!data?.missing.length && (
+          <ul className="mt-2 text-xs text-amber-700">
+            {data.missing.map((m) => (
+              <li key={m.ticker}>
+                {m.ticker}: {m.error}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="mt-4">
+          {tickers.length < 2 ? (
+            <div className="h-48 grid place-items-center text-sm text-gray-500">
+              Pick a watchlist or portfolio with at least two tickers
+            </div>
+          ) : loading && !data ? (
+            <div className="h-48 grid place-items-center text-sm text-gray-500">
+              Loading…
+            </div>
+          ) : data ? (
+            <>
+              <Heatmap data={data} selected={pair} onSelect={setPair} />
+              <div className="mt-2 text-xs text-gray-500">
+                Daily returns, {data.from} → {data.to} ({data.days} common
+                days). Ordered by hierarchical clustering.
+              </div>
+            </>
+          ) : null}
+        </div>
+      </Card>
+
+      {pair && (
+        <Card>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-medium text-gray-900">
+              Rolling correlation · {pair[0]} / {pair[1]}
+            </h3>
+            <div className="flex gap-1">
+              {WINDOWS.map((w) => (
+                <button
+                  key={w}
+                  onClick={() => setRollWindow(w)}
+                  className={
+                    "rounded-lg px-2.5 py-1 text-xs border transition " +
+                    (rollWindow === w
+                      ? "bg-gray-900 text-white border-gray-900"
+                      : "bg-white text-gray-700 border-gray-300 hover:bg-gray-100")
+                  }
+                >
+                  {w}d
+                </button>
+              ))}
+            </div>
+          </div>
+          {rolling ? (
+            <RollingChart data={rolling} />
+          ) : (
+            <div className="h-48 grid place-items-center text-sm text-gray-500">
+              Loading…
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
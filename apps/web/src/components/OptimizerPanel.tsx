@@ -0,0 +1,275 @@
+import { useState } from "react";
+import {
+  ResponsiveContainer,
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  ZAxis,
+  Tooltip,
+  Legend,
+} from "recharts";
+import type { Allocation, StrategyName } from "@stock-search/shared/optimize";
+import { usePersistentState } from "../lib/usePersistentState";
+import {
+  optimizePortfolio,
+  type OptimizeResponse,
+} from "../services/portfolio";
+
+const STRATEGIES: { key: StrategyName; label: string; color: string }[] = [
+  { key: "maxSharpe", label: "Max Sharpe", color: "#2563eb" },
+  { key: "minVariance", label: "Min variance", color: "#059669" },
+  { key: "riskParity", label: "Risk parity", color: "#d97706" },
+  { key: "equalWeight", label: "Equal weight", color: "#7c3aed" },
+];
+const CURRENT_COLOR = "#e11d48";
+
+const pct = (n: number | null | undefined, d = 1) =>
+  n == null ? "—" : `${n.toFixed(d)}%`;
+
+const SUMMARY_ROWS: [string, (a: Allocation) => string][] = [
+  ["Exp. return", (a) => pct(a.expectedReturn)],
+  ["Volatility", (a) => pct(a.volatility)],
+  ["Sharpe", (a) => a.sharpe?.toFixed(2) ?? "—"],
+];
+
+/**
+ * Optimize the holdings (or a custom universe) under long-only / max-weight /
+ * target-vol constraints and compare each allocation with today's weights.
+ */
+export function OptimizerPanel({ holdings }: { holdings: string[] }) {
+  const [universe, setUniverse] = useState("");
+  const [longOnly, setLongOnly] = usePersistentState("optimize.longOnly", true);
+  const [maxWeight, setMaxWeight] = usePersistentState(
+    "optimize.maxWeight",
+    40
+  );
+  const [targetVol, setTargetVol] = usePersistentState(
+    "optimize.targetVol",
+    ""
+  );
+  const [result, setResult] = useState<OptimizeResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const tickers = universe
+        .split(/[\s,]+/)
+        .map((t) => t.trim().toUpperCase())
+        .filter(Boolean);
+      setResult(
+        await optimizePortfolio({
+          ...(tickers.length ? { tickers } : {}),
+          constraints: {
+            longOnly,
+            maxWeight: maxWeight / 100,
+            targetVol: targetVol ? Number(targetVol) : null,
+          },
+        })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Optimization failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const input =
+    "rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm tabular-nums";
+  const point = (s: { volatility: number; expectedReturn: number }) => ({
+    x: s.volatility,
+    y: s.expectedReturn,
+  });
+
+  return (
+    <div>
+      <h3 className="mb-3 text-sm font-medium text-gray-900">Optimizer</h3>
+      <form
+        className="flex flex-wrap items-end gap-3 text-sm"
+        onSubmit={(e) => {
+          e.preventDefault();
+          run();
+        }}
+      >
+        <label className="grow">
+          <div className="text-xs text-gray-500">Universe</div>
+          <input
+            className={input + " w-full uppercase"}
+            placeholder={holdings.join(", ") || "AAPL, MSFT, TLT, GLD"}
+            value={universe}
+            onChange={(e) => setUniverse(e.target.value)}
+          />
+        </label>
+        <label>
+          <div className="text-xs text-gray-500">Max weight %</div>
+          <input
+            className={input + " w-24"}
+            type="number"
+            min="1"
+            max="100"
+            value={maxWeight}
+            onChange={(e) => setMaxWeight(Number(e.target.value))}
+          />
+        </label>
+        <label>
+          <div className="text-xs text-gray-500">Target vol %</div>
+          <input
+            className={input + " w-24"}
+            type="number"
+            min="0"
+            step="any"
+            placeholder="none"
+            value={targetVol}
+            onChange={(e) => setTargetVol(e.target.value)}
+          />
+        </label>
+        <label className="flex items-center gap-1.5 pb-1.5">
+          <input
+            type="checkbox"
+            checked={longOnly}
+            onChange={(e) => setLongOnly(e.target.checked)}
+          />
+          Long only
+        </label>
+        <button
+          type="submit"
+          disabled={busy}
+          className="rounded-lg bg-gray-900 px-3 py-1.5 text-sm text-white disabled:opacity-50"
+        >
+          {busy ? "Optimizing…" : "Optimize"}
+        </button>
+      </form>
+      {error && <div className="mt-2 text-sm text-rose-700">{error}</div>}
+
+      {result && (
+        <>
+          {!!result.warnings.length && (
+            <ul className="mt-3 text-xs text-amber-700">
+              {result.warnings.map((w) => (
+                <li key={w}>{w}</li>
+              ))}
+            </ul>
+          )}
+          <div className="mt-4 grid gap-6 md:grid-cols-2">
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart margin={{ top: 8, right: 8, bottom: 8, left: 0 }}>
+                  <XAxis
+                    type="number"
+                    dataKey="x"
+                    name="Volatility"
+                    unit="%"
+                    domain={["auto", "auto"]}
+                    tick={{ fontSize: 11 }}
+                  />
+                  <YAxis
+                    type="number"
+                    dataKey="y"
+                    name="Return"
+                    unit="%"
+                    domain={["auto", "auto"]}
+                    width={44}
+                    tick={{ fontSize: 11 }}
+                  />
+                  <ZAxis range={[40, 40]} />
+                  <Tooltip
+                    formatter={(v) => (typeof v === "number" ? pct(v, 2) : v)}
+                  />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  <Scatter
+                    name="Frontier"
+                    data={result.frontier.map(point)}
+                    fill="#9ca3af"
+                    line
+                    shape={() => <g />}
+                    isAnimationActive={false}
+                  />
+                  <Scatter
+                    name="Assets"
+                    data={Object.values(result.assets).map(point)}
+                    fill="#d1d5db"
+                    isAnimationActive={false}
+                  />
+                  {STRATEGIES.map((s) => (
+                    <Scatter
+                      key={s.key}
+                      name={s.label}
+                      data={[point(result.strategies[s.key])]}
+                      fill={s.color}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  {result.current && (
+                    <Scatter
+                      name="Current"
+                      data={[point(result.current)]}
+                      fill={CURRENT_COLOR}
+                      shape="diamond"
+                      isAnimationActive={false}
+                    />
+                  )}
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs tabular-nums">
+                <thead className="text-gray-500">
+                  <tr className="text-right">
+                    <th className="py-1 text-left font-normal">Ticker</th>
+                    {result.current && <th className="font-normal">Current</th>}
+                    {STRATEGIES.map((s) => (
+                      <th key={s.key} className="font-normal">
+                        {s.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.symbols.map((sym) => (
+                    <tr
+                      key={sym}
+                      className="border-t border-gray-100 text-right text-gray-700"
+                    >
+                      <td className="py-1 text-left font-medium">{sym}</td>
+                      {result.current && (
+                        <td>{pct(result.current.weights[sym] * 100)}</td>
+                      )}
+                      {STRATEGIES.map((s) => (
+                        <td key={s.key}>
+                          {pct(result.strategies[s.key].weights[sym] * 100)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="text-gray-900">
+                  {SUMMARY_ROWS.map(([label, render]) => (
+                    <tr
+                      key={label}
+                      className="border-t border-gray-200 text-right"
+                    >
+                      <td className="py-1 text-left text-gray-500">{label}</td>
+                      {result.current && <td>{render(result.current)}</td>}
+                      {STRATEGIES.map((s) => (
+                        <td key={s.key}>{render(result.strategies[s.key])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tfoot>
+              </table>
+              <div className="mt-2 text-xs text-gray-500">
+                Estimated from {result.observations} daily returns,{" "}
+                {result.from} → {result.to}. Historical means are noisy; treat
+                the weights as a starting point.
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
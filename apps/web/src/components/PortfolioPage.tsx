@@ -0,0 +1,425 @@
+import { useCallback, useEffect, useState, type ReactNode } from "react";
+import { Card } from "./Card";
+import { OptimizerPanel } from "./OptimizerPanel";
+import { PriceHistoryChart } from "./PriceHistoryChart";
+import { fmt } from "../lib/format";
+import {
+  addTransaction,
+  deleteTransaction,
+  getPortfolio,
+  getPortfolioHistory,
+  listTransactions,
+  type AllocationSlice,
+  type PortfolioSummary,
+  type Transaction,
+  type TransactionInput,
+  type ValuePoint,
+} from "../services/portfolio";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const signed = (n: number | null, render: (n: number) => string) =>
+  n == null ? (
+    "—"
+  ) : (
+    <span className={n >= 0 ? "text-emerald-700" : "text-rose-700"}>
+      {render(n)}
+    </span>
+  );
+
+function Metric({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div>
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="mt-1 text-lg font-semibold text-gray-900 tabular-nums">
+        {value}
+      </div>
+    </div>
+  );
+}
+
+function AllocationBars({
+  title,
+  slices,
+}: {
+  title: string;
+  slices: AllocationSlice[];
+}) {
+  return (
+    <div>
+      <h3 className="mb-2 text-sm font-medium text-gray-900">{title}</h3>
+      {!slices.length && <div className="text-xs text-gray-500">—</div>}
+      <ul className="space-y-1.5">
+        {slices.map((s) => (
+          <li key={s.key} className="text-xs">
+            <div className="flex justify-between text-gray-700">
+              <span className="truncate pr-2">{s.key}</span>
+              <span className="tabular-nums">
+                {(s.weight * 100).toFixed(1)}% · {fmt.usdCompact(s.value)}
+              </span>
+            </div>
+            <div className="mt-0.5 h-1.5 rounded-full bg-gray-100">
+              <div
+                className="h-1.5 rounded-full bg-gray-900"
+                style={{ width: `${s.weight * 100}%` }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+const emptyForm = (): Record<keyof TransactionInput, string> => ({
+  ticker: "",
+  side: "buy",
+  quantity: "",
+  price: "",
+  fees: "0",
+  date: today(),
+  note: "",
+});
+
+function TransactionForm({
+  onSubmit,
+}: {
+  onSubmit: (tx: TransactionInput) => Promise<void>;
+}) {
+  const [form, setForm] = useState(emptyForm);
+  const [busy, setBusy] = useState(false);
+  const set =
+    (k: keyof TransactionInput) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setForm((f) => ({ ...f, [k]: e.target.value }));
+
+  const input =
+    "w-full rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm";
+  return (
+    <form
+      className="grid grid-cols-2 gap-2 md:grid-cols-8 items-end"
+      onSubmit={async (e) => {
+        e.preventDefault();
+        setBusy(true);
+        try {
+          await onSubmit({
+            ticker: form.ticker.trim().toUpperCase(),
+            side: form.side as TransactionInput["side"],
+            quantity: Number(form.quantity),
+            price: Number(form.price),
+            fees: Number(form.fees || 0),
+            date: form.date,
+            ...(form.note?.trim() ? { note: form.note.trim() } : {}),
+          });
+          setForm(emptyForm());
+        } finally {
+          setBusy(false);
+        }
+      }}
+    >
+      <input
+        className={input + " uppercase"}
+        placeholder="Ticker"
+        value={form.ticker}
+        onChange={set("ticker")}
+        required
+      />
+      <select className={input} value={form.side} onChange={set("side")}>
+        <option value="buy">Buy</option>
+        <option value="sell">Sell</option>
+      </select>
+      <input
+        className={input}
+        type="number"
+        step="any"
+        min="0"
+        placeholder="Qty"
+        value={form.quantity}
+        onChange={set("quantity")}
+        required
+      />
+      <input
+        className={input}
+        type="number"
+        step="any"
+        min="0"
+        placeholder="Price"
+        value={form.price}
+        onChange={set("price")}
+        required
+      />
+      <input
+        className={input}
+        type="number"
+        step="any"
+        min="0"
+        placeholder="Fees"
+        value={form.fees}
+        onChange={set("fees")}
+      />
+      <input
+        className={input}
+        type="date"
+        value={form.date}
+        onChange={set("date")}
+        required
+      />
+      <input
+        className={input}
+        placeholder="Note"
+        value={form.note}
+        onChange={set("note")}
+      />
+      <button
+        type="submit"
+        disabled={busy}
+        className="rounded-lg bg-gray-900 px-3 py-1.5 text-sm text-white disabled:opacity-50"
+      >
+        Add
+      </button>
+    </form>
+  );
+}
+
+/**
+ * Holdings view: totals, value history, positions with P&L, allocation and
+ * the transaction ledger. Clicking a ticker opens it on the dashboard.
+ */
+export function PortfolioPage({
+  onSelect,
+}: {
+  onSelect: (symbol: string) => void;
+}) {
+  const [summary, setSummary] = useState<PortfolioSummary | null>(null);
+  const [history, setHistory] = useState<ValuePoint[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [s, h, t] = await Promise.all([
+        getPortfolio(),
+        getPortfolioHistory(),
+        listTransactions(),
+      ]);
+      setSummary(s);
+      setHistory(h.points);
+      setTransactions(t);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load portfolio");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const onAdd = async (tx: TransactionInput) => {
+    try {
+      await addTransaction(tx);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+    }
+  };
+
+  const onDelete = async (id: string) => {
+    try {
+      await deleteTransaction(id);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete");
+    }
+  };
+
+  const totals = summary?.totals;
+  const open = summary?.positions.filter((p) => p.quantity > 0) ?? [];
+  const closed = summary?.positions.filter((p) => p.quantity === 0) ?? [];
+  const chartData = history.map((p) => ({
+    t: Date.parse(`${p.date}T12:00:00Z`),
+    y: p.value,
+  }));
+
+  return (
+    <div className="grid gap-6 md:gap-8">
+      <Card>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Portfolio</h2>
+          {loading && <span className="text-xs text-gray-500">Loading…</span>}
+        </div>
+        {error && <div className="mt-2 text-sm text-rose-700">{error}</div>}
+        {!!summary?.warnings.length && (
+          <ul className="mt-2 text-xs text-amber-700">
+            {summary.warnings.map((w) => (
+              <li key={w}>{w}</li>
+            ))}
+          </ul>
+        )}
+        <div className="mt-4 grid grid-cols-2 gap-4 md:grid-cols-5">
+          <Metric
+            label="Market value"
+            value={totals ? fmt.usd(totals.marketValue) : "—"}
+          />
+          <Metric
+            label="Cost basis"
+            value={totals ? fmt.usd(totals.costBasis) : "—"}
+          />
+          <Metric
+            label="Unrealized P&L"
+            value={signed(totals?.unrealizedPnl ?? null, fmt.usd)}
+          />
+          <Metric
+            label="Realized P&L"
+            value={signed(totals?.realizedPnl ?? null, fmt.usd)}
+          />
+          <Metric label="Fees" value={totals ? fmt.usd(totals.fees) : "—"} />
+        </div>
+        <div className="mt-6">
+          {chartData.length > 1 ? (
+            <PriceHistoryChart data={chartData} studies={false} />
+          ) : (
+            <div className="h-48 grid place-items-center text-sm text-gray-500">
+              No value history yet
+            </div>
+          )}
+        </div>
+      </Card>
+
+      <div className="grid gap-6 md:gap-8 md:grid-cols-3">
+        <Card className="md:col-span-2 overflow-x-auto">
+          <h3 className="mb-3 text-sm font-medium text-gray-900">Positions</h3>
+          <table className="w-full text-sm tabular-nums">
+            <thead className="text-xs text-gray-500">
+              <tr className="text-right">
+                <th className="py-1 text-left font-normal">Ticker</th>
+                <th className="font-normal">Qty</th>
+                <th className="font-normal">Avg cost</th>
+                <th className="font-normal">Last</th>
+                <th className="font-normal">Value</th>
+                <th className="font-normal">Unrealized</th>
+                <th className="font-normal">Realized</th>
+                <th className="font-normal">Weight</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...open, ...closed].map((p) => (
+                <tr
+                  key={p.ticker}
+                  className={
+                    "border-t border-gray-100 text-right " +
+                    (p.quantity === 0 ? "text-gray-400" : "text-gray-700")
+                  }
+                >
+                  <td className="py-1.5 text-left">
+                    <button
+                      className="font-medium text-gray-900 hover:underline"
+                      onClick={() => onSelect(p.ticker)}
+                      title={p.name ?? undefined}
+                    >
+                      {p.ticker}
+                    </button>
+                  </td>
+                  <td>{p.quantity}</td>
+                  <td>{p.avgCost != null ? fmt.usd(p.avgCost) : "—"}</td>
+                  <td>{p.lastPrice != null ? fmt.usd(p.lastPrice) : "—"}</td>
+                  <td>
+                    {p.marketValue != null ? fmt.usd(p.marketValue) : "—"}
+                  </td>
+                  <td>
+                    {signed(p.unrealizedPnl, fmt.usd)}
+                    {p.unrealizedPct != null && (
+                      <div className="text-xs">
+                        {signed(p.unrealizedPct, fmt.pct)}
+                      </div>
+                    )}
+                  </td>
+                  <td>{signed(p.realizedPnl, fmt.usd)}</td>
+                  <td>
+                    {p.weight != null ? `${(p.weight * 100).toFixed(1)}%` : "—"}
+                  </td>
+                </tr>
+              ))}
+              {!summary?.positions.length && (
+                <tr>
+                  <td colSpan={8} className="py-4 text-center text-gray-500">
+                    No positions yet. Add a transaction below.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </Card>
+
+        <Card className="space-y-6">
+          <AllocationBars
+            title="By ticker"
+            slices={summary?.allocation.byTicker ?? []}
+          />
+          <AllocationBars
+            title="By industry"
+            slices={summary?.allocation.byIndustry ?? []}
+          />
+        </Card>
+      </div>
+
+      <Card>
+        <OptimizerPanel holdings={open.map((p) => p.ticker)} />
+      </Card>
+
+      <Card>
+        <h3 className="mb-3 text-sm font-medium text-gray-900">Transactions</h3>
+        <TransactionForm onSubmit={onAdd} />
+        <table className="mt-4 w-full text-sm tabular-nums">
+          <thead className="text-xs text-gray-500">
+            <tr className="text-right">
+              <th className="py-1 text-left font-normal">Date</th>
+              <th className="text-left font-normal">Ticker</th>
+              <th className="text-left font-normal">Side</th>
+              <th className="font-normal">Qty</th>
+              <th className="font-normal">Price</th>
+              <th className="font-normal">Fees</th>
+              <th className="text-left font-normal pl-4">Note</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {[...transactions].reverse().map((t) => (
+              <tr
+                key={t.id}
+                className="border-t border-gray-100 text-right text-gray-700"
+              >
+                <td className="py-1.5 text-left">{t.date}</td>
+                <td className="text-left font-medium">{t.ticker}</td>
+                <td
+                  className={
+                    "text-left " +
+                    (t.side === "buy" ? "text-emerald-700" : "text-rose-700")
+                  }
+                >
+                  {t.side}
+                </td>
+                <td>{t.quantity}</td>
+                <td>{fmt.usd(t.price)}</td>
+                <td>{fmt.usd(t.fees)}</td>
+                <td className="pl-4 text-left text-gray-500">{t.note ?? ""}</td>
+                <td>
+                  <button
+                    className="text-xs text-gray-400 hover:text-rose-700"
+                    onClick={() => onDelete(t.id)}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Card>
+    </div>
+  );
+}
@@ -1,18 +1,109 @@
-import { useMemo, useState } from "react";
+import { Fragment, useMemo, useState, type ReactNode } from "react";
 import {
   ResponsiveContainer,
-  LineChart,
+  ComposedChart,
   Line,
+  Bar,
+  Cell,
   XAxis,
   YAxis,
   Tooltip,
   CartesianGrid,
+  ReferenceLine,
 } from "recharts";
+import {
+  ema,
+  heikinAshi,
+  macd,
+  rsi,
+  sma,
+} from "@stock-search/shared/indicators";
+import { alignCloses } from "@stock-search/shared/series";
+import type { Agg } from "@stock-search/shared/types";
+import { usePersistentState } from "../lib/usePersistentState";
+import { fmt } from "../lib/format";
 
 export type LinePoint = { t: number; y: number };
 
-const fmtNum = (n: number) =>
-  new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 }).format(n);
+/** Another symbol to overlay in compare mode. */
+export type CompareSeries = { symbol: string; data: LinePoint[] | Agg[] };
+
+export type Rebase = "pct" | "index";
+
+const COMPARE_COLORS = [
+  "#2563eb",
+  "#d97706",
+  "#7c3aed",
+  "#0891b2",
+  "#db2777",
+  "#65a30d",
+  "#dc2626",
+];
+
+export type ChartType = "line" | "ohlc" | "candles" | "heikinAshi";
+const CHART_TYPES: { key: ChartType; label: string }[] = [
+  { key: "line", label: "Line" },
+  { key: "ohlc", label: "OHLC" },
+  { key: "candles", label: "Candles" },
+  { key: "heikinAshi", label: "Heikin-Ashi" },
+];
+
+export type OverlayKey =
+  "sma20" | "sma50" | "sma200" | "ema20" | "ema50" | "ema200";
+const OVERLAYS: {
+  key: OverlayKey;
+  label: string;
+  kind: "sma" | "ema";
+  period: number;
+  color: string;
+}[] = [
+  { key: "sma20", label: "SMA 20", kind: "sma", period: 20, color: "#2563eb" },
+  { key: "sma50", label: "SMA 50", kind: "sma", period: 50, color: "#d97706" },
+  {
+    key: "sma200",
+    label: "SMA 200",
+    kind: "sma",
+    period: 200,
+    color: "#7c3aed",
+  },
+  { key: "ema20", label: "EMA 20", kind: "ema", period: 20, color: "#0891b2" },
+  { key: "ema50", label: "EMA 50", kind: "ema", period: 50, color: "#db2777" },
+  {
+    key: "ema200",
+    label: "EMA 200",
+    kind: "ema",
+    period: 200,
+    color: "#65a30d",
+  },
+];
+
+export type PaneKey = "rsi" | "macd";
+const PANES: { key: PaneKey; label: string }[] = [
+  { key: "rsi", label: "RSI" },
+  { key: "macd", label: "MACD" },
+];
+
+const NO_OVERLAYS: OverlayKey[] = [];
+const NO_PANES: PaneKey[] = [];
+
+// one row per bar; o/h/l collapse to the close for line-only data.
+// Indicator columns are computed from the raw closes, before any Heikin-Ashi transform.
+type Row = {
+  t: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+  rsi: number | null;
+  macd: number | null;
+  macdSignal: number | null;
+  macdHist: number | null;
+} & Record<OverlayKey, number | null>;
+
+const UP = "rgb(4 120 87)"; // emerald-700
+const DOWN = "rgb(190 18 60)"; // rose-700
+const INK = "rgb(17 24 39)";
 
 const fmtDateShort = (ts: number) =>
   new Date(ts).toLocaleDateString(undefined, {
@@ -27,6 +118,14 @@ const fmtDateWithYear = (ts: number) =>
     year: "2-digit",
   });
 
+const fmtDateLong = (ts: number) =>
+  new Date(ts).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
 type RangeKey = "1W" | "1M" | "3M" | "YTD" | "1Y" | "2Y";
 const RANGE_LABELS: RangeKey[] = ["1W", "1M", "3M", "YTD", "1Y", "2Y"];
 
@@ -54,31 +153,449 @@ function getCutoff(key: RangeKey): number | null {
   }
 }
 
+const hasOHLC = (d: LinePoint | Agg): d is Agg => "c" in d && "o" in d;
+
+function toRows(data: LinePoint[] | Agg[]): Row[] {
+  const base = data.map((d: LinePoint | Agg) =>
+    hasOHLC(d)
+      ? { t: d.t, o: d.o, h: d.h, l: d.l, c: d.c, v: Number(d.v) || 0 }
+      : { t: d.t, o: d.y, h: d.y, l: d.y, c: d.y, v: 0 }
+  );
+  const closes = base.map((b) => b.c);
+  const overlays = OVERLAYS.map((o) => ({
+    key: o.key,
+    series: (o.kind === "sma" ? sma : ema)(closes, o.period),
+  }));
+  const rsi14 = rsi(closes, 14);
+  const m = macd(closes);
+
+  return base.map((b, i) => {
+    const row = {
+      ...b,
+      rsi: rsi14[i],
+      macd: m.line[i],
+      macdSignal: m.signal[i],
+      macdHist: m.hist[i],
+    } as Row;
+    for (const o of overlays) row[o.key] = o.series[i];
+    return row;
+  });
+}
+
+const toggle = <T,>(list: T[], item: T) =>
+  list.includes(item) ? list.filter((x) => x !== item) : [...list, item];
+
+/** Props recharts hands a custom Bar shape (only the ones we use). */
+type ShapeProps = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: Row;
+};
+
+/**
+ * Draws one bar from the [low, high] range recharts already laid out:
+ * open/close are placed by interpolating inside that pixel span.
+ */
+function PriceBarShape({
+  x,
+  y,
+  width,
+  height,
+  payload: b,
+  kind,
+}: ShapeProps & { kind: Exclude<ChartType, "line"> }) {
+  const span = b.h - b.l;
+  const py = (v: number) => (span > 0 ? y + ((b.h - v) / span) * height : y);
+  const color = b.c >= b.o ? UP : DOWN;
+  const cx = x + width / 2;
+
+  if (kind === "ohlc") {
+    const tick = Math.max(2, width / 2);
+    return (
+      <g stroke={color} strokeWidth={1.25}>
+        <line x1={cx} x2={cx} y1={y} y2={y + height} />
+        <line x1={cx - tick} x2={cx} y1={py(b.o)} y2={py(b.o)} />
+        <line x1={cx} x2={cx + tick} y1={py(b.c)} y2={py(b.c)} />
+      </g>
+    );
+  }
+
+  const bodyTop = Math.min(py(b.o), py(b.c));
+  const bodyH = Math.max(1, Math.abs(py(b.o) - py(b.c)));
+  const bodyW = Math.max(1, width * 0.8);
+  return (
+    <g stroke={color}>
+      <line x1={cx} x2={cx} y1={y} y2={y + height} />
+      <rect
+        x={cx - bodyW / 2}
+        y={bodyTop}
+        width={bodyW}
+        height={bodyH}
+        fill={b.c >= b.o ? "white" : color}
+      />
+    </g>
+  );
+}
+
+function BarTooltip({
+  row,
+  prev,
+  ohlc,
+  overlays,
+  panes,
+}: {
+  row: Row;
+  prev: Row | undefined;
+  ohlc: boolean;
+  overlays: typeof OVERLAYS;
+  panes: PaneKey[];
+}) {
+  const change = prev ? row.c - prev.c : null;
+  const changePct = prev && prev.c ? (change! / prev.c) * 100 : null;
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white px-3 py-2 text-xs shadow-[0_4px_16px_rgba(0,0,0,0.08)]">
+      <div className="mb-1 font-medium text-gray-900">{fmtDateLong(row.t)}</div>
+      <div className="grid grid-cols-[auto_auto] gap-x-3 gap-y-0.5 tabular-nums">
+        {ohlc && (
+          <>
+            <span className="text-gray-500">Open</span>
+            <span className="text-right">{fmt.num(row.o)}</span>
+            <span className="text-gray-500">High</span>
+            <span className="text-right">{fmt.num(row.h)}</span>
+            <span className="text-gray-500">Low</span>
+            <span className="text-right">{fmt.num(row.l)}</span>
+          </>
+        )}
+        <span className="text-gray-500">Close</span>
+        <span className="text-right">{fmt.num(row.c)}</span>
+        {change != null && (
+          <>
+            <span className="text-gray-500">Change</span>
+            <span
+              className={
+                "text-right " +
+                (change >= 0 ? "text-emerald-700" : "text-rose-700")
+              }
+            >
+              {change >= 0 ? "+" : ""}
+              {fmt.num(change)}
+              {changePct != null && ` (${fmt.pct(changePct)})`}
+            </span>
+          </>
+        )}
+        {ohlc && (
+          <>
+            <span className="text-gray-500">Volume</span>
+            <span className="text-right">{fmt.compactNum(row.v)}</span>
+          </>
+        )}
+        {overlays.map((o) =>
+          row[o.key] == null ? null : (
+            <Fragment key={o.key}>
+              <span style={{ color: o.color }}>{o.label}</span>
+              <span className="text-right">{fmt.num(row[o.key]!)}</span>
+            </Fragment>
+          )
+        )}
+        {panes.includes("rsi") && row.rsi != null && (
+          <>
+            <span className="text-gray-500">RSI 14</span>
+            <span className="text-right">{row.rsi.toFixed(1)}</span>
+          </>
+        )}
+        {panes.includes("macd") && row.macd != null && (
+          <>
+            <span className="text-gray-500">MACD / signal</span>
+            <span className="text-right">
+              {row.macd.toFixed(2)} / {row.macdSignal?.toFixed(2) ?? "—"}
+            </span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const axisProps = {
+  stroke: "rgb(107 114 128)",
+  tick: { fontSize: 12 },
+  axisLine: { stroke: "rgb(209 213 219)" },
+  tickLine: { stroke: "rgb(209 213 219)" },
+};
+
+type CompareRow = {
+  t: number;
+  values: Record<string, number>; // rebased
+  closes: Record<string, number>;
+};
+
+/**
+ * Every series rebased at the first common bar of the window (0% or 100),
+ * on the dates all series share.
+ */
+function CompareChart({
+  series,
+  cutoff,
+  rebase,
+  height,
+  dateFmt,
+}: {
+  series: { symbol: string; color: string; rows: Row[] }[];
+  cutoff: number | null;
+  rebase: Rebase;
+  height: number;
+  dateFmt: (ts: number) => string;
+}) {
+  const rows = useMemo<CompareRow[]>(() => {
+    const inWindow = (r: Row[]) => {
+      if (!cutoff) return r;
+      const f = r.filter((d) => d.t >= cutoff);
+      return f.length ? f : r;
+    };
+    const aligned = alignCloses(
+      Object.fromEntries(series.map((s) => [s.symbol, inWindow(s.rows)]))
+    );
+    const base = Object.fromEntries(
+      series.map((s) => [s.symbol, aligned.closes[s.symbol][0]])
+    );
+    return aligned.t.map((t, i) => {
+      const values: Record<string, number> = {};
+      const closes: Record<string, number> = {};
+      for (const { symbol } of series) {
+        const c = aligned.closes[symbol][i];
+        const ratio = base[symbol] ? c / base[symbol] : 1;
+        closes[symbol] = c;
+        values[symbol] = rebase === "pct" ? (ratio - 1) * 100 : ratio * 100;
+      }
+      return { t, values, closes };
+    });
+  }, [series, cutoff, rebase]);
+
+  const fmtValue = (v: number) =>
+    rebase === "pct" ? fmt.pct(v) : v.toFixed(1);
+
+  const renderTooltip = ({
+    active,
+    payload,
+  }: {
+    active?: boolean;
+    payload?: ReadonlyArray<{ payload?: CompareRow }>;
+  }) => {
+    const row = payload?.[0]?.payload;
+    if (!active || !row) return null;
+    const sorted = [...series].sort(
+      (a, b) => row.values[b.symbol] - row.values[a.symbol]
+    );
+    return (
+      <div className="rounded-xl border border-gray-200 bg-white px-3 py-2 text-xs shadow-[0_4px_16px_rgba(0,0,0,0.08)]">
+        <div className="mb-1 font-medium text-gray-900">
+          {fmtDateLong(row.t)}
+        </div>
+        <div className="grid grid-cols-[auto_auto_auto] gap-x-3 gap-y-0.5 tabular-nums">
+          {sorted.map((s) => (
+            <Fragment key={s.symbol}>
+              <span style={{ color: s.color }}>{s.symbol}</span>
+              <span
+                className={
+                  "text-right " +
+                  (row.values[s.symbol] >= (rebase === "pct" ? 0 : 100)
+                    ? "text-emerald-700"
+                    : "text-rose-700")
+                }
+              >
+                {fmtValue(row.values[s.symbol])}
+              </span>
+              <span className="text-right text-gray-500">
+                {fmt.num(row.closes[s.symbol])}
+              </span>
+            </Fragment>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  if (rows.length < 2) {
+    return (
+      <div
+        className="grid place-items-center text-sm text-gray-500"
+        style={{ height }}
+      >
+        No common trading days in this range
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart
+          data={rows}
+          margin={{ top: 8, right: 8, bottom: 0, left: 0 }}
+        >
+          <CartesianGrid stroke="rgb(229 231 235)" strokeDasharray="3 3" />
+          <XAxis
+            dataKey="t"
+            tickFormatter={dateFmt}
+            {...axisProps}
+            minTickGap={24}
+          />
+          <YAxis
+            domain={["auto", "auto"]}
+            tickFormatter={fmtValue}
+            {...axisProps}
+            width={56}
+          />
+          <ReferenceLine
+            y={rebase === "pct" ? 0 : 100}
+            stroke="rgb(156 163 175)"
+          />
+          <Tooltip
+            content={renderTooltip}
+            cursor={{ stroke: "rgb(156 163 175)", strokeDasharray: "3 3" }}
+            isAnimationActive={false}
+          />
+          {series.map((s, i) => (
+            <Line
+              key={s.symbol}
+              type="monotone"
+              // function accessor: symbols like BRK.B would read as a path
+              dataKey={(r: CompareRow) => r.values[s.symbol]}
+              name={s.symbol}
+              stroke={s.color}
+              strokeWidth={i === 0 ? 2 : 1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function ToggleButton({
+  active,
+  onClick,
+  children,
+  color,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: ReactNode;
+  color?: string;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={
+        "rounded-lg px-2.5 py-1 text-xs border transition " +
+        (active
+          ? "bg-gray-900 text-white border-gray-900"
+          : "bg-white text-gray-700 border-gray-300 hover:bg-gray-100")
+      }
+    >
+      {color && (
+        <span
+          className="mr-1 inline-block h-2 w-2 rounded-full align-middle"
+          style={{ background: color }}
+        />
+      )}
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Price history with a range selector, moving-average overlays and RSI/MACD
+ * sub-panes. Given OHLCV bars it also offers OHLC / candlestick / Heikin-Ashi
+ * modes and a volume pane; plain `{t, y}` points render as a line. All panes
+ * share one x-axis and hover state; toggles persist in localStorage.
+ * Passing `compare` series switches to a rebased multi-symbol overlay.
+ */
 export function PriceHistoryChart({
   data,
   height = 256,
+  volumeHeight = 72,
+  paneHeight = 96,
+  studies = true,
+  symbol,
+  compare,
 }: {
-  data: LinePoint[];
+  data: LinePoint[] | Agg[];
   height?: number;
+  volumeHeight?: number;
+  paneHeight?: number;
+  /** Offer MA overlays and RSI/MACD panes (off for non-price series). */
+  studies?: boolean;
+  /** Label for `data` in compare mode. */
+  symbol?: string;
+  compare?: CompareSeries[];
 }) {
   const [range, setRange] = useState<RangeKey>("1Y");
+  const [chartType, setChartType] = usePersistentState<ChartType>(
+    "chart.type",
+    "line"
+  );
+  const [savedOverlays, setOverlayKeys] = usePersistentState<OverlayKey[]>(
+    "chart.overlays",
+    []
+  );
+  const [savedPanes, setPanes] = usePersistentState<PaneKey[]>(
+    "chart.panes",
+    []
+  );
+  const [rebase, setRebase] = usePersistentState<Rebase>("chart.rebase", "pct");
+  const [hover, setHover] = useState<number | null>(null);
+
+  const ohlc = useMemo(() => data.length > 0 && hasOHLC(data[0]), [data]);
+  const type: ChartType = ohlc ? chartType : "line";
+  const overlayKeys = studies ? savedOverlays : NO_OVERLAYS;
+  const panes = studies ? savedPanes : NO_PANES;
+  const overlays = OVERLAYS.filter((o) => overlayKeys.includes(o.key));
+
+  // Heikin-Ashi is path dependent, so derive it before range filtering
+  const rows = useMemo(() => {
+    const r = toRows(data);
+    return type === "heikinAshi" ? heikinAshi(r) : r;
+  }, [data, type]);
+
+  const comparing = !!compare?.length;
+  const compareSeries = useMemo(
+    () =>
+      comparing
+        ? [{ symbol: symbol ?? "This", data }, ...compare!].map((s, i) => ({
+            symbol: s.symbol,
+            color:
+              i === 0 ? INK : COMPARE_COLORS[(i - 1) % COMPARE_COLORS.length],
+            rows: toRows(s.data),
+          }))
+        : [],
+    [comparing, symbol, data, compare]
+  );
 
   const filtered = useMemo(() => {
-    if (!data?.length) return [];
+    if (!rows.length) return [];
     const cutoff = getCutoff(range);
-    if (!cutoff) return data;
-    const f = data.filter((d) => d.t >= cutoff);
+    if (!cutoff) return rows;
+    const f = rows.filter((d) => d.t >= cutoff);
     // Fallback: if nothing passed the filter (e.g., free tier limits), show whatever we got
-    return f.length ? f : data;
-  }, [data, range]);
+    return f.length ? f : rows;
+  }, [rows, range]);
 
   const { yMin, yMax } = useMemo(() => {
     if (!filtered || filtered.length < 2) return { yMin: 0, yMax: 1 };
     let minY = Infinity;
     let maxY = -Infinity;
     for (const d of filtered) {
-      if (d.y < minY) minY = d.y;
-      if (d.y > maxY) maxY = d.y;
+      const vals = [type === "line" ? d.c : d.l, type === "line" ? d.c : d.h];
+      for (const o of overlayKeys) if (d[o] != null) vals.push(d[o]!);
+      for (const v of vals) {
+        if (v < minY) minY = v;
+        if (v > maxY) maxY = v;
+      }
     }
     if (!isFinite(minY) || !isFinite(maxY)) return { yMin: 0, yMax: 1 };
     if (minY === maxY) {
@@ -87,75 +604,334 @@ export function PriceHistoryChart({
     }
     const pad = (maxY - minY) * 0.1;
     return { yMin: minY - pad, yMax: maxY + pad };
-  }, [filtered]);
+  }, [filtered, type, overlayKeys]);
 
   const longRange = range === "1Y" || range === "2Y";
   const dateFmt = longRange ? fmtDateWithYear : fmtDateShort;
+  const hovered = hover != null ? filtered[hover] : undefined;
 
-  return (
-    <div className="w-full" style={{ height }}>
-      <div className="mb-2 flex flex-wrap gap-1">
-        {RANGE_LABELS.map((rk) => (
-          <button
-            key={rk}
-            onClick={() => setRange(rk)}
-            className={
-              "rounded-lg px-2.5 py-1 text-xs border transition " +
-              (rk === range
-                ? "bg-gray-900 text-white border-gray-900"
-                : "bg-white text-gray-700 border-gray-300 hover:bg-gray-100")
-            }
-          >
-            {rk}
-          </button>
-        ))}
-      </div>
+  const onMove = (s: { activeTooltipIndex?: number | string | null }) => {
+    const i = Number(s.activeTooltipIndex);
+    setHover(Number.isInteger(i) && i >= 0 ? i : null);
+  };
 
+  const renderTooltip = ({ active }: { active?: boolean }) =>
+    active && hovered ? (
+      <BarTooltip
+        row={hovered}
+        prev={filtered[hover! - 1]}
+        ohlc={ohlc}
+        overlays={overlays}
+        panes={panes}
+      />
+    ) : null;
+
+  // only the bottom pane shows date ticks
+  const stack = [
+    ohlc ? "volume" : null,
+    ...PANES.filter((p) => panes.includes(p.key)).map((p) => p.key),
+  ].filter(Boolean);
+  const bottom = stack.at(-1) ?? "price";
+
+  // every pane uses a category axis: one slot per trading day, no weekend gaps
+  const xAxis = (pane: string) => (
+    <XAxis
+      dataKey="t"
+      tickFormatter={dateFmt}
+      {...axisProps}
+      hide={pane !== bottom}
+      minTickGap={24}
+    />
+  );
+
+  // sub-panes: same data, sync id and hover handling as the price pane
+  const subPane = (
+    pane: string,
+    h: number,
+    children: ReactNode,
+    cursor: object = { stroke: "rgb(156 163 175)", strokeDasharray: "3 3" }
+  ) => (
+    <div style={{ height: h }}>
       <ResponsiveContainer width="100%" height="100%">
-        <LineChart
+        <ComposedChart
           data={filtered}
-          margin={{ top: 8, right: 8, bottom: 0, left: 0 }}
+          syncId="price-history"
+          margin={{ top: 4, right: 8, bottom: 0, left: 0 }}
+          onMouseMove={onMove}
+          onMouseLeave={() => setHover(null)}
         >
-          <CartesianGrid stroke="rgb(229 231 235)" strokeDasharray="3 3" />
-          <XAxis
-            dataKey="t"
-            type="number"
-            domain={["dataMin", "dataMax"]}
-            tickFormatter={dateFmt}
-            stroke="rgb(107 114 128)"
-            tick={{ fontSize: 12 }}
-            axisLine={{ stroke: "rgb(209 213 219)" }}
-            tickLine={{ stroke: "rgb(209 213 219)" }}
-            minTickGap={24}
-          />
-          <YAxis
-            domain={[yMin, yMax]}
-            tickFormatter={fmtNum}
-            stroke="rgb(107 114 128)"
-            tick={{ fontSize: 12 }}
-            axisLine={{ stroke: "rgb(209 213 219)" }}
-            tickLine={{ stroke: "rgb(209 213 219)" }}
-            width={56}
-          />
-          <Tooltip
-            contentStyle={{
-              borderRadius: 12,
-              borderColor: "rgb(229 231 235)",
-              boxShadow: "0 4px 16px rgba(0,0,0,0.08)",
-            }}
-            labelFormatter={(ts) => dateFmt(Number(ts))}
-            formatter={(val: any) => [fmtNum(Number(val)), "Close"]}
-          />
-          <Line
-            type="monotone"
-            dataKey="y"
-            stroke="rgb(17 24 39)"
-            strokeWidth={2}
-            dot={false}
-            isAnimationActive={false}
-          />
-        </LineChart>
+          {xAxis(pane)}
+          <Tooltip content={() => null} cursor={cursor} />
+          {children}
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
+
+  return (
+    <div className="w-full">
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {RANGE_LABELS.map((rk) => (
+            <ToggleButton
+              key={rk}
+              active={rk === range}
+              onClick={() => setRange(rk)}
+            >
+              {rk}
+            </ToggleButton>
+          ))}
+        </div>
+        {comparing && (
+          <div className="flex flex-wrap gap-1">
+            <ToggleButton
+              active={rebase === "pct"}
+              onClick={() => setRebase("pct")}
+            >
+              0%
+            </ToggleButton>
+            <ToggleButton
+              active={rebase === "index"}
+              onClick={() => setRebase("index")}
+            >
+              = 100
+            </ToggleButton>
+          </div>
+        )}
+        {ohlc && !comparing && (
+          <div className="flex flex-wrap gap-1">
+            {CHART_TYPES.map(({ key, label }) => (
+              <ToggleButton
+                key={key}
+                active={key === type}
+                onClick={() => setChartType(key)}
+              >
+                {label}
+              </ToggleButton>
+            ))}
+          </div>
+        )}
+      </div>
+      {comparing && (
+        <CompareChart
+          series={compareSeries}
+          cutoff={getCutoff(range)}
+          rebase={rebase}
+          height={height}
+          dateFmt={dateFmt}
+        />
+      )}
+
+      {studies && !comparing && (
+        <div className="mb-2 flex flex-wrap gap-1">
+          {OVERLAYS.map((o) => (
+            <ToggleButton
+              key={o.key}
+              active={overlayKeys.includes(o.key)}
+              onClick={() => setOverlayKeys((ks) => toggle(ks, o.key))}
+              color={o.color}
+            >
+              {o.label}
+            </ToggleButton>
+          ))}
+          <span className="mx-1 border-l border-gray-200" />
+          {PANES.map((p) => (
+            <ToggleButton
+              key={p.key}
+              active={panes.includes(p.key)}
+              onClick={() => setPanes((ps) => toggle(ps, p.key))}
+            >
+              {p.label}
+            </ToggleButton>
+          ))}
+        </div>
+      )}
+
+      {!comparing && (
+        <>
+          <div style={{ height }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart
+                data={filtered}
+                syncId="price-history"
+                margin={{ top: 8, right: 8, bottom: 0, left: 0 }}
+                onMouseMove={onMove}
+                onMouseLeave={() => setHover(null)}
+              >
+                <CartesianGrid
+                  stroke="rgb(229 231 235)"
+                  strokeDasharray="3 3"
+                />
+                {xAxis("price")}
+                <YAxis
+                  domain={[yMin, yMax]}
+                  tickFormatter={fmt.num}
+                  {...axisProps}
+                  width={56}
+                />
+                <Tooltip
+                  content={renderTooltip}
+                  cursor={{
+                    stroke: "rgb(156 163 175)",
+                    strokeDasharray: "3 3",
+                  }}
+                  isAnimationActive={false}
+                />
+                {hovered && (
+                  <ReferenceLine
+                    y={hovered.c}
+                    stroke="rgb(156 163 175)"
+                    strokeDasharray="3 3"
+                    ifOverflow="hidden"
+                    label={{
+                      value: fmt.num(hovered.c),
+                      position: "right",
+                      fontSize: 11,
+                      fill: "rgb(75 85 99)",
+                    }}
+                  />
+                )}
+                {type === "line" ? (
+                  <Line
+                    type="monotone"
+                    dataKey="c"
+                    stroke={INK}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ) : (
+                  <Bar
+                    dataKey={(d: Row) => [d.l, d.h]}
+                    shape={(p: unknown) => (
+                      <PriceBarShape {...(p as ShapeProps)} kind={type} />
+                    )}
+                    isAnimationActive={false}
+                  />
+                )}
+                {overlays.map((o) => (
+                  <Line
+                    key={o.key}
+                    type="monotone"
+                    dataKey={o.key}
+                    stroke={o.color}
+                    strokeWidth={1.5}
+                    dot={false}
+                    connectNulls={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          {ohlc &&
+            subPane(
+              "volume",
+              volumeHeight,
+              <>
+                <YAxis
+                  tickFormatter={fmt.compactNum}
+                  {...axisProps}
+                  width={56}
+                  tickCount={3}
+                />
+                <Bar dataKey="v" isAnimationActive={false}>
+                  {filtered.map((b, i) => {
+                    const prev = filtered[i - 1];
+                    const up = prev ? b.c >= prev.c : b.c >= b.o;
+                    return (
+                      <Cell
+                        key={b.t}
+                        fill={
+                          up
+                            ? "rgba(4, 120, 87, 0.45)"
+                            : "rgba(190, 18, 60, 0.45)"
+                        }
+                      />
+                    );
+                  })}
+                </Bar>
+              </>,
+              { fill: "rgba(156, 163, 175, 0.15)" }
+            )}
+
+          {panes.includes("rsi") &&
+            subPane(
+              "rsi",
+              paneHeight,
+              <>
+                <CartesianGrid
+                  stroke="rgb(229 231 235)"
+                  strokeDasharray="3 3"
+                />
+                <YAxis
+                  domain={[0, 100]}
+                  ticks={[30, 70]}
+                  {...axisProps}
+                  width={56}
+                />
+                <ReferenceLine y={70} stroke={DOWN} strokeDasharray="4 4" />
+                <ReferenceLine y={30} stroke={UP} strokeDasharray="4 4" />
+                <Line
+                  type="monotone"
+                  dataKey="rsi"
+                  stroke="#7c3aed"
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </>
+            )}
+
+          {panes.includes("macd") &&
+            subPane(
+              "macd",
+              paneHeight,
+              <>
+                <CartesianGrid
+                  stroke="rgb(229 231 235)"
+                  strokeDasharray="3 3"
+                />
+                <YAxis
+                  tickFormatter={fmt.num}
+                  {...axisProps}
+                  width={56}
+                  tickCount={3}
+                />
+                <ReferenceLine y={0} stroke="rgb(209 213 219)" />
+                <Bar dataKey="macdHist" isAnimationActive={false}>
+                  {filtered.map((b) => (
+                    <Cell
+                      key={b.t}
+                      fill={
+                        (b.macdHist ?? 0) >= 0
+                          ? "rgba(4, 120, 87, 0.45)"
+                          : "rgba(190, 18, 60, 0.45)"
+                      }
+                    />
+                  ))}
+                </Bar>
+                <Line
+                  type="monotone"
+                  dataKey="macd"
+                  stroke="#2563eb"
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="macdSignal"
+                  stroke="#d97706"
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </>
+            )}
+        </>
+      )}
+    </div>
+  );
 }
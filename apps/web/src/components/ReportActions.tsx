@@ -0,0 +1,53 @@
+import { useState } from "react";
+import type { AIPayload, Analysis } from "@stock-search/shared/ai";
+import { downloadReport, type ReportFormat } from "../services/reports";
+
+const FORMATS: { id: ReportFormat; label: string }[] = [
+  { id: "md", label: "Markdown" },
+  { id: "html", label: "HTML" },
+  { id: "pdf", label: "PDF" },
+];
+
+/** Export the current analysis as a research report file. */
+export function ReportActions({
+  payload,
+  analysis,
+}: {
+  payload: AIPayload;
+  analysis?: Analysis | null;
+}) {
+  const [busy, setBusy] = useState<ReportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (format: ReportFormat) => {
+    setBusy(format);
+    setError(null);
+    const res = await downloadReport(format, payload, analysis);
+    if (!res.ok) setError(res.error);
+    setBusy(null);
+  };
+
+  const btn =
+    "rounded-md border border-slate-300 px-2 py-0.5 text-xs text-slate-700 hover:bg-slate-100 disabled:opacity-50";
+  return (
+    <span className="inline-flex items-center gap-1">
+      <span className="mr-1 text-xs text-slate-500">Export</span>
+      {FORMATS.map((f) => (
+        <button
+          key={f.id}
+          className={btn}
+          disabled={busy != null}
+          title={`Download a ${f.label} report`}
+          onClick={() => run(f.id)}
+        >
+          {busy === f.id ? "…" : f.label}
+        </button>
+      ))}
+      {error && (
+        <span className="ml-1 text-xs text-rose-600" title={error}>
+          Export failed
+        </span>
+      )}
+    </span>
+  );
+}
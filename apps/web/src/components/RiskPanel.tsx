@@ -0,0 +1,89 @@
+import type { ReactNode } from "react";
+import type { RiskMetrics } from "@stock-search/shared/risk";
+
+const pct = (n: number | null) => (n != null ? `${n.toFixed(2)}%` : "—");
+const ratio = (n: number | null) => (n != null ? n.toFixed(2) : "—");
+
+function Stat({
+  label,
+  value,
+  hint,
+}: {
+  label: string;
+  value: ReactNode;
+  hint?: ReactNode;
+}) {
+  return (
+    <div>
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-sm text-gray-900 tabular-nums">{value}</div>
+      {hint && <div className="text-xs text-gray-500">{hint}</div>}
+    </div>
+  );
+}
+
+/** Trailing-year risk metrics for the selected ticker. */
+export function RiskPanel({ risk }: { risk: RiskMetrics | null }) {
+  const dd = risk?.drawdown;
+  return (
+    <>
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-base md:text-lg font-semibold">Risk</h3>
+        {risk && (
+          <span className="text-xs text-gray-500">
+            {risk.lookbackDays} daily returns
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+        <Stat label="Volatility (20d)" value={pct(risk?.vol20d ?? null)} />
+        <Stat label="Volatility (60d)" value={pct(risk?.vol60d ?? null)} />
+        <Stat label="Volatility (1y)" value={pct(risk?.vol1y ?? null)} />
+        <Stat
+          label="Max drawdown (1y)"
+          value={
+            dd && dd.maxDrawdownPct < 0 ? (
+              <span className="text-rose-700">
+                {dd.maxDrawdownPct.toFixed(2)}%
+              </span>
+            ) : (
+              "—"
+            )
+          }
+          hint={dd?.peakDate && `${dd.peakDate} → ${dd.troughDate ?? "—"}`}
+        />
+        <Stat
+          label="Drawdown duration"
+          value={dd?.peakDate ? `${dd.durationDays} days` : "—"}
+          hint={
+            dd?.peakDate &&
+            (dd.recoveryDate
+              ? `Recovered ${dd.recoveryDate}`
+              : `Not recovered (${dd.currentDrawdownPct.toFixed(2)}%)`)
+          }
+        />
+        {(!risk || risk.benchmark) && (
+          <Stat
+            label={`Beta vs ${risk?.benchmark ?? "benchmark"}`}
+            value={ratio(risk?.beta ?? null)}
+            hint={
+              risk?.correlation != null &&
+              `Correlation ${risk.correlation.toFixed(2)}`
+            }
+          />
+        )}
+        <Stat label="Sharpe" value={ratio(risk?.sharpe ?? null)} />
+        <Stat label="Sortino" value={ratio(risk?.sortino ?? null)} />
+        <Stat label="Calmar" value={ratio(risk?.calmar ?? null)} />
+        <Stat
+          label="VaR / CVaR (95%, 1d)"
+          value={`${pct(risk?.var95 ?? null)} / ${pct(risk?.cvar95 ?? null)}`}
+        />
+        <Stat
+          label="VaR / CVaR (99%, 1d)"
+          value={`${pct(risk?.var99 ?? null)} / ${pct(risk?.cvar99 ?? null)}`}
+        />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,471 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Condition } from "@stock-search/shared/rules";
+import { rowsToCsv } from "@stock-search/shared/screener";
+import { Card } from "./Card";
+import { fmt } from "../lib/format";
+import { usePersistentState } from "../lib/usePersistentState";
+import {
+  getScreenerStatus,
+  importGroupedUniverse,
+  refreshScreener,
+  scanScreener,
+  setScreenerUniverse,
+  type ScreenerFilters,
+  type ScreenerRow,
+  type ScreenerStatus,
+  type SortField,
+} from "../services/screener";
+
+type RangeKey = Exclude<keyof ScreenerFilters, "conditions" | "mode">;
+
+/** Range inputs; `scale` converts what the user types into row units. */
+const RANGE_INPUTS: { key: RangeKey; label: string; scale?: number }[] = [
+  { key: "minPrice", label: "Min price" },
+  { key: "maxPrice", label: "Max price" },
+  { key: "minVolume", label: "Min volume" },
+  { key: "minAvgVolume", label: "Min avg vol (20d)" },
+  { key: "minChangePct", label: "Min change %" },
+  { key: "maxChangePct", label: "Max change %" },
+  { key: "minPos52", label: "Min 52w position %" },
+  { key: "maxPos52", label: "Max 52w position %" },
+  { key: "minMarketCap", label: "Min mkt cap ($B)", scale: 1e9 },
+  { key: "maxMarketCap", label: "Max mkt cap ($B)", scale: 1e9 },
+];
+
+/** Indicator screens, evaluated server-side on stored daily bars. */
+const PRESETS: Record<string, { label: string; condition: Condition }> = {
+  aboveSma200: {
+    label: "Close above SMA 200",
+    condition: {
+      left: { kind: "price" },
+      op: ">",
+      right: { kind: "sma", period: 200 },
+    },
+  },
+  aboveSma50: {
+    label: "Close above SMA 50",
+    condition: {
+      left: { kind: "price" },
+      op: ">",
+      right: { kind: "sma", period: 50 },
+    },
+  },
+  goldenCross: {
+    label: "SMA 50 crossed above SMA 200",
+    condition: {
+      left: { kind: "sma", period: 50 },
+      op: "crossesAbove",
+      right: { kind: "sma", period: 200 },
+    },
+  },
+  oversold: {
+    label: "RSI 14 below 30",
+    condition: {
+      left: { kind: "rsi", period: 14 },
+      op: "<",
+      right: { kind: "const", value: 30 },
+    },
+  },
+  overbought: {
+    label: "RSI 14 above 70",
+    condition: {
+      left: { kind: "rsi", period: 14 },
+      op: ">",
+      right: { kind: "const", value: 70 },
+    },
+  },
+  macdBull: {
+    label: "MACD crossed above signal",
+    condition: {
+      left: { kind: "macd", part: "line" },
+      op: "crossesAbove",
+      right: { kind: "macd", part: "signal" },
+    },
+  },
+};
+
+const COLUMNS: {
+  field: SortField;
+  label: string;
+  render: (r: ScreenerRow) => string;
+}[] = [
+  { field: "ticker", label: "Ticker", render: (r) => r.ticker },
+  {
+    field: "close",
+    label: "Close",
+    render: (r) => (r.close == null ? "—" : fmt.usd(r.close)),
+  },
+  {
+    field: "changePct",
+    label: "Change",
+    render: (r) => (r.changePct == null ? "—" : fmt.pct(r.changePct)),
+  },
+  {
+    field: "volume",
+    label: "Volume",
+    render: (r) => (r.volume == null ? "—" : fmt.compactNum(r.volume)),
+  },
+  {
+    field: "avgVolume20",
+    label: "Avg vol",
+    render: (r) =>
+      r.avgVolume20 == null ? "—" : fmt.compactNum(r.avgVolume20),
+  },
+  {
+    field: "pos52",
+    label: "52w pos",
+    render: (r) => (r.pos52 == null ? "—" : `${r.pos52.toFixed(0)}%`),
+  },
+  {
+    field: "marketCap",
+    label: "Mkt cap",
+    render: (r) => (r.marketCap == null ? "—" : fmt.usdCompact(r.marketCap)),
+  },
+];
+
+const input =
+  "rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm tabular-nums";
+const button =
+  "rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50";
+
+function download(name: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/csv" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function UniverseCard({
+  status,
+  onChanged,
+}: {
+  status: ScreenerStatus | null;
+  onChanged: () => void;
+}) {
+  const [text, setText] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = (fn: () => Promise<unknown>) => async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await fn();
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const tickers = text.split(/[\s,;]+/).filter(Boolean);
+
+  return (
+    <Card>
+      <h2 className="text-lg font-semibold text-gray-900">Screener</h2>
+      <p className="mt-1 mb-4 text-xs text-gray-500">
+        Scans run on locally stored data. Stale tickers are refreshed a batch at
+        a time, on request or in the background if the server enables it, to
+        stay within the rate limit.
+      </p>
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <textarea
+            className={input + " h-24 w-full font-mono uppercase"}
+            placeholder="Paste tickers (comma, space or one per line)"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          <div className="flex flex-wrap gap-2">
+            <button
+              className={button}
+              disabled={busy || !tickers.length}
+              onClick={run(() => setScreenerUniverse(tickers))}
+            >
+              Use {tickers.length || ""} tickers
+            </button>
+            <button
+              className={button}
+              disabled={busy}
+              onClick={run(importGroupedUniverse)}
+              title="All US stocks from the latest grouped daily bars"
+            >
+              Import all US stocks
+            </button>
+          </div>
+          {error && <div className="text-sm text-rose-700">{error}</div>}
+        </div>
+        <div className="space-y-1 text-sm text-gray-700">
+          {!status || !status.size ? (
+            <div className="text-gray-500">No universe yet.</div>
+          ) : (
+            <>
+              <div>
+                <span className="font-medium text-gray-900">
+                  {status.size.toLocaleString()}
+                </span>{" "}
+                tickers (
+                {status.source === "grouped" ? "grouped daily" : "imported"}
+                {status.updatedAt && `, ${fmt.time(status.updatedAt)}`})
+              </div>
+              <div>
+                {status.withHistory.toLocaleString()} with history ·{" "}
+                {status.stale.toLocaleString()} due for refresh
+                {status.refreshing
+                  ? " · refreshing…"
+                  : !status.scheduled && " · background refresh off"}
+              </div>
+              {status.lastRun && (
+                <div className="text-xs text-gray-500">
+                  Last refresh {fmt.time(status.lastRun.at)}:{" "}
+                  {status.lastRun.refreshed} updated
+                  {status.lastRun.error && ` (${status.lastRun.error})`}
+                </div>
+              )}
+              <button
+                className={button + " mt-2"}
+                disabled={busy || !status.stale}
+                onClick={run(() => refreshScreener())}
+              >
+                Refresh a batch now
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+/**
+ * Screener over a locally stored ticker universe. Clicking a result opens
+ * it on the dashboard.
+ */
+export function ScreenerPage({
+  onSelect,
+}: {
+  onSelect: (symbol: string) => void;
+}) {
+  const [status, setStatus] = useState<ScreenerStatus | null>(null);
+  const [ranges, setRanges] = usePersistentState<
+    Partial<Record<RangeKey, string>>
+  >("screener.ranges", {});
+  const [presets, setPresets] = usePersistentState<string[]>(
+    "screener.presets",
+    []
+  );
+  const [sort, setSort] = usePersistentState<SortField>(
+    "screener.sort",
+    "marketCap"
+  );
+  const [dir, setDir] = usePersistentState<"asc" | "desc">(
+    "screener.dir",
+    "desc"
+  );
+  const [result, setResult] = useState<{
+    total: number;
+    rows: ScreenerRow[];
+  } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(() => {
+    getScreenerStatus()
+      .then(setStatus)
+      .catch(() => setStatus(null));
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+    const id = setInterval(loadStatus, 30_000);
+    return () => clearInterval(id);
+  }, [loadStatus]);
+
+  const scan = async (by: SortField = sort, order: "asc" | "desc" = dir) => {
+    const filters: ScreenerFilters = {};
+    for (const { key, scale } of RANGE_INPUTS) {
+      const raw = ranges[key]?.trim();
+      if (raw) filters[key] = Number(raw) * (scale ?? 1);
+    }
+    const conditions = presets
+      .filter((p) => PRESETS[p])
+      .map((p) => PRESETS[p].condition);
+    if (conditions.length) filters.conditions = conditions;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setResult(
+        await scanScreener({ filters, sort: by, dir: order, limit: 500 })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Scan failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // re-sort server-side so the limit applies to the sorted set
+  const sortBy = (field: SortField) => {
+    const order =
+      field === sort
+        ? dir === "asc"
+          ? "desc"
+          : "asc"
+        : field === "ticker"
+          ? "asc"
+          : "desc";
+    setSort(field);
+    setDir(order);
+    if (result) scan(field, order);
+  };
+
+  return (
+    <div className="grid gap-6 md:gap-8">
+      <UniverseCard status={status} onChanged={loadStatus} />
+
+      <Card>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            scan();
+          }}
+        >
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+            {RANGE_INPUTS.map(({ key, label }) => (
+              <label key={key} className="text-xs text-gray-500">
+                {label}
+                <input
+                  className={input + " mt-1 w-full"}
+                  type="number"
+                  step="any"
+                  value={ranges[key] ?? ""}
+                  onChange={(e) =>
+                    setRanges({ ...ranges, [key]: e.target.value })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm text-gray-700">
+            {Object.entries(PRESETS).map(([key, p]) => (
+              <label key={key} className="inline-flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={presets.includes(key)}
+                  onChange={(e) =>
+                    setPresets(
+                      e.target.checked
+                        ? [...presets, key]
+                        : presets.filter((k) => k !== key)
+                    )
+                  }
+                />
+                {p.label}
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="submit"
+              disabled={loading}
+              className="rounded-lg bg-gray-900 px-3 py-1.5 text-sm text-white disabled:opacity-50"
+            >
+              {loading ? "Scanning…" : "Scan"}
+            </button>
+            <button
+              type="button"
+              className={button}
+              onClick={() => {
+                setRanges({});
+                setPresets([]);
+              }}
+            >
+              Clear
+            </button>
+            {result && (
+              <>
+                <span className="text-sm text-gray-500">
+                  {result.total.toLocaleString()} match
+                  {result.total === 1 ? "" : "es"}
+                  {result.total > result.rows.length &&
+                    `, showing ${result.rows.length}`}
+                </span>
+                <button
+                  type="button"
+                  className={button + " ml-auto"}
+                  disabled={!result.rows.length}
+                  onClick={() =>
+                    download(
+                      `screener-${new Date().toISOString().slice(0, 10)}.csv`,
+                      rowsToCsv(result.rows)
+                    )
+                  }
+                >
+                  Export CSV
+                </button>
+              </>
+            )}
+          </div>
+          {error && <div className="text-sm text-rose-700">{error}</div>}
+        </form>
+
+        {result && result.rows.length > 0 && (
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-sm tabular-nums">
+              <thead>
+                <tr className="border-b border-gray-200 text-xs text-gray-500">
+                  {COLUMNS.map((c) => (
+                    <th
+                      key={c.field}
+                      className={
+                        "cursor-pointer select-none py-2 font-medium hover:text-gray-900 " +
+                        (c.field === "ticker" ? "text-left" : "text-right")
+                      }
+                      onClick={() => sortBy(c.field)}
+                    >
+                      {c.label}
+                      {sort === c.field && (dir === "asc" ? " ▲" : " ▼")}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {result.rows.map((r) => (
+                  <tr
+                    key={r.ticker}
+                    className="cursor-pointer hover:bg-gray-50"
+                    onClick={() => onSelect(r.ticker)}
+                    title={r.name ?? undefined}
+                  >
+                    {COLUMNS.map((c) => (
+                      <td
+                        key={c.field}
+                        className={
+                          "py-1.5 " +
+                          (c.field === "ticker"
+                            ? "font-medium text-gray-900"
+                            : c.field === "changePct" && r.changePct != null
+                              ? r.changePct >= 0
+                                ? "text-right text-emerald-700"
+                                : "text-right text-rose-700"
+                              : "text-right text-gray-700")
+                        }
+                      >
+                        {c.render(r)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
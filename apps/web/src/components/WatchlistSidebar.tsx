@@ -0,0 +1,345 @@
+import { useCallback, useEffect, useState } from "react";
+import { ResponsiveContainer, LineChart, Line, YAxis } from "recharts";
+import { getAggregates, getPreviousDay } from "../services/polygon";
+import {
+  addSymbol,
+  createWatchlist,
+  deleteWatchlist,
+  listWatchlists,
+  removeSymbol,
+  reorderWatchlists,
+  updateWatchlist,
+  type Watchlist,
+} from "../services/watchlists";
+import { usePersistentState } from "../lib/usePersistentState";
+import { fmt } from "../lib/format";
+
+const iso = (d: Date) => d.toISOString().slice(0, 10);
+
+type RowQuote = {
+  price: number | null;
+  changePct: number | null;
+  spark: { t: number; c: number }[];
+};
+
+/** Last price from /prev; daily change and sparkline from ~1 month of daily bars. */
+async function loadQuote(symbol: string): Promise<RowQuote> {
+  const to = new Date();
+  const from = new Date(to);
+  from.setDate(to.getDate() - 45);
+  const [prev, aggs] = await Promise.allSettled([
+    getPreviousDay(symbol),
+    getAggregates(symbol, iso(from), iso(to)),
+  ]);
+
+  const bars = aggs.status === "fulfilled" ? (aggs.value.results ?? []) : [];
+  const prevBar = prev.status === "fulfilled" ? prev.value.bar : null;
+
+  const last = bars.at(-1);
+  const before = bars.at(-2);
+  const price = last?.c ?? prevBar?.c ?? null;
+  const changePct =
+    last && before
+      ? ((last.c - before.c) / before.c) * 100
+      : prevBar
+        ? ((prevBar.c - prevBar.o) / prevBar.o) * 100
+        : null;
+
+  return {
+    price,
+    changePct,
+    spark: bars.slice(-22).map((b) => ({ t: b.t, c: b.c })),
+  };
+}
+
+function Sparkline({ data, up }: { data: RowQuote["spark"]; up: boolean }) {
+  if (data.length < 2) return <div className="h-8 w-20" />;
+  return (
+    <div className="h-8 w-20">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <YAxis hide domain={["dataMin", "dataMax"]} />
+          <Line
+            type="monotone"
+            dataKey="c"
+            stroke={up ? "rgb(4 120 87)" : "rgb(190 18 60)"}
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function WatchRow({
+  symbol,
+  active,
+  onSelect,
+  onMove,
+  onRemove,
+}: {
+  symbol: string;
+  active: boolean;
+  onSelect: () => void;
+  onMove: (dir: -1 | 1) => void;
+  onRemove: () => void;
+}) {
+  const [quote, setQuote] = useState<RowQuote | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    loadQuote(symbol)
+      .then((q) => alive && setQuote(q))
+      .catch(
+        () => alive && setQuote({ price: null, changePct: null, spark: [] })
+      );
+    return () => {
+      alive = false;
+    };
+  }, [symbol]);
+
+  const up = (quote?.changePct ?? 0) >= 0;
+  return (
+    <li
+      className={
+        "group flex items-center gap-2 rounded-xl px-2 py-1.5 cursor-pointer transition " +
+        (active ? "bg-gray-900/5" : "hover:bg-gray-100")
+      }
+      onClick={onSelect}
+    >
+      <div className="min-w-0 flex-1">
+        <div className="text-sm font-medium text-gray-900">{symbol}</div>
+        <div className="text-xs tabular-nums text-gray-500">
+          {quote?.price != null ? fmt.usd(quote.price) : "—"}{" "}
+          {quote?.changePct != null && (
+            <span className={up ? "text-emerald-700" : "text-rose-700"}>
+              {fmt.pct(quote.changePct)}
+            </span>
+          )}
+        </div>
+      </div>
+      <Sparkline data={quote?.spark ?? []} up={up} />
+      <div
+        className="hidden group-hover:flex flex-col text-[10px] leading-none text-gray-400"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button className="hover:text-gray-900" onClick={() => onMove(-1)}>
+          ▲
+        </button>
+        <button className="hover:text-gray-900" onClick={() => onMove(1)}>
+          ▼
+        </button>
+        <button className="hover:text-rose-700" onClick={onRemove}>
+          ✕
+        </button>
+      </div>
+    </li>
+  );
+}
+
+const move = <T,>(list: T[], i: number, dir: -1 | 1) => {
+  const j = i + dir;
+  if (j < 0 || j >= list.length) return list;
+  const next = [...list];
+  [next[i], next[j]] = [next[j], next[i]];
+  return next;
+};
+
+/**
+ * Server-backed watchlists: pick a list, see each symbol's last price, daily
+ * change and a one-month sparkline, and manage lists and their order.
+ */
+export function WatchlistSidebar({
+  activeSymbol,
+  onSelect,
+}: {
+  activeSymbol: string | null;
+  onSelect: (symbol: string) => void;
+}) {
+  const [lists, setLists] = useState<Watchlist[]>([]);
+  const [activeId, setActiveId] = usePersistentState<string | null>(
+    "watchlists.active",
+    null
+  );
+  const [adding, setAdding] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const current = lists.find((l) => l.id === activeId) ?? lists[0] ?? null;
+
+  const run = useCallback(async (fn: () => Promise<void>) => {
+    setError(null);
+    try {
+      await fn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Watchlist error");
+    }
+  }, []);
+
+  useEffect(() => {
+    run(async () => setLists(await listWatchlists()));
+  }, [run]);
+
+  const replace = (wl: Watchlist) =>
+    setLists((ls) => ls.map((l) => (l.id === wl.id ? wl : l)));
+
+  const onCreate = () =>
+    run(async () => {
+      const name = window.prompt("New watchlist name");
+      if (!name?.trim()) return;
+      const wl = await createWatchlist(name.trim());
+      setLists((ls) => [...ls, wl]);
+      setActiveId(wl.id);
+    });
+
+  const onRename = () =>
+    run(async () => {
+      if (!current) return;
+      const name = window.prompt("Rename watchlist", current.name);
+      if (!name?.trim() || name.trim() === current.name) return;
+      replace(await updateWatchlist(current.id, { name: name.trim() }));
+    });
+
+  const onDelete = () =>
+    run(async () => {
+      if (!current || !window.confirm(`Delete “${current.name}”?`)) return;
+      await deleteWatchlist(current.id);
+      setLists((ls) => ls.filter((l) => l.id !== current.id));
+      setActiveId(null);
+    });
+
+  const onMoveList = (dir: -1 | 1) =>
+    run(async () => {
+      if (!current) return;
+      const i = lists.findIndex((l) => l.id === current.id);
+      const next = move(lists, i, dir);
+      if (next === lists) return;
+      setLists(next);
+      setLists(await reorderWatchlists(next.map((l) => l.id)));
+    });
+
+  const onAdd = (symbol: string) =>
+    run(async () => {
+      const sym = symbol.trim().toUpperCase();
+      if (!current || !sym) return;
+      replace(await addSymbol(current.id, sym));
+      setAdding("");
+    });
+
+  const onMoveSymbol = (i: number, dir: -1 | 1) =>
+    run(async () => {
+      if (!current) return;
+      const symbols = move(current.symbols, i, dir);
+      if (symbols === current.symbols) return;
+      replace({ ...current, symbols });
+      replace(await updateWatchlist(current.id, { symbols }));
+    });
+
+  const onRemove = (symbol: string) =>
+    run(async () => {
+      if (!current) return;
+      replace(await removeSymbol(current.id, symbol));
+    });
+
+  const btn =
+    "rounded-lg border border-gray-300 bg-white px-2 py-1 text-xs text-gray-700 hover:bg-gray-100 disabled:opacity-40";
+
+  return (
+    <div className="flex h-full flex-col gap-3">
+      <div className="flex items-center gap-1">
+        <select
+          className="min-w-0 flex-1 rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm"
+          value={current?.id ?? ""}
+          onChange={(e) => setActiveId(e.target.value)}
+          disabled={!lists.length}
+        >
+          {!lists.length && <option value="">No watchlists</option>}
+          {lists.map((l) => (
+            <option key={l.id} value={l.id}>
+              {l.name}
+            </option>
+          ))}
+        </select>
+        <button className={btn} onClick={onCreate} title="New watchlist">
+          +
+        </button>
+      </div>
+
+      {current && (
+        <div className="flex flex-wrap gap-1">
+          <button className={btn} onClick={onRename}>
+            Rename
+          </button>
+          <button
+            className={btn}
+            onClick={() => onMoveList(-1)}
+            title="Move list up"
+          >
+            ▲
+          </button>
+          <button
+            className={btn}
+            onClick={() => onMoveList(1)}
+            title="Move list down"
+          >
+            ▼
+          </button>
+          <button className={btn + " hover:text-rose-700"} onClick={onDelete}>
+            Delete
+          </button>
+        </div>
+      )}
+
+      {current && (
+        <form
+          className="flex gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onAdd(adding);
+          }}
+        >
+          <input
+            value={adding}
+            onChange={(e) => setAdding(e.target.value.toUpperCase())}
+            placeholder="Add symbol"
+            className="min-w-0 flex-1 rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm uppercase"
+          />
+          {activeSymbol && !current.symbols.includes(activeSymbol) && (
+            <button
+              type="button"
+              className={btn}
+              onClick={() => onAdd(activeSymbol)}
+              title={`Add ${activeSymbol}`}
+            >
+              + {activeSymbol}
+            </button>
+          )}
+        </form>
+      )}
+
+      {error && <div className="text-xs text-rose-700">{error}</div>}
+
+      <ul className="-mx-2 flex-1 overflow-y-auto">
+        {current?.symbols.map((s, i) => (
+          <WatchRow
+            key={s}
+            symbol={s}
+            active={s === activeSymbol}
+            onSelect={() => onSelect(s)}
+            onMove={(dir) => onMoveSymbol(i, dir)}
+            onRemove={() => onRemove(s)}
+          />
+        ))}
+        {current && !current.symbols.length && (
+          <li className="px-2 text-xs text-gray-500">No symbols yet.</li>
+        )}
+        {!current && (
+          <li className="px-2 text-xs text-gray-500">
+            Create a watchlist to track symbols.
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -1,56 +1,11 @@
-export type AINewsItem = {
-  id: string;
-  title: string;
-  published_utc?: string;
-  publisher?: string;
-  article_url?: string;
-};
+import type { RiskMetrics } from "@stock-search/shared/risk";
+import type {
+  AIIndicators,
+  AINewsItem,
+  AIPayload,
+} from "@stock-search/shared/ai";
 
-export type AIIndicators = {
-  lastClose: number | null;
-  sma20: number | null;
-  sma50: number | null;
-  sma200: number | null;
-  ema20: number | null;
-  ema50: number | null;
-  ema200: number | null;
-  macd: { line: number | null; signal: number | null; hist: number | null };
-  rsi14: number | null;
-};
-
-export type AIPayload = {
-  ticker: string;
-  asOf: string; // ISO timestamp (now)
-  price: {
-    last: number | null;
-    change: number | null;
-    changePct: number | null;
-    dayHigh: number | null;
-    dayLow: number | null;
-    prevClose: number | null;
-    volume: number | null;
-    currency?: string | null;
-  };
-  fundamentals: {
-    name?: string | null;
-    marketCap?: number | null;
-    exchange?: string | null;
-    industry?: string | null;
-    homepage?: string | null;
-  };
-  stats: {
-    high52w?: number | null;
-    low52w?: number | null;
-    return1y?: number | null; // percentage (e.g. 12.34)
-    avgVolume90d?: number | null;
-  };
-  indicators: AIIndicators;
-  series: {
-    timeframe: "daily";
-    points: Array<{ t: number; c: number }>;
-  };
-  news: AINewsItem[];
-};
+export type { AIIndicators, AINewsItem, AIPayload };
 
 /** Utility: round to given decimals if number, else null */
 function r(n: unknown, d = 4): number | null {
@@ -84,6 +39,7 @@ export function buildAIPayload(args: {
   oneYearReturn?: number | null;
   avgVolume?: number | null;
   indicators: AIIndicators | null;
+  risk?: RiskMetrics | null;
   chartData: Array<{ t: number; y: number }>;
   news: AINewsItem[] | null;
 }): AIPayload {
@@ -118,6 +74,20 @@ export function buildAIPayload(args: {
       low52w: r(args.yearStats?.low ?? null, 4),
       return1y: r(args.oneYearReturn ?? null, 4),
       avgVolume90d: r(args.avgVolume ?? null, 0),
+      vol20d: r(args.risk?.vol20d ?? null, 2),
+      vol60d: r(args.risk?.vol60d ?? null, 2),
+      vol1y: r(args.risk?.vol1y ?? null, 2),
+      maxDrawdown1y: r(args.risk?.drawdown.maxDrawdownPct ?? null, 2),
+      maxDrawdownDays: args.risk?.drawdown.durationDays ?? null,
+      currentDrawdown: r(args.risk?.drawdown.currentDrawdownPct ?? null, 2),
+      beta: r(args.risk?.beta ?? null, 3),
+      correlation: r(args.risk?.correlation ?? null, 3),
+      benchmark: args.risk?.benchmark ?? null,
+      sharpe: r(args.risk?.sharpe ?? null, 3),
+      sortino: r(args.risk?.sortino ?? null, 3),
+      calmar: r(args.risk?.calmar ?? null, 3),
+      var95: r(args.risk?.var95 ?? null, 2),
+      cvar95: r(args.risk?.cvar95 ?? null, 2),
     },
     indicators: {
       lastClose: r(args.indicators?.lastClose ?? null, 4),
@@ -133,6 +103,36 @@ export function buildAIPayload(args: {
         hist: r(args.indicators?.macd.hist ?? null, 4),
       },
       rsi14: r(args.indicators?.rsi14 ?? null, 4),
+      atr14: r(args.indicators?.atr14 ?? null, 4),
+      atrPct: r(args.indicators?.atrPct ?? null, 4),
+      bollinger: {
+        upper: r(args.indicators?.bollinger.upper ?? null, 4),
+        middle: r(args.indicators?.bollinger.middle ?? null, 4),
+        lower: r(args.indicators?.bollinger.lower ?? null, 4),
+        bandwidth: r(args.indicators?.bollinger.bandwidth ?? null, 4),
+        percentB: r(args.indicators?.bollinger.percentB ?? null, 4),
+      },
+      stochastic: {
+        k: r(args.indicators?.stochastic.k ?? null, 2),
+        d: r(args.indicators?.stochastic.d ?? null, 2),
+      },
+      adx: {
+        adx: r(args.indicators?.adx.adx ?? null, 2),
+        plusDI: r(args.indicators?.adx.plusDI ?? null, 2),
+        minusDI: r(args.indicators?.adx.minusDI ?? null, 2),
+      },
+      obv: r(args.indicators?.obv ?? null, 0),
+      obvChange20: r(args.indicators?.obvChange20 ?? null, 0),
+      mfi14: r(args.indicators?.mfi14 ?? null, 2),
+      vwap: {
+        anchored: r(args.indicators?.vwap.anchored ?? null, 4),
+        anchorDate: args.indicators?.vwap.anchorDate ?? null,
+      },
+      keltner: {
+        upper: r(args.indicators?.keltner.upper ?? null, 4),
+        middle: r(args.indicators?.keltner.middle ?? null, 4),
+        lower: r(args.indicators?.keltner.lower ?? null, 4),
+      },
     },
     series: {
       timeframe: "daily",
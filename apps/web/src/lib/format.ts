@@ -0,0 +1,28 @@
+// apps/web/src/lib/format.ts
+/** Display formatters shared by the dashboard and portfolio views. */
+export const fmt = {
+  num: (n: number) =>
+    new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 }).format(n),
+  usd: (n: number) =>
+    new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency: "USD",
+      maximumFractionDigits: 2,
+    }).format(n),
+  usdCompact: (n: number) =>
+    new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency: "USD",
+      notation: "compact",
+      maximumFractionDigits: 2,
+    }).format(n),
+  compactNum: (n: number) =>
+    new Intl.NumberFormat(undefined, {
+      notation: "compact",
+      maximumFractionDigits: 1,
+    }).format(n),
+  /** Signed percent; "—" when there is no value. */
+  pct: (n: number | null | undefined) =>
+    n == null ? "—" : `${n >= 0 ? "+" : ""}${n.toFixed(2)}%`,
+  time: (iso: string) => new Date(iso).toLocaleString(),
+};
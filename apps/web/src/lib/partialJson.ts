@@ -0,0 +1,180 @@
+// apps/web/src/lib/partialJson.ts
+/**
+ * Incremental JSON parser for text that arrives in pieces, such as a model's
+ * streamed reply. Each character is read once. Objects and arrays join the
+ * tree as soon as they open; strings, numbers and literals only once complete
+ * (a string at its closing quote, a number at the next delimiter), so the
+ * value so far never holds a half-written field. Text before the first `{`
+ * or `[` (a ```json fence, say) and after the root closes is ignored.
+ */
+
+type Frame =
+  | {
+      kind: "object";
+      value: Record<string, unknown>;
+      key: string | null;
+      expect: "key" | "colon" | "value" | "comma";
+    }
+  | { kind: "array"; value: unknown[]; expect: "value" | "comma" };
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+const LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+};
+const NUMBER_RE = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+export function createPartialJsonParser() {
+  let root: unknown = undefined;
+  const stack: Frame[] = [];
+  let done = false;
+  let error: string | null = null;
+  let changed = false;
+
+  // the token being read
+  let str: string | null = null;
+  let isKey = false;
+  let escape: string | null = null; // after "\": "" or "uXX..."
+  let literal = "";
+
+  const fail = (msg: string) => {
+    error = msg;
+  };
+
+  /** Attach a complete value (or a just-opened container) to its parent. */
+  const emit = (v: unknown) => {
+    changed = true;
+    const top = stack[stack.length - 1];
+    if (!top) root = v;
+    else if (top.kind === "object") {
+      top.value[top.key!] = v;
+      top.key = null;
+      top.expect = "comma";
+    } else {
+      top.value.push(v);
+      top.expect = "comma";
+    }
+  };
+
+  const expectsValue = () => {
+    const top = stack[stack.length - 1];
+    return top ? top.expect === "value" : root === undefined;
+  };
+
+  const close = (kind: Frame["kind"]) => {
+    const top = stack[stack.length - 1];
+    const ok =
+      top?.kind === kind &&
+      (top.expect === "comma" ||
+        (kind === "object" ? top.expect === "key" : top.expect === "value"));
+    if (!ok) return fail(`unexpected "${kind === "object" ? "}" : "]"}"`);
+    stack.pop();
+    if (!stack.length) done = true;
+  };
+
+  const endLiteral = () => {
+    const text = literal;
+    literal = "";
+    if (text in LITERALS) emit(LITERALS[text]);
+    else if (NUMBER_RE.test(text)) emit(Number(text));
+    else fail(`invalid literal "${text}"`);
+  };
+
+  const inString = (c: string) => {
+    if (escape !== null) {
+      if (escape === "" && c !== "u") {
+        if (!(c in ESCAPES)) return fail(`invalid escape "\\${c}"`);
+        str += ESCAPES[c];
+        escape = null;
+      } else {
+        escape += c;
+        if (escape.length === 5) {
+          const code = parseInt(escape.slice(1), 16);
+          if (!Number.isFinite(code)) return fail("invalid \\u escape");
+          str += String.fromCharCode(code);
+          escape = null;
+        }
+      }
+    } else if (c === "\\") escape = "";
+    else if (c !== '"') str += c;
+    else {
+      const s = str!;
+      str = null;
+      if (!isKey) return emit(s);
+      const top = stack[stack.length - 1] as Extract<Frame, { kind: "object" }>;
+      top.key = s;
+      top.expect = "colon";
+    }
+  };
+
+  const step = (c: string) => {
+    if (str !== null) return inString(c);
+    if (literal) {
+      if (/[\w.+-]/.test(c)) {
+        literal += c;
+        return;
+      }
+      endLiteral();
+      if (error) return;
+    }
+    if (c === " " || c === "\n" || c === "\r" || c === "\t") return;
+    // leading noise before the root
+    if (root === undefined && c !== "{" && c !== "[") return;
+
+    const top = stack[stack.length - 1];
+    if (c === "{" || c === "[") {
+      if (!expectsValue()) return fail(`unexpected "${c}"`);
+      const frame: Frame =
+        c === "{"
+          ? { kind: "object", value: {}, key: null, expect: "key" }
+          : { kind: "array", value: [], expect: "value" };
+      emit(frame.value);
+      stack.push(frame);
+    } else if (c === "}") close("object");
+    else if (c === "]") close("array");
+    else if (c === '"') {
+      isKey = top?.kind === "object" && top.expect === "key";
+      if (!isKey && !expectsValue()) return fail('unexpected "\\""');
+      str = "";
+    } else if (c === ":" && top?.kind === "object" && top.expect === "colon")
+      top.expect = "value";
+    else if (c === "," && top?.expect === "comma")
+      top.expect = top.kind === "object" ? "key" : "value";
+    else if (/[-\dtfn]/.test(c) && expectsValue()) literal = c;
+    else fail(`unexpected "${c}"`);
+  };
+
+  return {
+    /** Read more text; true if the value gained anything. */
+    push(text: string) {
+      changed = false;
+      for (const c of text) {
+        if (done || error) break;
+        step(c);
+      }
+      return changed;
+    },
+    /** The value so far; the same live object throughout, so copy to keep. */
+    get value() {
+      return root;
+    },
+    /** The root value has closed. */
+    get done() {
+      return done;
+    },
+    /** Why parsing stopped, for input that isn't JSON. */
+    get error() {
+      return error;
+    },
+  };
+}
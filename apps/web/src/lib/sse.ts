@@ -0,0 +1,81 @@
+// apps/web/src/lib/sse.ts
+/**
+ * Server-sent events over fetch (EventSource can't POST). Follows the
+ * event-stream format: CRLF, LF or CR line ends, multi-line `data:` joined
+ * with "\n", `:` comments ignored, and frames split anywhere across chunks.
+ */
+
+export type SSEEvent = { event: string; data: string; id?: string };
+
+/** Feed text as it arrives; `onEvent` fires once per complete frame. */
+export function createSSEParser(onEvent: (e: SSEEvent) => void) {
+  let buffer = "";
+  let event = "";
+  let data: string[] = [];
+  let id: string | undefined;
+
+  const dispatch = () => {
+    if (data.length)
+      onEvent({ event: event || "message", data: data.join("\n"), id });
+    event = "";
+    data = [];
+  };
+
+  const line = (l: string) => {
+    if (l === "") return dispatch();
+    if (l.startsWith(":")) return;
+    const colon = l.indexOf(":");
+    const field = colon < 0 ? l : l.slice(0, colon);
+    let value = colon < 0 ? "" : l.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+    else if (field === "id") id = value;
+  };
+
+  return {
+    push(text: string) {
+      buffer += text;
+      const re = /\r\n|\r|\n/g;
+      let start = 0;
+      let m: RegExpExecArray | null;
+      while ((m = re.exec(buffer))) {
+        // a trailing CR may be the first half of CRLF; wait for more
+        if (m[0] === "\r" && m.index === buffer.length - 1) break;
+        line(buffer.slice(start, m.index));
+        start = re.lastIndex;
+      }
+      buffer = buffer.slice(start);
+    },
+    /** The stream closed; an unterminated last frame is dropped, per spec. */
+    end() {
+      buffer = "";
+      event = "";
+      data = [];
+    },
+  };
+}
+
+/** Events from a response body, in order, until the stream closes. */
+export async function* readSSE(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const queue: SSEEvent[] = [];
+  const parser = createSSEParser((e) => queue.push(e));
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.push(decoder.decode(value, { stream: true }));
+      while (queue.length) yield queue.shift()!;
+    }
+    parser.push(decoder.decode());
+    parser.end();
+    while (queue.length) yield queue.shift()!;
+  } finally {
+    // the caller may stop early (return/break); release the connection
+    reader.cancel().catch(() => {});
+  }
+}
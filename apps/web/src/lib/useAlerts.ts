@@ -0,0 +1,62 @@
+// apps/web/src/lib/useAlerts.ts
+import { useCallback, useEffect, useState } from "react";
+import {
+  acknowledgeAlert,
+  listAlertEvents,
+  snoozeAlert,
+  subscribeAlerts,
+  type AlertEvent,
+} from "../services/alerts";
+
+/**
+ * Fired alerts kept in sync with the API: loaded once, then updated from the
+ * SSE stream. `latest` is the most recent alert pushed while the page is open.
+ */
+export function useAlerts() {
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [latest, setLatest] = useState<AlertEvent | null>(null);
+
+  const upsert = useCallback((e: AlertEvent) => {
+    setEvents((list) =>
+      list.some((x) => x.id === e.id)
+        ? list.map((x) => (x.id === e.id ? e : x))
+        : [e, ...list]
+    );
+    setLatest((cur) =>
+      e.status === "active" ? e : cur?.id === e.id ? null : cur
+    );
+  }, []);
+
+  useEffect(() => {
+    listAlertEvents()
+      .then((list) =>
+        // keep anything the stream delivered while the list was loading
+        setEvents((cur) => [
+          ...cur,
+          ...list.filter((e) => !cur.some((c) => c.id === e.id)),
+        ])
+      )
+      .catch(() => {});
+    return subscribeAlerts(upsert);
+  }, [upsert]);
+
+  const acknowledge = useCallback(
+    async (id: string) => upsert(await acknowledgeAlert(id)),
+    [upsert]
+  );
+  const snooze = useCallback(
+    async (id: string, minutes: number) =>
+      upsert(await snoozeAlert(id, minutes)),
+    [upsert]
+  );
+
+  const active = events.filter((e) => e.status === "active").length;
+  return {
+    events,
+    active,
+    latest,
+    dismissLatest: () => setLatest(null),
+    acknowledge,
+    snooze,
+  };
+}
@@ -0,0 +1,48 @@
+// apps/web/src/lib/useCompareSeries.ts
+import { useEffect, useMemo, useRef, useState } from "react";
+import { getAggregates, type Agg } from "../services/polygon";
+import type { CompareSeries } from "../components/PriceHistoryChart";
+
+const iso = (d: Date) => d.toISOString().slice(0, 10);
+
+/**
+ * Daily bars for each compare symbol over the same two-year window the
+ * dashboard loads, fetched once per symbol and kept for the session.
+ */
+export function useCompareSeries(symbols: string[], enabled: boolean) {
+  const [bars, setBars] = useState<Record<string, Agg[]>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const requested = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!enabled) return;
+    const to = new Date();
+    const from = new Date(to);
+    from.setDate(to.getDate() - 365 * 2);
+
+    for (const sym of symbols) {
+      if (requested.current.has(sym)) continue;
+      requested.current.add(sym);
+      getAggregates(sym, iso(from), iso(to))
+        .then((r) => {
+          if (r.results?.length) setBars((b) => ({ ...b, [sym]: r.results! }));
+          else setErrors((e) => ({ ...e, [sym]: r.error ?? "no data" }));
+        })
+        .catch(() => setErrors((e) => ({ ...e, [sym]: "request failed" })));
+    }
+  }, [symbols, enabled]);
+
+  const series = useMemo<CompareSeries[]>(
+    () =>
+      enabled
+        ? symbols
+            .filter((s) => bars[s]?.length)
+            .map((s) => ({ symbol: s, data: bars[s] }))
+        : [],
+    [symbols, enabled, bars]
+  );
+
+  const loading = enabled && symbols.some((s) => !bars[s] && !errors[s]);
+  return { series, errors, loading };
+}
@@ -0,0 +1,28 @@
+// apps/web/src/lib/usePersistentState.ts
+import { useEffect, useState } from "react";
+
+const PREFIX = "pq:";
+
+function read<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw == null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+/** `useState` backed by localStorage, so UI preferences survive reloads. */
+export function usePersistentState<T>(key: string, initial: T) {
+  const [value, setValue] = useState<T>(() => read(key, initial));
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(PREFIX + key, JSON.stringify(value));
+    } catch {
+      // storage full or disabled: keep the in-memory value
+    }
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}
@@ -1,70 +1,68 @@
 // apps/web/src/services/ai.ts
+import type { Analysis } from "@stock-search/shared/ai";
+import { parseAnalysis } from "@stock-search/shared/analysisSchema";
+import { createPartialJsonParser } from "../lib/partialJson";
+import { readSSE } from "../lib/sse";
+
 const API_BASE = "http://localhost:8787";
 
 // apps/web/src/services/ai.ts
 export type AIAnalysis = {
   ok: boolean;
-  source?: "mock" | "openai";
-  analysis?: {
-    ticker?: string;
-
-    stance: "bullish" | "bearish" | "neutral" | string;
-    confidence: number; // 0..1
-
-    summary: string; // short thesis
-    highlights: string[]; // key bullets
-
-    // NEW, all optional
-    rationale_long?: string[]; // multi-paragraph rationale, split into paragraphs
-    catalysts?: string[]; // upcoming events
-    scenarios?: {
-      // scenario analysis
-      bull?: { prob?: number; target?: string; drivers?: string[] };
-      base?: { prob?: number; target?: string; drivers?: string[] };
-      bear?: { prob?: number; target?: string; drivers?: string[] };
-    };
-    valuation?: {
-      // simple valuation snapshot
-      multiples?: { name: string; value: string; peer_range?: string }[];
-      notes?: string[];
-    };
-    playbook?: {
-      // how to act on it
-      entry?: string; // e.g., "accumulate near 195–198"
-      exits?: string[]; // profit targets
-      invalidation?: string; // where thesis breaks
-      position?: string; // position sizing / % risk
-      timeframe?: string; // short/mid/long
-    };
-    watchlist?: string[]; // “what to watch” signals
-
-    technical: {
-      supports: string[];
-      resistances: string[];
-      signals: { name: string; status: string }[];
-    };
-
-    actions: string[]; // high-impact actions
-    risks: string[]; // material risks
+  /** LLM provider that answered: "openai", "local" or "mock". */
+  source?: string;
+  analysis?: Analysis;
+  /** Id of the stored run, when the server kept it (see services/history). */
+  runId?: string | null;
+  model?: string;
+  promptVersion?: string;
+  error?: string;
+  /** "invalid_output": the analysis failed the schema; see `details`. */
+  code?: "invalid_output";
+  details?: string[];
+};
 
-    horizon: string;
-    asOf?: string;
+/**
+ * LLM provider, model and prompt version (e.g. "analyze-v2") to use; the
+ * server defaults otherwise.
+ */
+export type AnalyzeOptions = {
+  provider?: string;
+  model?: string;
+  prompt?: string;
+};
 
-    disclaimers: string[];
+function query(opts: AnalyzeOptions = {}) {
+  const q = new URLSearchParams();
+  if (opts.provider) q.set("provider", opts.provider);
+  if (opts.model) q.set("model", opts.model);
+  if (opts.prompt) q.set("prompt", opts.prompt);
+  const s = q.toString();
+  return s ? `?${s}` : "";
+}
 
-    // optional provenance / caveats
-    confidence_notes?: string[];
-    data_used?: string[]; // short lines summarizing what inputs were considered
-  };
-  error?: string;
-};
+/** Run the analysis through the shared schema; never trust it blindly. */
+function checked(res: AIAnalysis, raw: unknown): AIAnalysis {
+  const parsed = parseAnalysis(raw);
+  if (!parsed.ok)
+    return {
+      ok: false,
+      error: "AI returned an invalid analysis",
+      code: "invalid_output",
+      details: parsed.errors,
+    };
+  return { ...res, analysis: parsed.value };
+}
 
-export async function analyzeStock(payload: any): Promise<AIAnalysis> {
+export async function analyzeStock(
+  payload: any,
+  opts?: AnalyzeOptions
+): Promise<AIAnalysis> {
   const controller = new AbortController();
-  const t = setTimeout(() => controller.abort(), 20000); // 20s
+  const t = setTimeout(() => controller.abort(), 60000); // leaves room for repairs
 
   try {
-    const r = await fetch(`${API_BASE}/api/ai/analyze`, {
+    const r = await fetch(`${API_BASE}/api/ai/analyze${query(opts)}`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(payload),
@@ -82,10 +80,12 @@ export async function analyzeStock(payload: any): Promise<AIAnalysis> {
       return {
         ok: false,
         error: json?.error || `AI error ${r.status}`,
+        code: json?.code,
+        details: json?.details,
       };
     }
 
-    return json as AIAnalysis;
+    return checked(json as AIAnalysis, json.analysis);
   } catch (err: any) {
     const msg =
       err?.name === "AbortError"
@@ -97,62 +97,93 @@ export async function analyzeStock(payload: any): Promise<AIAnalysis> {
   }
 }
 
-// apps/web/src/services/ai.ts
+export type StreamHandlers = {
+  /** Raw text as it arrives. */
+  onDelta?: (t: string) => void;
+  /** The analysis so far, each time another field is complete. */
+  onPartial?: (analysis: Partial<Analysis>) => void;
+  /** The output failed the schema and the server is asking for a fix. */
+  onRepair?: (errors: string[], attempt: number) => void;
+};
+
+/** A copy of the streamed value, minus numbers the UI can't show yet. */
+function partialOf(value: unknown): Partial<Analysis> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const a = structuredClone(value) as Partial<Analysis>;
+  // "72%" and friends are only coerced by the schema at the end
+  if (typeof a.confidence !== "number" || a.confidence < 0 || a.confidence > 1)
+    delete a.confidence;
+  return a;
+}
+
+const parseData = (data: string) => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+/**
+ * Streamed analysis: fields reach `on.onPartial` as soon as each one is
+ * complete, and the result is the server-validated analysis from `done`.
+ */
 export async function analyzeStockStream(
   payload: any,
-  onDelta?: (t: string) => void
+  on: StreamHandlers = {},
+  opts?: AnalyzeOptions,
+  signal?: AbortSignal
 ): Promise<AIAnalysis> {
   try {
-    const r = await fetch(`${API_BASE}/api/ai/analyze/stream`, {
+    const r = await fetch(`${API_BASE}/api/ai/analyze/stream${query(opts)}`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(payload),
+      signal,
     });
+    // errors before the stream starts still arrive as an `error` event
+    if (!r.body) return { ok: false, error: `AI stream error ${r.status}` };
 
-    if (!r.ok || !r.body) {
-      return { ok: false, error: `AI stream error ${r.status}` };
-    }
-
-    // Read SSE lines
-    const reader = r.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
+    const parser = createPartialJsonParser();
     let finalJson = "";
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      buffer += decoder.decode(value, { stream: true });
-
-      // process complete SSE events
-      const events = buffer.split("\n\n");
-      buffer = events.pop() || "";
-      for (const evt of events) {
-        if (!evt.startsWith("event:")) continue;
-        const lines = evt.split("\n");
-        const ev = lines[0].replace("event: ", "").trim();
-        const data = lines[1]?.replace("data: ", "") ?? "";
-
-        if (ev === "chunk") {
-          const token = JSON.parse(data); // this is the raw text delta
-          onDelta?.(token);
-        } else if (ev === "done") {
-          finalJson = JSON.parse(data); // the full JSON string
-        } else if (ev === "error") {
-          return { ok: false, error: JSON.parse(data) };
+    let meta: Pick<AIAnalysis, "runId" | "source" | "model" | "promptVersion"> =
+      {};
+
+    for await (const { event, data } of readSSE(r.body)) {
+      const value = parseData(data);
+      if (event === "chunk") {
+        on.onDelta?.(value);
+        if (parser.push(value) && on.onPartial) {
+          const partial = partialOf(parser.value);
+          if (partial) on.onPartial(partial);
         }
+      } else if (event === "meta" || event === "saved") {
+        meta = { ...meta, ...value };
+      } else if (event === "repair") {
+        on.onRepair?.(value.errors ?? [], value.attempt);
+      } else if (event === "done") {
+        finalJson = value; // the full JSON string
+      } else if (event === "error") {
+        return typeof value === "string"
+          ? { ok: false, error: value }
+          : { ok: false, ...value };
       }
     }
 
-    // parse final JSON into AIAnalysis.analysis
-    let analysis: any = {};
-    try {
-      analysis = JSON.parse(finalJson);
-    } catch {
-      analysis = { summary: finalJson };
-    }
-    return { ok: true, source: "openai", analysis };
+    if (!finalJson)
+      return {
+        ok: false,
+        error: r.ok ? "AI stream ended early" : `AI stream error ${r.status}`,
+      };
+    // `done` carries the server-validated JSON (repaired if need be)
+    return checked({ ok: true, ...meta }, finalJson);
   } catch (err: any) {
-    return { ok: false, error: err?.message || "Network error" };
+    return {
+      ok: false,
+      error:
+        err?.name === "AbortError"
+          ? "AI request cancelled"
+          : err?.message || "Network error",
+    };
   }
 }
@@ -0,0 +1,67 @@
+// apps/web/src/services/alerts.ts
+import type {
+  AlertEvent,
+  AlertRule,
+  AlertRuleInput,
+} from "@stock-search/shared/alerts";
+import { API_BASE } from "./polygon";
+
+export type { AlertEvent, AlertRule, AlertRuleInput };
+
+async function call<T>(method: string, path: string, body?: unknown) {
+  const r = await fetch(`${API_BASE}/api/alerts${path}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (r.status === 204) return undefined as T;
+  const json = await r.json().catch(() => null);
+  if (!r.ok) {
+    const details = Array.isArray(json?.details)
+      ? `: ${json.details.join(", ")}`
+      : "";
+    throw new Error((json?.error || `Alerts error ${r.status}`) + details);
+  }
+  return json as T;
+}
+
+export const listAlertRules = () =>
+  call<{ rules: AlertRule[] }>("GET", "/rules").then((j) => j.rules);
+
+export const createAlertRule = (rule: AlertRuleInput) =>
+  call<AlertRule>("POST", "/rules", rule);
+
+export const updateAlertRule = (id: string, patch: Partial<AlertRuleInput>) =>
+  call<AlertRule>("PATCH", `/rules/${encodeURIComponent(id)}`, patch);
+
+export const deleteAlertRule = (id: string) =>
+  call<void>("DELETE", `/rules/${encodeURIComponent(id)}`);
+
+export const listAlertEvents = () =>
+  call<{ events: AlertEvent[] }>("GET", "/events").then((j) => j.events);
+
+export const acknowledgeAlert = (id: string) =>
+  call<AlertEvent>("POST", `/events/${encodeURIComponent(id)}/ack`);
+
+export const snoozeAlert = (id: string, minutes: number) =>
+  call<AlertEvent>("POST", `/events/${encodeURIComponent(id)}/snooze`, {
+    minutes,
+  });
+
+/**
+ * Subscribe to fired (`alert`) and changed (`update`) events. EventSource
+ * reconnects on its own; returns a function that closes the stream.
+ */
+export function subscribeAlerts(onEvent: (e: AlertEvent) => void) {
+  const es = new EventSource(`${API_BASE}/api/alerts/stream`);
+  const handle = (msg: MessageEvent<string>) => {
+    try {
+      onEvent(JSON.parse(msg.data) as AlertEvent);
+    } catch {
+      // ignore malformed frames
+    }
+  };
+  es.addEventListener("alert", handle);
+  es.addEventListener("update", handle);
+  return () => es.close();
+}
@@ -0,0 +1,41 @@
+// apps/web/src/services/backtest.ts
+import type {
+  BacktestConfig,
+  BacktestResult,
+  Strategy,
+} from "@stock-search/shared/backtest";
+import { API_BASE } from "./polygon";
+
+export type BacktestResponse =
+  | ({ ok: true; ticker: string; from: string; to: string } & BacktestResult)
+  | { ok: false; error: string; details?: string[] };
+
+export async function runBacktest(args: {
+  ticker: string;
+  from: string;
+  to: string;
+  strategy: Strategy;
+  config?: BacktestConfig;
+}): Promise<BacktestResponse> {
+  try {
+    const r = await fetch(`${API_BASE}/api/backtest`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(args),
+    });
+    const json = await r.json().catch(() => null);
+    if (!r.ok || !json?.ok) {
+      return {
+        ok: false,
+        error: json?.error || `Backtest error ${r.status}`,
+        details: json?.details,
+      };
+    }
+    return json as BacktestResponse;
+  } catch (err) {
+    return {
+      ok: false,
+      error: err instanceof Error ? err.message : "Network error",
+    };
+  }
+}
@@ -0,0 +1,75 @@
+// apps/web/src/services/chat.ts
+import type {
+  AIPayload,
+  Analysis,
+  ChatTranscript,
+  ChatTurn,
+} from "@stock-search/shared/ai";
+import { readSSE } from "../lib/sse";
+import { API_BASE } from "./polygon";
+
+const url = (ticker: string) =>
+  `${API_BASE}/api/ai/chat/${encodeURIComponent(ticker.toUpperCase())}`;
+
+export async function getChat(ticker: string): Promise<ChatTranscript> {
+  const r = await fetch(url(ticker));
+  const json = await r.json().catch(() => null);
+  if (!r.ok) throw new Error(json?.error || `Chat error ${r.status}`);
+  return json as ChatTranscript;
+}
+
+export async function clearChat(ticker: string) {
+  const r = await fetch(url(ticker), { method: "DELETE" });
+  if (!r.ok) throw new Error(`Chat error ${r.status}`);
+}
+
+export type ChatMessageInput = {
+  message: string;
+  /** Send with the first question and whenever the analysis changes. */
+  payload?: AIPayload;
+  analysis?: Analysis | null;
+  runId?: string | null;
+};
+
+/**
+ * Ask a follow-up question; the reply streams through `onDelta` and the
+ * stored assistant turn is returned once complete.
+ */
+export async function sendChat(
+  ticker: string,
+  input: ChatMessageInput,
+  onDelta?: (t: string) => void,
+  signal?: AbortSignal
+): Promise<{ ok: true; turn: ChatTurn } | { ok: false; error: string }> {
+  try {
+    const r = await fetch(url(ticker), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+      signal,
+    });
+    // errors before the stream starts still arrive as an `error` event
+    if (!r.body) return { ok: false, error: `Chat error ${r.status}` };
+
+    for await (const { event, data } of readSSE(r.body)) {
+      const value = JSON.parse(data);
+      if (event === "chunk") onDelta?.(value);
+      else if (event === "done") return { ok: true, turn: value };
+      else if (event === "error") {
+        const e = typeof value === "string" ? { error: value } : value;
+        const details = e?.details?.length ? `: ${e.details[0]}` : "";
+        return { ok: false, error: `${e?.error ?? "Chat failed"}${details}` };
+      }
+    }
+    return {
+      ok: false,
+      error: r.ok ? "Chat stream ended early" : `Chat error ${r.status}`,
+    };
+  } catch (err) {
+    const e = err as Error;
+    return {
+      ok: false,
+      error: e.name === "AbortError" ? "Stopped" : e.message || "Network error",
+    };
+  }
+}
@@ -0,0 +1,38 @@
+// apps/web/src/services/correlation.ts
+import type { CorrelationMatrix } from "@stock-search/shared/correlation";
+import { API_BASE } from "./polygon";
+
+export type CorrelationResponse = CorrelationMatrix & {
+  from: string;
+  to: string;
+  days: number;
+  missing: { ticker: string; error: string }[];
+};
+
+export type RollingCorrelation = {
+  tickers: [string, string];
+  window: number;
+  points: { date: string; value: number | null }[];
+};
+
+async function get<T>(path: string, params: Record<string, string>) {
+  const qs = new URLSearchParams(params).toString();
+  const r = await fetch(`${API_BASE}/api/correlation${path}?${qs}`);
+  const json = await r.json().catch(() => null);
+  if (!r.ok) throw new Error(json?.error || `Correlation error ${r.status}`);
+  return json as T;
+}
+
+export const getCorrelation = (tickers: string[], from: string) =>
+  get<CorrelationResponse>("", { tickers: tickers.join(","), from });
+
+export const getRollingCorrelation = (
+  pair: [string, string],
+  window: number,
+  from: string
+) =>
+  get<RollingCorrelation>("/rolling", {
+    tickers: pair.join(","),
+    window: String(window),
+    from,
+  });
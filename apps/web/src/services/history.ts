@@ -0,0 +1,34 @@
+// apps/web/src/services/history.ts
+import type {
+  AnalysisDiff,
+  AnalysisRun,
+  AnalysisRunSummary,
+} from "@stock-search/shared/ai";
+import { API_BASE } from "./polygon";
+
+async function call<T>(method: string, path: string) {
+  const r = await fetch(`${API_BASE}/api/ai/history${path}`, { method });
+  const json = await r.json().catch(() => null);
+  if (!r.ok) throw new Error(json?.error || `History error ${r.status}`);
+  return json as T;
+}
+
+const t = (ticker: string) => encodeURIComponent(ticker.toUpperCase());
+
+export const listRuns = (ticker: string, limit = 50) =>
+  call<{ runs: AnalysisRunSummary[] }>(
+    "GET",
+    `/${t(ticker)}?limit=${limit}`
+  ).then((j) => j.runs);
+
+export const getRun = (ticker: string, id: string) =>
+  call<AnalysisRun>("GET", `/${t(ticker)}/${encodeURIComponent(id)}`);
+
+export const diffRuns = (ticker: string, from: string, to: string) =>
+  call<AnalysisDiff>(
+    "GET",
+    `/${t(ticker)}/diff?${new URLSearchParams({ from, to })}`
+  );
+
+export const deleteRun = (ticker: string, id: string) =>
+  call<{ ok: true }>("DELETE", `/${t(ticker)}/${encodeURIComponent(id)}`);
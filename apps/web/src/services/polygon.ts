@@ -1,28 +1,30 @@
 // apps/web/src/services/polygon.ts
-export type Agg = {
-  t: number;
-  o: number;
-  h: number;
-  l: number;
-  c: number;
-  v: number;
+import type {
+  NewsItem,
+  PrevClose,
+  TickerDetails,
+} from "@stock-search/shared/market";
+import type { Agg } from "@stock-search/shared/types";
+
+export type { Agg, NewsItem, PrevClose, TickerDetails };
+
+type DateRange = { from: string; to: string };
+
+/** Describes what the server's bar store had / fetched for a request. */
+export type BarStoreMeta = {
+  coverage: DateRange[];
+  missing: DateRange[];
+  gaps: Array<DateRange & { days: number }>;
+  fetched: DateRange[];
+  lastRefresh: string | null;
+  errors: Array<DateRange & { status: number; error: string }>;
 };
-export type TickerDetails = {
-  name?: string;
+export type AggregatesResponse = {
   ticker?: string;
-  market_cap?: number;
-  currency_name?: string;
-  primary_exchange?: string;
-  industry?: string;
-  homepage_url?: string;
-  branding_logo?: string;
-};
-export type NewsItem = {
-  id: string;
-  title: string;
-  publisher?: string;
-  published_utc?: string;
-  article_url?: string;
+  resultsCount?: number;
+  results?: Agg[];
+  store?: BarStoreMeta;
+  error?: string;
 };
 
 export const API_BASE = "http://localhost:8787";
@@ -38,7 +40,11 @@ const API = (
   return fetch(API_BASE + path + q).then((r) => r.json());
 };
 
-export async function getAggregates(ticker: string, from: string, to: string) {
+export async function getAggregates(
+  ticker: string,
+  from: string,
+  to: string
+): Promise<AggregatesResponse> {
   return API("/api/stocks/aggregates", {
     ticker,
     from,
@@ -49,37 +55,16 @@ export async function getAggregates(ticker: string, from: string, to: string) {
     limit: 5000,
   });
 }
-export async function getPreviousDay(ticker: string) {
+export async function getPreviousDay(ticker: string): Promise<PrevClose> {
   return API("/api/stocks/prev", { ticker });
 }
-export async function getDetails(ticker: string) {
-  return API("/api/stocks/details", { ticker });
-}
-export async function getDetailsNormalized(ticker: string) {
-  const raw = await getDetails(ticker);
-  const r = raw?.results ?? raw;
-  return {
-    name: r?.name,
-    ticker: r?.ticker,
-    market_cap: r?.market_cap,
-    currency_name: r?.currency_name,
-    primary_exchange: r?.primary_exchange ?? r?.primary_exchange_symbol,
-    industry: r?.industry ?? r?.sic_description,
-    homepage_url: r?.homepage_url,
-    branding_logo: r?.branding?.logo_url,
-  } as TickerDetails;
-}
-export async function getNews(ticker?: string) {
-  return API("/api/stocks/news", { ticker: ticker ?? "", limit: 10 });
+export async function getDetails(
+  ticker: string
+): Promise<TickerDetails | null> {
+  const r = await API("/api/stocks/details", { ticker });
+  return r?.error ? null : r;
 }
-export async function getNewsNormalized(ticker?: string) {
-  const raw = await getNews(ticker);
-  const arr = raw?.results ?? [];
-  return arr.map((n: any) => ({
-    id: String(n.id ?? n.uuid ?? crypto.randomUUID()),
-    title: n.title,
-    publisher: n.publisher?.name ?? n.source,
-    published_utc: n.published_utc,
-    article_url: n.article_url ?? n.url,
-  })) as NewsItem[];
+export async function getNews(ticker?: string): Promise<NewsItem[]> {
+  const r = await API("/api/stocks/news", { ticker: ticker ?? "", limit: 10 });
+  return r?.results ?? [];
 }
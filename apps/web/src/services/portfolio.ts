@@ -0,0 +1,89 @@
+// apps/web/src/services/portfolio.ts
+import type {
+  Position,
+  RealizedSale,
+  Transaction,
+  TransactionInput,
+  ValuePoint,
+} from "@stock-search/shared/portfolio";
+import type {
+  OptimizeConstraints,
+  OptimizeResult,
+} from "@stock-search/shared/optimize";
+import { API_BASE } from "./polygon";
+
+export type { OptimizeConstraints, Transaction, TransactionInput, ValuePoint };
+
+export type PricedPosition = Position & {
+  name: string | null;
+  industry: string | null;
+  lastPrice: number | null;
+  lastDate: string | null;
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPct: number | null;
+  weight: number | null;
+};
+
+export type AllocationSlice = { key: string; value: number; weight: number };
+
+export type PortfolioSummary = {
+  positions: PricedPosition[];
+  totals: {
+    marketValue: number;
+    costBasis: number;
+    unrealizedPnl: number;
+    realizedPnl: number;
+    fees: number;
+  };
+  allocation: { byTicker: AllocationSlice[]; byIndustry: AllocationSlice[] };
+  sales: RealizedSale[];
+  warnings: string[];
+};
+
+async function call<T>(method: string, path: string, body?: unknown) {
+  const r = await fetch(`${API_BASE}/api/portfolio${path}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (r.status === 204) return undefined as T;
+  const json = await r.json().catch(() => null);
+  if (!r.ok) {
+    const details = Array.isArray(json?.details)
+      ? `: ${json.details.join(", ")}`
+      : "";
+    throw new Error((json?.error || `Portfolio error ${r.status}`) + details);
+  }
+  return json as T;
+}
+
+export const getPortfolio = () => call<PortfolioSummary>("GET", "");
+
+export const getPortfolioHistory = () =>
+  call<{ points: ValuePoint[]; warnings: string[] }>("GET", "/history");
+
+export const listTransactions = () =>
+  call<{ transactions: Transaction[] }>("GET", "/transactions").then(
+    (j) => j.transactions
+  );
+
+export const addTransaction = (tx: TransactionInput) =>
+  call<Transaction>("POST", "/transactions", tx);
+
+export const updateTransaction = (id: string, tx: TransactionInput) =>
+  call<Transaction>("PUT", `/transactions/${encodeURIComponent(id)}`, tx);
+
+export const deleteTransaction = (id: string) =>
+  call<void>("DELETE", `/transactions/${encodeURIComponent(id)}`);
+
+export type OptimizeRequest = {
+  tickers?: string[];
+  from?: string;
+  constraints: OptimizeConstraints;
+};
+
+export type OptimizeResponse = OptimizeResult & { from: string; to: string };
+
+export const optimizePortfolio = (req: OptimizeRequest) =>
+  call<OptimizeResponse>("POST", "/optimize", req);
@@ -0,0 +1,45 @@
+// apps/web/src/services/reports.ts
+import type { AIPayload, Analysis } from "@stock-search/shared/ai";
+import { API_BASE } from "./polygon";
+
+export type ReportFormat = "md" | "html" | "pdf";
+
+/** Filename from `attachment; filename="..."`, if the server sent one. */
+function filename(header: string | null) {
+  return header ? /filename="?([^";]+)"?/i.exec(header)?.[1] : undefined;
+}
+
+/**
+ * Render a research report on the server and save it via a temporary link.
+ */
+export async function downloadReport(
+  format: ReportFormat,
+  payload: AIPayload,
+  analysis?: Analysis | null
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  try {
+    const r = await fetch(`${API_BASE}/api/reports?format=${format}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ payload, analysis }),
+    });
+    if (!r.ok) {
+      const json = await r.json().catch(() => null);
+      return { ok: false, error: json?.error || `Report error ${r.status}` };
+    }
+    const url = URL.createObjectURL(await r.blob());
+    const a = document.createElement("a");
+    a.href = url;
+    a.download =
+      filename(r.headers.get("Content-Disposition")) ??
+      `${payload.ticker}-report.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+    return { ok: true };
+  } catch (err) {
+    return {
+      ok: false,
+      error: err instanceof Error ? err.message : "Network error",
+    };
+  }
+}
@@ -0,0 +1,58 @@
+// apps/web/src/services/screener.ts
+import type {
+  ScreenerFilters,
+  ScreenerRow,
+  SortField,
+} from "@stock-search/shared/screener";
+import { API_BASE } from "./polygon";
+
+export type { ScreenerFilters, ScreenerRow, SortField };
+
+export type ScreenerStatus = {
+  source: "import" | "grouped" | null;
+  updatedAt: string | null;
+  size: number;
+  withHistory: number;
+  stale: number;
+  /** Background refresh is on (SCREENER_INTERVAL_MS set on the server). */
+  scheduled: boolean;
+  refreshing: boolean;
+  lastRun: { at: string; refreshed: number; error?: string } | null;
+};
+
+export type ScanRequest = {
+  filters: ScreenerFilters;
+  sort: SortField;
+  dir: "asc" | "desc";
+  limit?: number;
+};
+
+async function call<T>(method: string, path: string, body?: unknown) {
+  const r = await fetch(`${API_BASE}/api/screener${path}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const json = await r.json().catch(() => null);
+  if (!r.ok) {
+    const details = Array.isArray(json?.details)
+      ? `: ${json.details.join(", ")}`
+      : "";
+    throw new Error((json?.error || `Screener error ${r.status}`) + details);
+  }
+  return json as T;
+}
+
+export const getScreenerStatus = () => call<ScreenerStatus>("GET", "/status");
+
+export const setScreenerUniverse = (tickers: string[]) =>
+  call<unknown>("PUT", "/universe", { tickers });
+
+export const importGroupedUniverse = () =>
+  call<unknown>("POST", "/universe/grouped");
+
+export const refreshScreener = (batch?: number) =>
+  call<{ refreshed: number }>("POST", "/refresh", { batch });
+
+export const scanScreener = (req: ScanRequest) =>
+  call<{ total: number; rows: ScreenerRow[] }>("POST", "/scan", req);
@@ -0,0 +1,50 @@
+// apps/web/src/services/watchlists.ts
+import { API_BASE } from "./polygon";
+
+export type Watchlist = {
+  id: string;
+  name: string;
+  symbols: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+async function call<T>(method: string, path: string, body?: unknown) {
+  const r = await fetch(`${API_BASE}/api/watchlists${path}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (r.status === 204) return undefined as T;
+  const json = await r.json().catch(() => null);
+  if (!r.ok) throw new Error(json?.error || `Watchlist error ${r.status}`);
+  return json as T;
+}
+
+export const listWatchlists = () =>
+  call<{ watchlists: Watchlist[] }>("GET", "").then((j) => j.watchlists);
+
+export const createWatchlist = (name: string, symbols: string[] = []) =>
+  call<Watchlist>("POST", "", { name, symbols });
+
+export const updateWatchlist = (
+  id: string,
+  patch: { name?: string; symbols?: string[] }
+) => call<Watchlist>("PATCH", `/${encodeURIComponent(id)}`, patch);
+
+export const deleteWatchlist = (id: string) =>
+  call<void>("DELETE", `/${encodeURIComponent(id)}`);
+
+export const reorderWatchlists = (ids: string[]) =>
+  call<{ watchlists: Watchlist[] }>("PUT", "/order", { ids }).then(
+    (j) => j.watchlists
+  );
+
+export const addSymbol = (id: string, symbol: string) =>
+  call<Watchlist>("POST", `/${encodeURIComponent(id)}/symbols`, { symbol });
+
+export const removeSymbol = (id: string, symbol: string) =>
+  call<Watchlist>(
+    "DELETE",
+    `/${encodeURIComponent(id)}/symbols/${encodeURIComponent(symbol)}`
+  );
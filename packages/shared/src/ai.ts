@@ -0,0 +1,346 @@
+// packages/shared/src/ai.ts
+// What the dashboard sends to the analyst model (AIPayload) and what comes
+// back (Analysis); shared so the server can store and render both.
+
+export type AINewsItem = {
+  id: string;
+  title: string;
+  published_utc?: string;
+  publisher?: string;
+  article_url?: string;
+};
+
+export type AIIndicators = {
+  lastClose: number | null;
+  sma20: number | null;
+  sma50: number | null;
+  sma200: number | null;
+  ema20: number | null;
+  ema50: number | null;
+  ema200: number | null;
+  macd: { line: number | null; signal: number | null; hist: number | null };
+  rsi14: number | null;
+
+  // OHLCV-based (volatility, trend strength, volume)
+  atr14: number | null;
+  atrPct: number | null; // ATR as % of last close
+  bollinger: {
+    upper: number | null;
+    middle: number | null;
+    lower: number | null;
+    bandwidth: number | null; // (upper - lower) / middle
+    percentB: number | null; // 0 = lower band, 1 = upper band
+  };
+  stochastic: { k: number | null; d: number | null };
+  adx: { adx: number | null; plusDI: number | null; minusDI: number | null };
+  obv: number | null;
+  obvChange20: number | null;
+  mfi14: number | null;
+  vwap: { anchored: number | null; anchorDate: string | null };
+  keltner: {
+    upper: number | null;
+    middle: number | null;
+    lower: number | null;
+  };
+};
+
+export type AIPayload = {
+  ticker: string;
+  asOf: string; // ISO timestamp (now)
+  price: {
+    last: number | null;
+    change: number | null;
+    changePct: number | null;
+    dayHigh: number | null;
+    dayLow: number | null;
+    prevClose: number | null;
+    volume: number | null;
+    currency?: string | null;
+  };
+  fundamentals: {
+    name?: string | null;
+    marketCap?: number | null;
+    exchange?: string | null;
+    industry?: string | null;
+    homepage?: string | null;
+  };
+  stats: {
+    high52w?: number | null;
+    low52w?: number | null;
+    return1y?: number | null; // percentage (e.g. 12.34), trailing 365 days
+    avgVolume90d?: number | null;
+
+    // risk (percentages like return1y; ratios annualized, trailing year)
+    vol20d?: number | null;
+    vol60d?: number | null;
+    vol1y?: number | null;
+    maxDrawdown1y?: number | null; // <= 0
+    maxDrawdownDays?: number | null; // peak → recovery (or today)
+    currentDrawdown?: number | null;
+    beta?: number | null;
+    correlation?: number | null;
+    benchmark?: string | null;
+    sharpe?: number | null;
+    sortino?: number | null;
+    calmar?: number | null;
+    var95?: number | null; // one-day historical VaR, as a positive loss
+    cvar95?: number | null;
+  };
+  indicators: AIIndicators;
+  series: {
+    timeframe: "daily";
+    points: Array<{ t: number; c: number }>;
+  };
+  news: AINewsItem[];
+};
+
+/** The structured analysis returned by /api/ai/analyze. */
+export type Analysis = {
+  ticker?: string;
+
+  stance: "bullish" | "bearish" | "neutral" | string;
+  confidence: number; // 0..1
+
+  summary: string; // short thesis
+  highlights: string[]; // key bullets
+
+  // NEW, all optional
+  rationale_long?: string[]; // multi-paragraph rationale, split into paragraphs
+  catalysts?: string[]; // upcoming events
+  scenarios?: {
+    // scenario analysis
+    bull?: { prob?: number; target?: string; drivers?: string[] };
+    base?: { prob?: number; target?: string; drivers?: string[] };
+    bear?: { prob?: number; target?: string; drivers?: string[] };
+  };
+  valuation?: {
+    // simple valuation snapshot
+    multiples?: { name: string; value: string; peer_range?: string }[];
+    notes?: string[];
+  };
+  playbook?: {
+    // how to act on it
+    entry?: string; // e.g., "accumulate near 195–198"
+    exits?: string[]; // profit targets
+    invalidation?: string; // where thesis breaks
+    position?: string; // position sizing / % risk
+    timeframe?: string; // short/mid/long
+  };
+  watchlist?: string[]; // “what to watch” signals
+
+  technical: {
+    supports: string[];
+    resistances: string[];
+    signals: { name: string; status: string }[];
+  };
+
+  actions: string[]; // high-impact actions
+  risks: string[]; // material risks
+
+  horizon: string;
+  asOf?: string;
+
+  disclaimers: string[];
+
+  // optional provenance / caveats
+  confidence_notes?: string[];
+  data_used?: string[]; // short lines summarizing what inputs were considered
+};
+
+// ---- history ----
+
+/** One stored analysis: exactly what was sent, what came back, and how. */
+export type AnalysisRun = {
+  id: string;
+  ticker: string;
+  createdAt: string;
+  source: string;
+  model: string;
+  promptVersion: string;
+  latencyMs: number;
+  payload: AIPayload;
+  analysis: Analysis;
+};
+
+export type ScenarioCase = "bull" | "base" | "bear";
+
+/** The headline fields of a run, for listing many runs cheaply. */
+export type AnalysisRunSummary = Omit<AnalysisRun, "payload" | "analysis"> & {
+  price: number | null;
+  stance: string;
+  confidence: number | null;
+  horizon: string | null;
+  targets: Partial<Record<ScenarioCase, string>>;
+  supports: string[];
+  resistances: string[];
+};
+
+export type ValueChange<T> = { from: T; to: T };
+
+/** Set difference of two string lists (compared case/space-insensitively). */
+export type ListChange = { added: string[]; removed: string[]; kept: string[] };
+
+export type AnalysisDiff = {
+  from: AnalysisRunSummary;
+  to: AnalysisRunSummary;
+  /** Only fields whose value differs between the runs are present. */
+  stance?: ValueChange<string>;
+  confidence?: ValueChange<number | null> & { delta: number | null };
+  horizon?: ValueChange<string | null>;
+  model?: ValueChange<string>;
+  promptVersion?: ValueChange<string>;
+  price: ValueChange<number | null> & { changePct: number | null };
+  scenarios: {
+    case: ScenarioCase;
+    target?: ValueChange<string | null>;
+    prob?: ValueChange<number | null>;
+  }[];
+  supports: ListChange;
+  resistances: ListChange;
+  signals: { name: string; from: string | null; to: string | null }[];
+  risks: ListChange;
+  actions: ListChange;
+};
+
+const CASES: ScenarioCase[] = ["bull", "base", "bear"];
+
+const strings = (v: unknown): string[] =>
+  Array.isArray(v)
+    ? v
+        .filter((x): x is string => typeof x === "string")
+        .map((x) => x.trim())
+        .filter(Boolean)
+    : [];
+const numOrNull = (v: unknown) =>
+  typeof v === "number" && Number.isFinite(v) ? v : null;
+const norm = (s: string) => s.trim().toLowerCase().replace(/\s+/g, " ");
+
+export function summarizeRun(run: AnalysisRun): AnalysisRunSummary {
+  const { payload, analysis: a, ...meta } = run;
+  const targets: AnalysisRunSummary["targets"] = {};
+  for (const c of CASES) {
+    const t = a.scenarios?.[c]?.target;
+    if (typeof t === "string" && t) targets[c] = t;
+  }
+  return {
+    ...meta,
+    price: numOrNull(payload?.price?.last),
+    stance: typeof a.stance === "string" ? a.stance.toLowerCase() : "neutral",
+    confidence: numOrNull(a.confidence),
+    horizon: typeof a.horizon === "string" ? a.horizon : null,
+    targets,
+    supports: strings(a.technical?.supports),
+    resistances: strings(a.technical?.resistances),
+  };
+}
+
+function diffList(from: unknown, to: unknown): ListChange {
+  const a = strings(from);
+  const b = strings(to);
+  const inA = new Set(a.map(norm));
+  const inB = new Set(b.map(norm));
+  return {
+    added: b.filter((s) => !inA.has(norm(s))),
+    removed: a.filter((s) => !inB.has(norm(s))),
+    kept: b.filter((s) => inA.has(norm(s))),
+  };
+}
+
+function change<T>(from: T, to: T): ValueChange<T> | undefined {
+  return from === to ? undefined : { from, to };
+}
+
+/** Structured difference between two runs, `from` being the older one. */
+export function diffRuns(from: AnalysisRun, to: AnalysisRun): AnalysisDiff {
+  const sa = summarizeRun(from);
+  const sb = summarizeRun(to);
+  const a = from.analysis;
+  const b = to.analysis;
+
+  const confidence = change(sa.confidence, sb.confidence);
+  const scenarios: AnalysisDiff["scenarios"] = [];
+  for (const c of CASES) {
+    const target = change(
+      a.scenarios?.[c]?.target ?? null,
+      b.scenarios?.[c]?.target ?? null
+    );
+    const prob = change(
+      numOrNull(a.scenarios?.[c]?.prob),
+      numOrNull(b.scenarios?.[c]?.prob)
+    );
+    if (target || prob) scenarios.push({ case: c, target, prob });
+  }
+
+  const statuses = (an: Analysis) =>
+    new Map(
+      (Array.isArray(an.technical?.signals) ? an.technical.signals : [])
+        .filter((s) => s && typeof s.name === "string")
+        .map((s) => [s.name, String(s.status ?? "")] as const)
+    );
+  const sigA = statuses(a);
+  const sigB = statuses(b);
+  const signals: AnalysisDiff["signals"] = [];
+  for (const name of new Set([...sigA.keys(), ...sigB.keys()])) {
+    const x = sigA.get(name) ?? null;
+    const y = sigB.get(name) ?? null;
+    if (x !== y) signals.push({ name, from: x, to: y });
+  }
+
+  return {
+    from: sa,
+    to: sb,
+    stance: change(sa.stance, sb.stance),
+    confidence: confidence && {
+      ...confidence,
+      delta:
+        confidence.from != null && confidence.to != null
+          ? confidence.to - confidence.from
+          : null,
+    },
+    horizon: change(sa.horizon, sb.horizon),
+    model: change(sa.model, sb.model),
+    promptVersion: change(sa.promptVersion, sb.promptVersion),
+    price: {
+      from: sa.price,
+      to: sb.price,
+      changePct:
+        sa.price && sb.price != null
+          ? ((sb.price - sa.price) / sa.price) * 100
+          : null,
+    },
+    scenarios,
+    supports: diffList(a.technical?.supports, b.technical?.supports),
+    resistances: diffList(a.technical?.resistances, b.technical?.resistances),
+    signals,
+    risks: diffList(a.risks, b.risks),
+    actions: diffList(a.actions, b.actions),
+  };
+}
+
+// ---- chat ----
+
+/** One message of a follow-up conversation about a ticker. */
+export type ChatTurn = {
+  role: "user" | "assistant";
+  content: string;
+  at: string;
+  /** Assistant turns: which provider and model answered. */
+  source?: string;
+  model?: string;
+};
+
+/** What a conversation is grounded in; replaced when the client sends newer. */
+export type ChatContext = {
+  payload: AIPayload;
+  analysis: Analysis | null;
+  /** The stored analysis run, when there is one. */
+  runId?: string | null;
+  at: string;
+};
+
+/** The conversation kept per ticker, oldest message first. */
+export type ChatTranscript = {
+  ticker: string;
+  context: ChatContext | null;
+  messages: ChatTurn[];
+};
@@ -0,0 +1,86 @@
+// packages/shared/src/alerts.ts
+// Price/indicator alerts built on the rules DSL: a rule fires on the latest
+// bar when its conditions become true, and re-arms once they turn false.
+import {
+  SeriesCache,
+  conditionsAt,
+  describeCondition,
+  validateConditions,
+  type Condition,
+} from "./rules";
+import type { Agg } from "./types";
+
+const TICKER_RE = /^[A-Z0-9.:-]{1,16}$/;
+
+export type AlertRuleInput = {
+  ticker: string;
+  name?: string;
+  conditions: Condition[];
+  mode?: "all" | "any"; // default "all"
+  enabled?: boolean; // default true
+};
+
+export type AlertRule = Required<Omit<AlertRuleInput, "name">> & {
+  id: string;
+  name: string;
+  armed: boolean; // false after firing until the conditions turn false again
+  lastBarT: number | null; // last bar evaluated
+  lastCheckedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AlertStatus = "active" | "acknowledged" | "snoozed";
+
+export type AlertEvent = {
+  id: string;
+  ruleId: string;
+  ticker: string;
+  message: string;
+  barT: number;
+  close: number;
+  firedAt: string;
+  status: AlertStatus;
+  snoozedUntil: string | null;
+  acknowledgedAt: string | null;
+};
+
+export function validateAlertRule(input: unknown): string[] {
+  if (!input || typeof input !== "object") return ["body must be an object"];
+  const r = input as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof r.ticker !== "string" || !TICKER_RE.test(r.ticker.toUpperCase()))
+    errors.push("ticker is invalid");
+  if (r.name != null && typeof r.name !== "string")
+    errors.push("name must be a string");
+  errors.push(...validateConditions(r.conditions, "conditions"));
+  if (Array.isArray(r.conditions) && !r.conditions.length)
+    errors.push("conditions must not be empty");
+  if (r.mode != null && r.mode !== "all" && r.mode !== "any")
+    errors.push('mode must be "all" or "any"');
+  if (r.enabled != null && typeof r.enabled !== "boolean")
+    errors.push("enabled must be boolean");
+  return errors;
+}
+
+/** "AAPL: Close > 200 and RSI(14) < 30" */
+export function describeRule(
+  rule: Pick<AlertRule, "ticker" | "conditions" | "mode">
+) {
+  const joiner = rule.mode === "any" ? " or " : " and ";
+  return `${rule.ticker}: ${rule.conditions.map(describeCondition).join(joiner)}`;
+}
+
+/** Whether the rule's conditions hold on the last bar of `bars`. */
+export function ruleMatches(
+  rule: Pick<AlertRule, "conditions" | "mode">,
+  bars: Agg[]
+) {
+  if (!bars.length) return false;
+  return conditionsAt(
+    new SeriesCache(bars),
+    rule.conditions,
+    rule.mode,
+    bars.length - 1
+  );
+}
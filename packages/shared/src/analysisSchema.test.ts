@@ -0,0 +1,42 @@
+// packages/shared/src/analysisSchema.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseAnalysis } from "./analysisSchema";
+
+const analysis = (confidence: unknown) => ({
+  stance: "neutral",
+  confidence,
+  summary: "Range-bound.",
+  highlights: [],
+  technical: { supports: [], resistances: [], signals: [] },
+  actions: [],
+  risks: [],
+  horizon: "1-3 months",
+  disclaimers: [],
+});
+
+const confidenceOf = (v: unknown) => {
+  const r = parseAnalysis(analysis(v));
+  return r.ok ? r.value.confidence : r.errors;
+};
+
+test("keeps a confidence already in 0..1", () => {
+  assert.equal(confidenceOf(0.6), 0.6);
+  assert.equal(confidenceOf(1), 1);
+  assert.equal(confidenceOf("0.6"), 0.6);
+});
+
+test("scales an explicit percentage", () => {
+  assert.equal(confidenceOf("72%"), 0.72);
+});
+
+test("rejects bare numbers outside 0..1 instead of rescaling them", () => {
+  for (const v of [1.5, 5, 72]) {
+    const r = parseAnalysis(analysis(v));
+    assert.equal(r.ok, false, `confidence ${v}`);
+    assert.match(
+      (r as { errors: string[] }).errors[0],
+      /confidence.*between 0 and 1/
+    );
+  }
+});
@@ -0,0 +1,231 @@
+// packages/shared/src/analysisSchema.ts
+// Runtime schema for the analyst's JSON. Model output is untrusted, so the
+// server and the web client both run it through `parseAnalysis`: fields are
+// checked one by one, near misses are coerced (numbers sent as strings, a
+// string where a list belongs, "72%" for a 0..1 confidence) and whatever
+// can't be fixed is reported in a form that can be fed back to the model.
+import type { Analysis } from "./ai";
+
+type Ctx = { errors: string[]; coerced: string[] };
+
+/** Returns the cleaned value, or undefined after recording an error. */
+export type Schema<T> = (
+  value: unknown,
+  path: string,
+  ctx: Ctx
+) => T | undefined;
+
+const OPTIONAL = Symbol("optional");
+type Optional<T> = Schema<T | undefined> & { [OPTIONAL]: true };
+
+const show = (v: unknown) => {
+  const s = JSON.stringify(v);
+  return s && s.length > 40 ? `${s.slice(0, 37)}...` : String(s);
+};
+
+const fail = (ctx: Ctx, path: string, expected: string, v: unknown) => {
+  ctx.errors.push(`${path} must be ${expected} (got ${show(v)})`);
+  return undefined;
+};
+
+export const string = (): Schema<string> => (v, path, ctx) => {
+  if (typeof v === "string") return v.trim();
+  if (typeof v === "number" || typeof v === "boolean") {
+    ctx.coerced.push(`${path}: ${typeof v} → string`);
+    return String(v);
+  }
+  return fail(ctx, path, "a string", v);
+};
+
+/**
+ * Finite number within [min, max]. Numeric strings are accepted; with
+ * `fraction`, explicit percentages ("72%") are scaled into 0..1. A bare
+ * number out of range (1.5, or 7 meaning "out of 10") is an error, so the
+ * repair loop asks again rather than guessing the scale.
+ */
+export const number =
+  (
+    opts: { min?: number; max?: number; fraction?: boolean } = {}
+  ): Schema<number> =>
+  (v, path, ctx) => {
+    let n = v;
+    let pct = false;
+    if (typeof v === "string") {
+      const s = v.trim().replace(/,/g, "");
+      pct = s.endsWith("%");
+      n = s === "" ? NaN : Number(pct ? s.slice(0, -1) : s);
+      if (Number.isFinite(n)) ctx.coerced.push(`${path}: string → number`);
+    }
+    if (typeof n !== "number" || !Number.isFinite(n))
+      return fail(ctx, path, "a number", v);
+    if (opts.fraction && pct) {
+      n /= 100;
+      ctx.coerced.push(`${path}: percent → fraction`);
+    }
+    const { min = -Infinity, max = Infinity } = opts;
+    if ((n as number) < min || (n as number) > max)
+      return fail(ctx, path, `a number between ${min} and ${max}`, v);
+    return n as number;
+  };
+
+/** One of fixed lowercase values; matching ignores case and whitespace. */
+export const oneOf =
+  <T extends string>(values: readonly T[]): Schema<T> =>
+  (v, path, ctx) => {
+    const s = typeof v === "string" ? v.trim().toLowerCase() : v;
+    if (values.includes(s as T)) {
+      if (s !== v) ctx.coerced.push(`${path}: normalized case`);
+      return s as T;
+    }
+    return fail(
+      ctx,
+      path,
+      `one of ${values.map((x) => `"${x}"`).join(", ")}`,
+      v
+    );
+  };
+
+/** A list; a lone value is wrapped. Every entry must pass `item`. */
+export const array =
+  <T>(item: Schema<T>): Schema<T[]> =>
+  (v, path, ctx) => {
+    if (v == null) return fail(ctx, path, "an array", v);
+    let list = v as unknown[];
+    if (!Array.isArray(v)) {
+      ctx.coerced.push(`${path}: single value → array`);
+      list = [v];
+    }
+    const out: T[] = [];
+    list.forEach((x, i) => {
+      const r = item(x, `${path}[${i}]`, ctx);
+      if (r !== undefined) out.push(r);
+    });
+    return out;
+  };
+
+export const optional = <T>(inner: Schema<T>): Optional<T> =>
+  Object.assign<Schema<T | undefined>, { [OPTIONAL]: true }>(
+    (v, path, ctx) => (v == null ? undefined : inner(v, path, ctx)),
+    { [OPTIONAL]: true }
+  );
+
+/** Known keys only (others are dropped); keys not `optional` are required. */
+export const object =
+  <T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> =>
+  (v, path, ctx) => {
+    if (!v || typeof v !== "object" || Array.isArray(v))
+      return fail(ctx, path || "value", "an object", v);
+    const out: Record<string, unknown> = {};
+    const before = ctx.errors.length;
+    for (const [k, schema] of Object.entries(shape) as [
+      string,
+      Schema<unknown>,
+    ][]) {
+      const key = path ? `${path}.${k}` : k;
+      const raw = (v as Record<string, unknown>)[k];
+      if (raw == null && !(OPTIONAL in schema)) {
+        ctx.errors.push(`${key} is required`);
+        continue;
+      }
+      const r = schema(raw, key, ctx);
+      if (r !== undefined) out[k] = r;
+    }
+    return ctx.errors.length === before ? (out as T) : undefined;
+  };
+
+const scenario = optional(
+  object<{ prob?: number; target?: string; drivers?: string[] }>({
+    prob: optional(number({ min: 0, max: 1, fraction: true })),
+    target: optional(string()),
+    drivers: optional(array(string())),
+  })
+);
+
+/** Mirrors the `Analysis` type; the prompt asks for exactly these fields. */
+export const analysisSchema: Schema<Analysis> = object<Analysis>({
+  ticker: optional(string()),
+  stance: oneOf(["bullish", "bearish", "neutral"] as const),
+  confidence: number({ min: 0, max: 1, fraction: true }),
+  summary: string(),
+  highlights: array(string()),
+  rationale_long: optional(array(string())),
+  catalysts: optional(array(string())),
+  scenarios: optional(
+    object<NonNullable<Analysis["scenarios"]>>({
+      bull: scenario,
+      base: scenario,
+      bear: scenario,
+    })
+  ),
+  valuation: optional(
+    object<NonNullable<Analysis["valuation"]>>({
+      multiples: optional(
+        array(
+          object<{ name: string; value: string; peer_range?: string }>({
+            name: string(),
+            value: string(),
+            peer_range: optional(string()),
+          })
+        )
+      ),
+      notes: optional(array(string())),
+    })
+  ),
+  playbook: optional(
+    object<NonNullable<Analysis["playbook"]>>({
+      entry: optional(string()),
+      exits: optional(array(string())),
+      invalidation: optional(string()),
+      position: optional(string()),
+      timeframe: optional(string()),
+    })
+  ),
+  watchlist: optional(array(string())),
+  technical: object<Analysis["technical"]>({
+    supports: array(string()),
+    resistances: array(string()),
+    signals: array(
+      object<{ name: string; status: string }>({
+        name: string(),
+        status: string(),
+      })
+    ),
+  }),
+  actions: array(string()),
+  risks: array(string()),
+  horizon: string(),
+  asOf: optional(string()),
+  disclaimers: array(string()),
+  confidence_notes: optional(array(string())),
+  data_used: optional(array(string())),
+});
+
+export type ParsedAnalysis =
+  | { ok: true; value: Analysis; coerced: string[] }
+  | { ok: false; errors: string[] };
+
+/** Validate and coerce an analysis, given as parsed JSON or as raw text. */
+export function parseAnalysis(input: unknown): ParsedAnalysis {
+  let value = input;
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(stripFences(input));
+    } catch (err) {
+      return {
+        ok: false,
+        errors: [`response is not valid JSON: ${(err as Error).message}`],
+      };
+    }
+  }
+  const ctx: Ctx = { errors: [], coerced: [] };
+  const out = analysisSchema(value, "", ctx);
+  return out && !ctx.errors.length
+    ? { ok: true, value: out, coerced: ctx.coerced }
+    : { ok: false, errors: ctx.errors };
+}
+
+/** Models sometimes wrap JSON in a ```json fence despite instructions. */
+function stripFences(text: string) {
+  const m = /^\s*```(?:json)?\s*([\s\S]*?)\s*```\s*$/i.exec(text);
+  return m ? m[1] : text;
+}
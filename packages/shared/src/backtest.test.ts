@@ -0,0 +1,73 @@
+// packages/shared/src/backtest.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { STRATEGY_PRESETS, validateBacktest } from "./backtest";
+
+const strategy = STRATEGY_PRESETS.smaCross();
+
+test("presets pass with an empty or full config", () => {
+  for (const s of Object.values(STRATEGY_PRESETS))
+    assert.deepEqual(validateBacktest(s(), {}), []);
+  assert.deepEqual(
+    validateBacktest(strategy, {
+      initialCapital: 10_000,
+      commission: { perTrade: 1, pct: 0.1 },
+      slippageBps: 5,
+      riskFreeRate: 0.04,
+      periodsPerYear: 252,
+      sizing: { mode: "percentEquity", pct: 100 },
+    }),
+    []
+  );
+});
+
+test("rejects commission outside its range", () => {
+  assert.deepEqual(
+    validateBacktest(strategy, { commission: { perTrade: -1, pct: 100 } }),
+    [
+      "config.commission.perTrade must be >= 0",
+      "config.commission.pct must be between 0 and 100",
+    ]
+  );
+  assert.deepEqual(validateBacktest(strategy, { commission: 5 }), [
+    "config.commission must be an object",
+  ]);
+});
+
+test("rejects periodsPerYear that would break annualisation", () => {
+  for (const periodsPerYear of [0, -252, 2.5, NaN, "252"]) {
+    assert.deepEqual(
+      validateBacktest(strategy, { periodsPerYear }),
+      ["config.periodsPerYear must be an integer between 1 and 100000"],
+      `periodsPerYear ${periodsPerYear}`
+    );
+  }
+});
+
+test("rejects a riskFreeRate given as a percent or not a number", () => {
+  for (const riskFreeRate of [4, NaN, "0.04"]) {
+    assert.equal(validateBacktest(strategy, { riskFreeRate }).length, 1);
+  }
+});
+
+test("rejects fractional maxHoldBars and bad indicator periods", () => {
+  assert.deepEqual(
+    validateBacktest(
+      {
+        entry: [
+          {
+            left: { kind: "sma", period: 2.5 },
+            op: ">",
+            right: { kind: "price" },
+          },
+        ],
+        maxHoldBars: 1.5,
+      },
+      {}
+    ),
+    [
+      "strategy.entry[0].left.period must be an integer between 1 and 1000",
+      "strategy.maxHoldBars must be a positive integer",
+    ]
+  );
+});
@@ -0,0 +1,477 @@
+// packages/shared/src/backtest.ts
+import {
+  SeriesCache,
+  conditionsAt,
+  validateConditions,
+  type Condition,
+} from "./rules";
+import type { Agg } from "./types";
+
+export type Strategy = {
+  name?: string;
+  entry: Condition[];
+  entryMode?: "all" | "any"; // default "all"
+  exit: Condition[];
+  exitMode?: "all" | "any"; // default "any"
+  stopLossPct?: number; // e.g. 8 → exit 8% below entry
+  takeProfitPct?: number;
+  maxHoldBars?: number;
+};
+
+export type PositionSizing =
+  | { mode: "percentEquity"; pct: number } // of current equity
+  | { mode: "fixedAmount"; amount: number } // currency per trade
+  | { mode: "fixedShares"; shares: number };
+
+export type BacktestConfig = {
+  initialCapital?: number; // default 10_000
+  commission?: { perTrade?: number; pct?: number }; // pct of notional
+  slippageBps?: number; // applied against us on every fill
+  sizing?: PositionSizing; // default 100% of equity
+  fractional?: boolean; // allow fractional shares (default false)
+  riskFreeRate?: number; // annual, decimal (0.04 = 4%)
+  periodsPerYear?: number; // bars per year for annualizing, default 252
+};
+
+export type Trade = {
+  entryT: number;
+  entryPrice: number;
+  exitT: number;
+  exitPrice: number;
+  shares: number;
+  pnl: number; // net of commissions
+  returnPct: number; // net, on capital committed
+  bars: number;
+  exitReason: "signal" | "stopLoss" | "takeProfit" | "maxHold" | "end";
+  fees: number;
+};
+
+export type EquityPoint = { t: number; equity: number; benchmark: number };
+
+export type BacktestMetrics = {
+  startEquity: number;
+  endEquity: number;
+  totalReturnPct: number;
+  cagrPct: number | null;
+  maxDrawdownPct: number; // positive number, e.g. 23.4
+  maxDrawdownBars: number; // longest time under water
+  sharpe: number | null;
+  volatilityPct: number | null; // annualized
+  trades: number;
+  winRatePct: number | null;
+  avgWinPct: number | null;
+  avgLossPct: number | null;
+  profitFactor: number | null;
+  exposurePct: number; // share of bars holding a position
+  totalFees: number;
+  buyHoldReturnPct: number;
+};
+
+export type BacktestResult = {
+  strategy: Strategy;
+  config: Required<Omit<BacktestConfig, "commission">> & {
+    commission: { perTrade: number; pct: number };
+  };
+  metrics: BacktestMetrics;
+  equity: EquityPoint[];
+  trades: Trade[];
+};
+
+const round = (n: number, d = 4) => {
+  const f = 10 ** d;
+  return Math.round(n * f) / f;
+};
+
+function resolveConfig(c: BacktestConfig = {}): BacktestResult["config"] {
+  return {
+    initialCapital: c.initialCapital ?? 10_000,
+    commission: {
+      perTrade: c.commission?.perTrade ?? 0,
+      pct: c.commission?.pct ?? 0,
+    },
+    slippageBps: c.slippageBps ?? 0,
+    sizing: c.sizing ?? { mode: "percentEquity", pct: 100 },
+    fractional: c.fractional ?? false,
+    riskFreeRate: c.riskFreeRate ?? 0,
+    periodsPerYear: c.periodsPerYear ?? 252,
+  };
+}
+
+const finite = (n: unknown): n is number =>
+  typeof n === "number" && Number.isFinite(n);
+
+/** Errors for a strategy/config received as JSON; empty when valid. */
+export function validateBacktest(strategy: unknown, config: unknown) {
+  const errors: string[] = [];
+  const s = strategy as Partial<Strategy> | null;
+  if (!s || typeof s !== "object") return ["strategy must be an object"];
+  errors.push(...validateConditions(s.entry, "strategy.entry"));
+  errors.push(...validateConditions(s.exit ?? [], "strategy.exit"));
+  for (const k of ["stopLossPct", "takeProfitPct"] as const) {
+    if (s[k] != null && !(finite(s[k]) && s[k] > 0))
+      errors.push(`strategy.${k} must be > 0`);
+  }
+  if (
+    s.maxHoldBars != null &&
+    !(Number.isInteger(s.maxHoldBars) && s.maxHoldBars > 0)
+  )
+    errors.push("strategy.maxHoldBars must be a positive integer");
+
+  const c = (config ?? {}) as BacktestConfig;
+  if (
+    c.initialCapital != null &&
+    !(finite(c.initialCapital) && c.initialCapital > 0)
+  ) {
+    errors.push("config.initialCapital must be > 0");
+  }
+  if (c.slippageBps != null && !(finite(c.slippageBps) && c.slippageBps >= 0)) {
+    errors.push("config.slippageBps must be >= 0");
+  }
+  if (c.commission != null && typeof c.commission !== "object") {
+    errors.push("config.commission must be an object");
+  } else if (c.commission) {
+    const { perTrade, pct } = c.commission;
+    if (perTrade != null && !(finite(perTrade) && perTrade >= 0))
+      errors.push("config.commission.perTrade must be >= 0");
+    if (pct != null && !(finite(pct) && pct >= 0 && pct < 100))
+      errors.push("config.commission.pct must be between 0 and 100");
+  }
+  if (
+    c.riskFreeRate != null &&
+    !(finite(c.riskFreeRate) && c.riskFreeRate > -1 && c.riskFreeRate < 1)
+  ) {
+    errors.push("config.riskFreeRate must be a decimal rate, e.g. 0.04");
+  }
+  if (
+    c.periodsPerYear != null &&
+    !(
+      Number.isInteger(c.periodsPerYear) &&
+      c.periodsPerYear >= 1 &&
+      c.periodsPerYear <= 100_000
+    )
+  ) {
+    errors.push(
+      "config.periodsPerYear must be an integer between 1 and 100000"
+    );
+  }
+  if (c.sizing) {
+    const sz = c.sizing;
+    const ok =
+      (sz.mode === "percentEquity" && sz.pct > 0 && sz.pct <= 100) ||
+      (sz.mode === "fixedAmount" && sz.amount > 0) ||
+      (sz.mode === "fixedShares" && sz.shares > 0);
+    if (!ok) errors.push("config.sizing is invalid");
+  }
+  return errors;
+}
+
+/**
+ * Long-only, one position at a time. Signals are evaluated on each bar's
+ * close and filled at the next bar's open (no look-ahead); stops and targets
+ * are checked intrabar against high/low, stop first when both are hit.
+ */
+export function runBacktest(
+  bars: Agg[],
+  strategy: Strategy,
+  cfg?: BacktestConfig
+): BacktestResult {
+  const config = resolveConfig(cfg);
+  const cache = new SeriesCache(bars);
+  const slip = config.slippageBps / 10_000;
+  const fee = (notional: number) =>
+    config.commission.perTrade + (notional * config.commission.pct) / 100;
+
+  let cash = config.initialCapital;
+  let shares = 0;
+  let entry: { t: number; price: number; i: number; fees: number } | null =
+    null;
+  let pending: "buy" | { sell: Trade["exitReason"] } | null = null;
+  let barsInMarket = 0;
+
+  const trades: Trade[] = [];
+  const equity: EquityPoint[] = [];
+  const firstClose = bars[0]?.c ?? 0;
+
+  const sizeFor = (price: number) => {
+    const eq = cash; // flat when sizing, so equity == cash
+    let qty: number;
+    switch (config.sizing.mode) {
+      case "percentEquity":
+        qty = (eq * config.sizing.pct) / 100 / price;
+        break;
+      case "fixedAmount":
+        qty = config.sizing.amount / price;
+        break;
+      case "fixedShares":
+        qty = config.sizing.shares;
+        break;
+    }
+    // never spend more than we have, fees included
+    const maxAffordable =
+      (cash - config.commission.perTrade) /
+      (price * (1 + config.commission.pct / 100));
+    qty = Math.min(qty, Math.max(0, maxAffordable));
+    return config.fractional ? qty : Math.floor(qty);
+  };
+
+  const closeTrade = (
+    i: number,
+    rawPrice: number,
+    reason: Trade["exitReason"]
+  ) => {
+    if (!entry || shares <= 0) return;
+    const price = rawPrice * (1 - slip);
+    const proceeds = shares * price;
+    const f = fee(proceeds);
+    cash += proceeds - f;
+    const cost = shares * entry.price + entry.fees;
+    const pnl = proceeds - f - cost;
+    trades.push({
+      entryT: entry.t,
+      entryPrice: round(entry.price),
+      exitT: bars[i].t,
+      exitPrice: round(price),
+      shares: round(shares, 6),
+      pnl: round(pnl, 2),
+      returnPct: round((pnl / cost) * 100, 3),
+      bars: i - entry.i,
+      exitReason: reason,
+      fees: round(entry.fees + f, 2),
+    });
+    shares = 0;
+    entry = null;
+  };
+
+  for (let i = 0; i < bars.length; i++) {
+    const bar = bars[i];
+
+    // 1) fill orders queued at the previous close
+    if (pending === "buy" && shares === 0) {
+      const price = bar.o * (1 + slip);
+      const qty = sizeFor(price);
+      if (qty > 0) {
+        const f = fee(qty * price);
+        cash -= qty * price + f;
+        shares = qty;
+        entry = { t: bar.t, price, i, fees: f };
+      }
+    } else if (pending && pending !== "buy" && shares > 0) {
+      closeTrade(i, bar.o, pending.sell);
+    }
+    pending = null;
+
+    // 2) protective exits inside this bar
+    if (entry && shares > 0) {
+      const stop =
+        strategy.stopLossPct != null
+          ? entry.price * (1 - strategy.stopLossPct / 100)
+          : null;
+      const target =
+        strategy.takeProfitPct != null
+          ? entry.price * (1 + strategy.takeProfitPct / 100)
+          : null;
+      if (stop != null && bar.l <= stop) {
+        closeTrade(i, Math.min(bar.o, stop), "stopLoss");
+      } else if (target != null && bar.h >= target) {
+        closeTrade(i, Math.max(bar.o, target), "takeProfit");
+      }
+    }
+
+    if (shares > 0) barsInMarket++;
+
+    // 3) mark to market
+    equity.push({
+      t: bar.t,
+      equity: round(cash + shares * bar.c, 2),
+      benchmark: round(
+        firstClose ? (config.initialCapital * bar.c) / firstClose : 0,
+        2
+      ),
+    });
+
+    // 4) signals on the close, filled next bar
+    if (i === bars.length - 1) break;
+    if (shares === 0) {
+      if (conditionsAt(cache, strategy.entry, strategy.entryMode ?? "all", i)) {
+        pending = "buy";
+      }
+    } else if (entry) {
+      const held = i - entry.i;
+      if (conditionsAt(cache, strategy.exit, strategy.exitMode ?? "any", i)) {
+        pending = { sell: "signal" };
+      } else if (strategy.maxHoldBars != null && held >= strategy.maxHoldBars) {
+        pending = { sell: "maxHold" };
+      }
+    }
+  }
+
+  // close anything still open on the last bar
+  if (shares > 0 && bars.length) {
+    closeTrade(bars.length - 1, bars[bars.length - 1].c, "end");
+    equity[equity.length - 1].equity = round(cash, 2);
+  }
+
+  return {
+    strategy,
+    config,
+    metrics: computeMetrics(equity, trades, barsInMarket, config),
+    equity,
+    trades,
+  };
+}
+
+function computeMetrics(
+  equity: EquityPoint[],
+  trades: Trade[],
+  barsInMarket: number,
+  config: BacktestResult["config"]
+): BacktestMetrics {
+  const start = config.initialCapital;
+  const end = equity.at(-1)?.equity ?? start;
+  const n = equity.length;
+
+  // drawdown depth + longest stretch below a prior peak
+  let peak = -Infinity;
+  let maxDd = 0;
+  let underSince = -1;
+  let maxUnder = 0;
+  equity.forEach((p, i) => {
+    if (p.equity >= peak) {
+      peak = p.equity;
+      if (underSince >= 0) maxUnder = Math.max(maxUnder, i - underSince);
+      underSince = -1;
+    } else {
+      if (underSince < 0) underSince = i - 1;
+      maxDd = Math.max(maxDd, (peak - p.equity) / peak);
+    }
+  });
+  if (underSince >= 0) maxUnder = Math.max(maxUnder, n - 1 - underSince);
+
+  // per-bar returns for Sharpe / volatility
+  const rets: number[] = [];
+  for (let i = 1; i < n; i++) {
+    const prev = equity[i - 1].equity;
+    if (prev > 0) rets.push(equity[i].equity / prev - 1);
+  }
+  const ppy = config.periodsPerYear;
+  const mean = rets.reduce((a, b) => a + b, 0) / (rets.length || 1);
+  const variance =
+    rets.reduce((a, b) => a + (b - mean) ** 2, 0) / (rets.length - 1 || 1);
+  const sd = Math.sqrt(variance);
+  const rfPerBar = config.riskFreeRate / ppy;
+  const sharpe =
+    rets.length > 1 && sd > 0
+      ? ((mean - rfPerBar) / sd) * Math.sqrt(ppy)
+      : null;
+
+  const years =
+    n > 1 ? (equity[n - 1].t - equity[0].t) / (365.25 * 24 * 3600 * 1000) : 0;
+  const cagr = years > 0 && end > 0 ? (end / start) ** (1 / years) - 1 : null;
+
+  const wins = trades.filter((t) => t.pnl > 0);
+  const losses = trades.filter((t) => t.pnl <= 0);
+  const grossWin = wins.reduce((a, t) => a + t.pnl, 0);
+  const grossLoss = -losses.reduce((a, t) => a + t.pnl, 0);
+  const avg = (xs: Trade[]) =>
+    xs.length ? xs.reduce((a, t) => a + t.returnPct, 0) / xs.length : null;
+
+  const bench = equity.at(-1)?.benchmark ?? start;
+
+  return {
+    startEquity: start,
+    endEquity: round(end, 2),
+    totalReturnPct: round((end / start - 1) * 100, 3),
+    cagrPct: cagr == null ? null : round(cagr * 100, 3),
+    maxDrawdownPct: round(maxDd * 100, 3),
+    maxDrawdownBars: maxUnder,
+    sharpe: sharpe == null ? null : round(sharpe, 3),
+    volatilityPct: rets.length > 1 ? round(sd * Math.sqrt(ppy) * 100, 3) : null,
+    trades: trades.length,
+    winRatePct: trades.length
+      ? round((wins.length / trades.length) * 100, 2)
+      : null,
+    avgWinPct: avg(wins) == null ? null : round(avg(wins)!, 3),
+    avgLossPct: avg(losses) == null ? null : round(avg(losses)!, 3),
+    profitFactor: grossLoss > 0 ? round(grossWin / grossLoss, 3) : null,
+    exposurePct: n ? round((barsInMarket / n) * 100, 2) : 0,
+    totalFees: round(
+      trades.reduce((a, t) => a + t.fees, 0),
+      2
+    ),
+    buyHoldReturnPct: round((bench / start - 1) * 100, 3),
+  };
+}
+
+/** Ready-made strategies the UI offers; parameters are filled in by the user. */
+export const STRATEGY_PRESETS = {
+  smaCross: (fast = 50, slow = 200): Strategy => ({
+    name: `SMA ${fast}/${slow} cross`,
+    entry: [
+      {
+        left: { kind: "sma", period: fast },
+        op: "crossesAbove",
+        right: { kind: "sma", period: slow },
+      },
+    ],
+    exit: [
+      {
+        left: { kind: "sma", period: fast },
+        op: "crossesBelow",
+        right: { kind: "sma", period: slow },
+      },
+    ],
+  }),
+  emaCross: (fast = 20, slow = 50): Strategy => ({
+    name: `EMA ${fast}/${slow} cross`,
+    entry: [
+      {
+        left: { kind: "ema", period: fast },
+        op: "crossesAbove",
+        right: { kind: "ema", period: slow },
+      },
+    ],
+    exit: [
+      {
+        left: { kind: "ema", period: fast },
+        op: "crossesBelow",
+        right: { kind: "ema", period: slow },
+      },
+    ],
+  }),
+  rsiReversion: (oversold = 30, overbought = 70, period = 14): Strategy => ({
+    name: `RSI(${period}) ${oversold}/${overbought} reversion`,
+    entry: [
+      {
+        left: { kind: "rsi", period },
+        op: "crossesAbove",
+        right: { kind: "const", value: oversold },
+      },
+    ],
+    exit: [
+      {
+        left: { kind: "rsi", period },
+        op: ">",
+        right: { kind: "const", value: overbought },
+      },
+    ],
+  }),
+  macdCross: (): Strategy => ({
+    name: "MACD signal cross",
+    entry: [
+      {
+        left: { kind: "macd", part: "line" },
+        op: "crossesAbove",
+        right: { kind: "macd", part: "signal" },
+      },
+    ],
+    exit: [
+      {
+        left: { kind: "macd", part: "line" },
+        op: "crossesBelow",
+        right: { kind: "macd", part: "signal" },
+      },
+    ],
+  }),
+} as const;
+
+export type StrategyPreset = keyof typeof STRATEGY_PRESETS;
@@ -0,0 +1,93 @@
+// packages/shared/src/correlation.ts
+// Pairwise return correlations across tickers, plus a clustering order that
+// puts similar tickers next to each other when the matrix is drawn.
+import { correlation, simpleReturns } from "./series";
+
+export type CorrelationMatrix = {
+  symbols: string[];
+  /** matrix[i][j] = correlation of symbols[i] and symbols[j]; null if undefined. */
+  matrix: (number | null)[][];
+};
+
+const finite = (n: number) => (Number.isFinite(n) ? n : null);
+
+/** Correlation of daily returns for every pair of aligned close series. */
+export function correlationMatrix(
+  closes: Record<string, number[]>
+): CorrelationMatrix {
+  const symbols = Object.keys(closes);
+  const returns = symbols.map((s) => simpleReturns(closes[s]));
+  const matrix = symbols.map(() => symbols.map((): number | null => null));
+  for (let i = 0; i < symbols.length; i++) {
+    matrix[i][i] = returns[i].length > 1 ? 1 : null;
+    for (let j = i + 1; j < symbols.length; j++) {
+      matrix[i][j] = matrix[j][i] = finite(correlation(returns[i], returns[j]));
+    }
+  }
+  return { symbols, matrix };
+}
+
+/**
+ * Correlation of the trailing `window` returns at each point; the first
+ * `window` entries are null. Inputs are aligned closes, so the output is
+ * as long as the close series.
+ */
+export function rollingCorrelation(a: number[], b: number[], window: number) {
+  const ra = simpleReturns(a);
+  const rb = simpleReturns(b);
+  const out: (number | null)[] = [null];
+  for (let i = 0; i < ra.length; i++) {
+    out.push(
+      i + 1 < window
+        ? null
+        : finite(
+            correlation(
+              ra.slice(i + 1 - window, i + 1),
+              rb.slice(i + 1 - window, i + 1)
+            )
+          )
+    );
+  }
+  return out;
+}
+
+/**
+ * Leaf order of an average-linkage hierarchical clustering on the distance
+ * 1 - ρ. Undefined correlations count as 0 (distance 1).
+ */
+export function clusterOrder({ symbols, matrix }: CorrelationMatrix) {
+  const dist = (i: number, j: number) => 1 - (matrix[i][j] ?? 0);
+  let clusters = symbols.map((_, i) => [i]);
+
+  const linkage = (a: number[], b: number[]) => {
+    let sum = 0;
+    for (const i of a) for (const j of b) sum += dist(i, j);
+    return sum / (a.length * b.length);
+  };
+
+  while (clusters.length > 1) {
+    let best = { d: Infinity, x: 0, y: 1 };
+    for (let x = 0; x < clusters.length; x++) {
+      for (let y = x + 1; y < clusters.length; y++) {
+        const d = linkage(clusters[x], clusters[y]);
+        if (d < best.d) best = { d, x, y };
+      }
+    }
+    const merged = [...clusters[best.x], ...clusters[best.y]];
+    clusters = clusters.filter((_, k) => k !== best.x && k !== best.y);
+    clusters.push(merged);
+  }
+  return (clusters[0] ?? []).map((i) => symbols[i]);
+}
+
+/** Reorder a matrix to the given symbol order. */
+export function reorderMatrix(
+  m: CorrelationMatrix,
+  order: string[]
+): CorrelationMatrix {
+  const idx = order.map((s) => m.symbols.indexOf(s));
+  return {
+    symbols: order,
+    matrix: idx.map((i) => idx.map((j) => m.matrix[i][j])),
+  };
+}
@@ -0,0 +1,402 @@
+// packages/shared/src/indicators.ts
+import type { Agg } from "./types";
+
+export type Num = number;
+export type SeriesPoint = { t: number; y: number };
+
+/** Simple Moving Average */
+export function sma(values: Num[], period: number): (number | null)[] {
+  const out = Array<number | null>(values.length).fill(null);
+  if (period <= 0) return out;
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) out[i] = sum / period;
+  }
+  return out;
+}
+
+/** Exponential Moving Average (seeded by SMA of first `period`) */
+export function ema(values: Num[], period: number): (number | null)[] {
+  const out = Array<number | null>(values.length).fill(null);
+  if (period <= 0) return out;
+  const k = 2 / (period + 1);
+
+  // seed with SMA
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (i < period) {
+      sum += v;
+      if (i === period - 1) {
+        const seed = sum / period;
+        out[i] = seed;
+      }
+    } else {
+      const prev = out[i - 1] as number;
+      const next = v * k + prev * (1 - k);
+      out[i] = next;
+    }
+  }
+  return out;
+}
+
+/** MACD (returns full series; last values can be read with `.at(-1)`) */
+export function macd(values: Num[], fast = 12, slow = 26, signal = 9) {
+  const emaFast = ema(values, fast);
+  const emaSlow = ema(values, slow);
+
+  const line = values.map((_, i) =>
+    emaFast[i] != null && emaSlow[i] != null ? emaFast[i]! - emaSlow[i]! : null
+  );
+
+  // signal EMA ignores leading nulls by feeding only defined segments
+  const sig = ema(
+    line.map((v) => (v == null ? (line.find((x) => x != null) ?? 0) : v)),
+    signal
+  );
+
+  const hist = line.map((v, i) =>
+    v != null && sig[i] != null ? v - (sig[i] as number) : null
+  );
+
+  return { line, signal: sig, hist };
+}
+
+/** RSI (Wilder’s smoothing) */
+export function rsi(values: Num[], period = 14): (number | null)[] {
+  const out = Array<number | null>(values.length).fill(null);
+  if (values.length < 2 || period <= 0) return out;
+
+  let gainSum = 0;
+  let lossSum = 0;
+
+  // seed
+  for (let i = 1; i <= period && i < values.length; i++) {
+    const ch = values[i] - values[i - 1];
+    if (ch >= 0) gainSum += ch;
+    else lossSum += -ch;
+  }
+
+  if (values.length > period) {
+    const avgGain = gainSum / period;
+    const avgLoss = lossSum / period;
+    const rs = avgLoss === 0 ? Infinity : avgGain / avgLoss;
+    out[period] = 100 - 100 / (1 + rs);
+
+    // smooth forward
+    let prevAvgGain = avgGain;
+    let prevAvgLoss = avgLoss;
+    for (let i = period + 1; i < values.length; i++) {
+      const ch = values[i] - values[i - 1];
+      const g = Math.max(ch, 0);
+      const l = Math.max(-ch, 0);
+      prevAvgGain = (prevAvgGain * (period - 1) + g) / period;
+      prevAvgLoss = (prevAvgLoss * (period - 1) + l) / period;
+      const rs2 = prevAvgLoss === 0 ? Infinity : prevAvgGain / prevAvgLoss;
+      out[i] = 100 - 100 / (1 + rs2);
+    }
+  }
+
+  return out;
+}
+
+export function summarizeIndicators(closes: Num[]) {
+  const sma20 = sma(closes, 20);
+  const sma50 = sma(closes, 50);
+  const sma200 = sma(closes, 200);
+  const ema20 = ema(closes, 20);
+  const ema50 = ema(closes, 50);
+  const ema200 = ema(closes, 200);
+  const macdVals = macd(closes, 12, 26, 9);
+  const rsi14 = rsi(closes, 14);
+
+  return {
+    lastClose: closes.at(-1) ?? null,
+    sma20: sma20.at(-1) ?? null,
+    sma50: sma50.at(-1) ?? null,
+    sma200: sma200.at(-1) ?? null,
+    ema20: ema20.at(-1) ?? null,
+    ema50: ema50.at(-1) ?? null,
+    ema200: ema200.at(-1) ?? null,
+    macd: {
+      line: macdVals.line.at(-1) ?? null,
+      signal: macdVals.signal.at(-1) ?? null,
+      hist: macdVals.hist.at(-1) ?? null,
+    },
+    rsi14: rsi14.at(-1) ?? null,
+  };
+}
+
+// ---- bar-based (OHLCV) indicators ----
+
+export type Bar = Pick<Agg, "t" | "o" | "h" | "l" | "c" | "v">;
+
+/** SMA that tolerates leading/embedded nulls (window must be all numbers). */
+function smaNullable(values: (number | null)[], period: number) {
+  const out = Array<number | null>(values.length).fill(null);
+  for (let i = period - 1; i < values.length; i++) {
+    let sum = 0;
+    let ok = true;
+    for (let j = i - period + 1; j <= i; j++) {
+      const v = values[j];
+      if (v == null) {
+        ok = false;
+        break;
+      }
+      sum += v;
+    }
+    if (ok) out[i] = sum / period;
+  }
+  return out;
+}
+
+/** Wilder smoothing seeded with the plain average of the first `period` values. */
+function wilder(values: number[], period: number, start = 0) {
+  const out = Array<number | null>(values.length).fill(null);
+  if (period <= 0 || values.length - start < period) return out;
+  let sum = 0;
+  for (let i = start; i < start + period; i++) sum += values[i];
+  let prev = sum / period;
+  out[start + period - 1] = prev;
+  for (let i = start + period; i < values.length; i++) {
+    prev = (prev * (period - 1) + values[i]) / period;
+    out[i] = prev;
+  }
+  return out;
+}
+
+/** True range: max(h-l, |h-prevClose|, |l-prevClose|) */
+export function trueRange(bars: Bar[]): number[] {
+  return bars.map((b, i) => {
+    if (i === 0) return b.h - b.l;
+    const pc = bars[i - 1].c;
+    return Math.max(b.h - b.l, Math.abs(b.h - pc), Math.abs(b.l - pc));
+  });
+}
+
+/** Average True Range (Wilder) */
+export function atr(bars: Bar[], period = 14): (number | null)[] {
+  return wilder(trueRange(bars), period);
+}
+
+/** Bollinger Bands: SMA ± mult·σ (population σ), plus bandwidth and %B */
+export function bollinger(values: Num[], period = 20, mult = 2) {
+  const middle = sma(values, period);
+  const upper = Array<number | null>(values.length).fill(null);
+  const lower = Array<number | null>(values.length).fill(null);
+  const bandwidth = Array<number | null>(values.length).fill(null);
+  const percentB = Array<number | null>(values.length).fill(null);
+
+  for (let i = period - 1; i < values.length; i++) {
+    const m = middle[i]!;
+    let sq = 0;
+    for (let j = i - period + 1; j <= i; j++) sq += (values[j] - m) ** 2;
+    const sd = Math.sqrt(sq / period);
+    upper[i] = m + mult * sd;
+    lower[i] = m - mult * sd;
+    bandwidth[i] = m !== 0 ? (upper[i]! - lower[i]!) / m : null;
+    percentB[i] =
+      upper[i] !== lower[i]
+        ? (values[i] - lower[i]!) / (upper[i]! - lower[i]!)
+        : null;
+  }
+  return { middle, upper, lower, bandwidth, percentB };
+}
+
+/** Stochastic oscillator (slow): raw %K smoothed by `smooth`, %D = SMA of %K */
+export function stochastic(bars: Bar[], kPeriod = 14, dPeriod = 3, smooth = 3) {
+  const raw = Array<number | null>(bars.length).fill(null);
+  for (let i = kPeriod - 1; i < bars.length; i++) {
+    let hh = -Infinity;
+    let ll = Infinity;
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      if (bars[j].h > hh) hh = bars[j].h;
+      if (bars[j].l < ll) ll = bars[j].l;
+    }
+    raw[i] = hh === ll ? 50 : ((bars[i].c - ll) / (hh - ll)) * 100;
+  }
+  const k = smooth > 1 ? smaNullable(raw, smooth) : raw;
+  const d = smaNullable(k, dPeriod);
+  return { k, d };
+}
+
+/** ADX with +DI / -DI (Wilder, 14 by default) */
+export function adx(bars: Bar[], period = 14) {
+  const n = bars.length;
+  const plusDM = Array<number>(n).fill(0);
+  const minusDM = Array<number>(n).fill(0);
+  for (let i = 1; i < n; i++) {
+    const up = bars[i].h - bars[i - 1].h;
+    const down = bars[i - 1].l - bars[i].l;
+    plusDM[i] = up > down && up > 0 ? up : 0;
+    minusDM[i] = down > up && down > 0 ? down : 0;
+  }
+  const tr = trueRange(bars);
+  // smoothing starts at bar 1 (bar 0 has no directional movement)
+  const trS = wilder(tr, period, 1);
+  const plusS = wilder(plusDM, period, 1);
+  const minusS = wilder(minusDM, period, 1);
+
+  const plusDI = Array<number | null>(n).fill(null);
+  const minusDI = Array<number | null>(n).fill(null);
+  const dx: number[] = [];
+  let dxStart = -1;
+  for (let i = 0; i < n; i++) {
+    const t = trS[i];
+    if (t == null || plusS[i] == null || minusS[i] == null) continue;
+    plusDI[i] = t ? (plusS[i]! / t) * 100 : 0;
+    minusDI[i] = t ? (minusS[i]! / t) * 100 : 0;
+    const sum = plusDI[i]! + minusDI[i]!;
+    if (dxStart < 0) dxStart = i;
+    dx.push(sum ? (Math.abs(plusDI[i]! - minusDI[i]!) / sum) * 100 : 0);
+  }
+
+  const adxLine = Array<number | null>(n).fill(null);
+  if (dxStart >= 0) {
+    const smoothed = wilder(dx, period);
+    smoothed.forEach((v, j) => {
+      if (v != null) adxLine[dxStart + j] = v;
+    });
+  }
+  return { adx: adxLine, plusDI, minusDI };
+}
+
+/** On-Balance Volume */
+export function obv(bars: Bar[]): number[] {
+  const out: number[] = [];
+  let acc = 0;
+  bars.forEach((b, i) => {
+    if (i > 0) {
+      if (b.c > bars[i - 1].c) acc += b.v;
+      else if (b.c < bars[i - 1].c) acc -= b.v;
+    }
+    out.push(acc);
+  });
+  return out;
+}
+
+/** Money Flow Index (volume-weighted RSI on typical price) */
+export function mfi(bars: Bar[], period = 14): (number | null)[] {
+  const out = Array<number | null>(bars.length).fill(null);
+  const tp = bars.map((b) => (b.h + b.l + b.c) / 3);
+  for (let i = period; i < bars.length; i++) {
+    let pos = 0;
+    let neg = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      const flow = tp[j] * bars[j].v;
+      if (tp[j] > tp[j - 1]) pos += flow;
+      else if (tp[j] < tp[j - 1]) neg += flow;
+    }
+    out[i] = neg === 0 ? 100 : 100 - 100 / (1 + pos / neg);
+  }
+  return out;
+}
+
+/** VWAP anchored at the first bar with t >= `anchorT` (whole series if omitted) */
+export function anchoredVwap(bars: Bar[], anchorT?: number) {
+  const out = Array<number | null>(bars.length).fill(null);
+  const start = anchorT == null ? 0 : bars.findIndex((b) => b.t >= anchorT);
+  if (start < 0) return out;
+  let pv = 0;
+  let vol = 0;
+  for (let i = start; i < bars.length; i++) {
+    const b = bars[i];
+    pv += ((b.h + b.l + b.c) / 3) * b.v;
+    vol += b.v;
+    out[i] = vol > 0 ? pv / vol : null;
+  }
+  return out;
+}
+
+/** Keltner Channels: EMA(close) ± mult·ATR */
+export function keltner(bars: Bar[], emaPeriod = 20, atrPeriod = 10, mult = 2) {
+  const middle = ema(
+    bars.map((b) => b.c),
+    emaPeriod
+  );
+  const a = atr(bars, atrPeriod);
+  const upper = middle.map((m, i) =>
+    m != null && a[i] != null ? m + mult * a[i]! : null
+  );
+  const lower = middle.map((m, i) =>
+    m != null && a[i] != null ? m - mult * a[i]! : null
+  );
+  return { middle, upper, lower };
+}
+
+/** Heikin-Ashi candles; each bar depends on the previous one, so compute on the full series. */
+export function heikinAshi<T extends Bar>(bars: T[]): T[] {
+  const out: T[] = [];
+  for (const b of bars) {
+    const prev = out.at(-1);
+    const c = (b.o + b.h + b.l + b.c) / 4;
+    const o = prev ? (prev.o + prev.c) / 2 : (b.o + b.c) / 2;
+    out.push({ ...b, o, c, h: Math.max(b.h, o, c), l: Math.min(b.l, o, c) });
+  }
+  return out;
+}
+
+/**
+ * Everything `summarizeIndicators` reports plus the OHLCV-based set.
+ * Anchored VWAP defaults to the first bar of the latest calendar year (YTD).
+ */
+export function summarizeBars(bars: Bar[], opts: { vwapAnchor?: number } = {}) {
+  const closes = bars.map((b) => b.c);
+  const base = summarizeIndicators(closes);
+  const last = bars.at(-1);
+
+  const atr14 = atr(bars, 14).at(-1) ?? null;
+  const bb = bollinger(closes, 20, 2);
+  const stoch = stochastic(bars, 14, 3, 3);
+  const dmi = adx(bars, 14);
+  const obvSeries = obv(bars);
+  const kc = keltner(bars, 20, 10, 2);
+
+  const anchor =
+    opts.vwapAnchor ??
+    (last ? Date.UTC(new Date(last.t).getUTCFullYear(), 0, 1) : undefined);
+  const vwapSeries = anchoredVwap(bars, anchor);
+  const anchorBar = bars.find((b) => anchor == null || b.t >= anchor);
+
+  return {
+    ...base,
+    atr14,
+    atrPct: atr14 != null && last?.c ? (atr14 / last.c) * 100 : null,
+    bollinger: {
+      upper: bb.upper.at(-1) ?? null,
+      middle: bb.middle.at(-1) ?? null,
+      lower: bb.lower.at(-1) ?? null,
+      bandwidth: bb.bandwidth.at(-1) ?? null,
+      percentB: bb.percentB.at(-1) ?? null,
+    },
+    stochastic: {
+      k: stoch.k.at(-1) ?? null,
+      d: stoch.d.at(-1) ?? null,
+    },
+    adx: {
+      adx: dmi.adx.at(-1) ?? null,
+      plusDI: dmi.plusDI.at(-1) ?? null,
+      minusDI: dmi.minusDI.at(-1) ?? null,
+    },
+    obv: obvSeries.at(-1) ?? null,
+    // OBV change over the last 20 bars: accumulation (+) vs distribution (-)
+    obvChange20:
+      obvSeries.length > 20
+        ? obvSeries[obvSeries.length - 1] - obvSeries[obvSeries.length - 21]
+        : null,
+    mfi14: mfi(bars, 14).at(-1) ?? null,
+    vwap: {
+      anchored: vwapSeries.at(-1) ?? null,
+      anchorDate: anchorBar
+        ? new Date(anchorBar.t).toISOString().slice(0, 10)
+        : null,
+    },
+    keltner: {
+      upper: kc.upper.at(-1) ?? null,
+      middle: kc.middle.at(-1) ?? null,
+      lower: kc.lower.at(-1) ?? null,
+    },
+  };
+}
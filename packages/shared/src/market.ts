@@ -0,0 +1,29 @@
+// packages/shared/src/market.ts
+// Vendor-neutral market data shapes. The API normalizes whatever its data
+// provider returns into these before anything reaches the client.
+import type { Agg } from "./types";
+
+export type TickerDetails = {
+  ticker: string;
+  name?: string;
+  market_cap?: number;
+  currency_name?: string;
+  primary_exchange?: string;
+  industry?: string;
+  homepage_url?: string;
+  logo_url?: string;
+};
+
+export type NewsItem = {
+  id: string;
+  title: string;
+  publisher?: string;
+  published_utc?: string;
+  article_url?: string;
+};
+
+/** The most recent completed daily bar (null when the provider has none). */
+export type PrevClose = {
+  ticker: string;
+  bar: Agg | null;
+};
@@ -0,0 +1,278 @@
+// packages/shared/src/optimize.ts
+// Portfolio construction from historical daily returns: max-Sharpe, minimum
+// variance, risk parity and equal weight, plus the efficient frontier.
+// Returns and volatilities are annualized percentages like risk.ts.
+import { TRADING_DAYS } from "./risk";
+import { mean, simpleReturns } from "./series";
+
+export type OptimizeConstraints = {
+  longOnly: boolean;
+  maxWeight: number; // per name, fraction of the portfolio (0.25 = 25%)
+  targetVol?: number | null; // annualized %, caps the max-Sharpe pick
+  riskFreeRate?: number; // annual, 0.04 = 4%
+};
+
+export type PortfolioStats = {
+  expectedReturn: number; // annualized %
+  volatility: number; // annualized %
+  sharpe: number | null;
+};
+
+export type Allocation = PortfolioStats & { weights: Record<string, number> };
+
+export type StrategyName =
+  "maxSharpe" | "minVariance" | "riskParity" | "equalWeight";
+
+export type OptimizeResult = {
+  symbols: string[];
+  strategies: Record<StrategyName, Allocation>;
+  current: Allocation | null; // the weights passed in, if any
+  frontier: PortfolioStats[];
+  assets: Record<string, PortfolioStats>;
+  observations: number;
+  warnings: string[];
+};
+
+export function validateConstraints(input: unknown): string[] {
+  if (!input || typeof input !== "object")
+    return ["constraints must be an object"];
+  const c = input as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof c.longOnly !== "boolean") errors.push("longOnly must be boolean");
+  if (!(Number(c.maxWeight) > 0 && Number(c.maxWeight) <= 1))
+    errors.push("maxWeight must be in (0, 1]");
+  if (c.targetVol != null && !(Number(c.targetVol) > 0))
+    errors.push("targetVol must be > 0");
+  if (c.riskFreeRate != null && !Number.isFinite(Number(c.riskFreeRate)))
+    errors.push("riskFreeRate must be a number");
+  return errors;
+}
+
+type Vec = number[];
+type Mat = number[][];
+
+const dot = (a: Vec, b: Vec) => a.reduce((s, x, i) => s + x * b[i], 0);
+const mul = (m: Mat, v: Vec) => m.map((row) => dot(row, v));
+
+/** Annualized mean returns and covariance of aligned daily closes. */
+export function returnMoments(closes: number[][]) {
+  const rets = closes.map(simpleReturns);
+  const n = rets.length;
+  const t = rets[0]?.length ?? 0;
+  const mu = rets.map((r) => mean(r));
+  const cov: Mat = mu.map(() => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) {
+      let s = 0;
+      for (let k = 0; k < t; k++)
+        s += (rets[i][k] - mu[i]) * (rets[j][k] - mu[j]);
+      cov[i][j] = cov[j][i] = (s / Math.max(1, t - 1)) * TRADING_DAYS;
+    }
+  }
+  return { mu: mu.map((m) => m * TRADING_DAYS), cov, observations: t };
+}
+
+export function portfolioStats(
+  w: Vec,
+  mu: Vec,
+  cov: Mat,
+  rf = 0
+): PortfolioStats {
+  const ret = dot(w, mu);
+  const vol = Math.sqrt(Math.max(0, dot(w, mul(cov, w))));
+  return {
+    expectedReturn: ret * 100,
+    volatility: vol * 100,
+    sharpe: vol > 0 ? (ret - rf) / vol : null,
+  };
+}
+
+/**
+ * Euclidean projection onto { lo <= w_i <= hi, sum(w) = 1 }: clip(v - τ)
+ * with τ found by bisection (the sum is monotone in τ).
+ */
+function project(v: Vec, lo: number, hi: number): Vec {
+  const sum = (tau: number) =>
+    v.reduce((s, x) => s + Math.min(hi, Math.max(lo, x - tau)), 0);
+  let a = Math.min(...v) - hi - 1;
+  let b = Math.max(...v) - lo + 1;
+  for (let k = 0; k < 100; k++) {
+    const m = (a + b) / 2;
+    if (sum(m) > 1) a = m;
+    else b = m;
+  }
+  const tau = (a + b) / 2;
+  return v.map((x) => Math.min(hi, Math.max(lo, x - tau)));
+}
+
+/** Largest eigenvalue by power iteration, for the gradient step size. */
+function spectralNorm(m: Mat) {
+  let v = m.map(() => 1);
+  let lambda = 0;
+  for (let k = 0; k < 100; k++) {
+    const mv = mul(m, v);
+    const norm = Math.sqrt(dot(mv, mv));
+    if (!norm) return 0;
+    lambda = norm / Math.sqrt(dot(v, v));
+    v = mv.map((x) => x / norm);
+  }
+  return lambda;
+}
+
+/**
+ * min ½·wᵀΣw − λ·μᵀw over the constraint set, by projected gradient descent.
+ * λ = 0 is the minimum-variance portfolio.
+ */
+function meanVariance(
+  mu: Vec,
+  cov: Mat,
+  lambda: number,
+  lo: number,
+  hi: number,
+  start: Vec
+) {
+  const step = 1 / Math.max(spectralNorm(cov), 1e-12);
+  let w = project(start, lo, hi);
+  for (let k = 0; k < 5000; k++) {
+    const g = mul(cov, w).map((x, i) => x - lambda * mu[i]);
+    const next = project(
+      w.map((x, i) => x - step * g[i]),
+      lo,
+      hi
+    );
+    const moved = next.reduce((s, x, i) => s + Math.abs(x - w[i]), 0);
+    w = next;
+    if (moved < 1e-10) break;
+  }
+  return w;
+}
+
+/** Equal risk contributions (long-only), by multiplicative updates. */
+function riskParity(cov: Mat) {
+  const n = cov.length;
+  let w: Vec = new Array(n).fill(1 / n);
+  for (let k = 0; k < 1000; k++) {
+    const mw = mul(cov, w);
+    const total = dot(w, mw);
+    if (!(total > 0)) break;
+    const next = w.map((x, i) => {
+      const rc = (x * mw[i]) / total;
+      return rc > 0 ? x * Math.sqrt(1 / n / rc) : x;
+    });
+    const s = next.reduce((a, b) => a + b, 0);
+    const normed = next.map((x) => x / s);
+    const moved = normed.reduce((a, x, i) => a + Math.abs(x - w[i]), 0);
+    w = normed;
+    if (moved < 1e-12) break;
+  }
+  return w;
+}
+
+const FRONTIER_POINTS = 40;
+
+/**
+ * Optimize over aligned daily closes (one array per symbol, same dates).
+ * The frontier is traced by sweeping the risk-aversion trade-off; the
+ * max-Sharpe pick is the frontier point with the best Sharpe ratio whose
+ * volatility stays within `targetVol` when one is set. `current` weights
+ * (e.g. today's holdings) are evaluated on the same return estimates.
+ */
+export function optimizePortfolio(
+  closes: Record<string, number[]>,
+  c: OptimizeConstraints,
+  current?: Record<string, number>
+): OptimizeResult {
+  const symbols = Object.keys(closes);
+  const n = symbols.length;
+  const rf = c.riskFreeRate ?? 0;
+  const hi = Math.min(1, c.maxWeight);
+  const lo = c.longOnly ? 0 : -hi;
+  if (n * hi < 1 - 1e-9)
+    throw new Error(
+      `maxWeight ${hi} is infeasible for ${n} names (need >= ${(1 / n).toFixed(4)})`
+    );
+
+  const { mu, cov, observations } = returnMoments(
+    symbols.map((s) => closes[s])
+  );
+  const warnings: string[] = [];
+  const stats = (w: Vec) => portfolioStats(w, mu, cov, rf);
+  const alloc = (w: Vec): Allocation => ({
+    ...stats(w),
+    weights: Object.fromEntries(symbols.map((s, i) => [s, w[i]])),
+  });
+
+  const equal: Vec = new Array(n).fill(1 / n);
+  const minVar = meanVariance(mu, cov, 0, lo, hi, equal);
+
+  // λ scale: where the return term starts to rival the variance term
+  const avgVar = cov.reduce((s, row, i) => s + row[i], 0) / n;
+  const muScale = Math.max(...mu.map(Math.abs), 1e-9);
+  const base = avgVar / muScale;
+  const frontierW: Vec[] = [minVar];
+  let prev = minVar;
+  for (let k = 1; k < FRONTIER_POINTS; k++) {
+    const lambda = base * 10 ** (-2 + (4 * k) / (FRONTIER_POINTS - 1));
+    prev = meanVariance(mu, cov, lambda, lo, hi, prev);
+    frontierW.push(prev);
+  }
+  const frontier = frontierW.map(stats);
+  // large and tiny λ pin the weights at the bounds; drop the repeats
+  const distinct = frontier.filter(
+    (p, i) =>
+      i === 0 ||
+      Math.abs(p.volatility - frontier[i - 1].volatility) +
+        Math.abs(p.expectedReturn - frontier[i - 1].expectedReturn) >
+        1e-3
+  );
+
+  const eligible = frontierW
+    .map((w, i) => ({ w, s: frontier[i] }))
+    .filter((p) => c.targetVol == null || p.s.volatility <= c.targetVol);
+  if (c.targetVol != null && !eligible.length)
+    warnings.push(
+      `targetVol ${c.targetVol}% is below the minimum-variance volatility; using minimum variance`
+    );
+  const best = (eligible.length ? eligible : [{ w: minVar, s: frontier[0] }])
+    .slice()
+    .sort((a, b) => (b.s.sharpe ?? -Infinity) - (a.s.sharpe ?? -Infinity))[0];
+
+  let rp = riskParity(cov);
+  if (rp.some((x) => x > hi + 1e-9)) {
+    rp = project(rp, 0, hi);
+    warnings.push("risk parity weights were capped at maxWeight");
+  }
+
+  if (c.targetVol != null) {
+    for (const [name, w] of [
+      ["riskParity", rp],
+      ["equalWeight", equal],
+    ] as const) {
+      const vol = stats(w).volatility;
+      if (vol > c.targetVol)
+        warnings.push(
+          `${name} volatility ${vol.toFixed(2)}% exceeds targetVol ${c.targetVol}%`
+        );
+    }
+  }
+
+  return {
+    symbols,
+    strategies: {
+      maxSharpe: alloc(best.w),
+      minVariance: alloc(minVar),
+      riskParity: alloc(rp),
+      equalWeight: alloc(equal),
+    },
+    current: current ? alloc(symbols.map((s) => current[s] ?? 0)) : null,
+    frontier: distinct,
+    assets: Object.fromEntries(
+      symbols.map((s, i) => [
+        s,
+        stats(symbols.map((_, j) => (i === j ? 1 : 0))),
+      ])
+    ),
+    observations,
+    warnings,
+  };
+}
@@ -0,0 +1,217 @@
+// packages/shared/src/portfolio.ts
+// Transaction ledger → FIFO lots, positions and P&L. Pure functions; the API
+// owns persistence and prices, the web app only renders the results.
+
+export type Side = "buy" | "sell";
+
+export type Transaction = {
+  id: string;
+  ticker: string;
+  side: Side;
+  quantity: number;
+  price: number; // per share, in the trade currency
+  fees: number; // total for the transaction
+  date: string; // YYYY-MM-DD (trade date)
+  note?: string;
+  createdAt: string;
+};
+
+export type TransactionInput = Omit<Transaction, "id" | "createdAt">;
+
+export type Lot = {
+  date: string;
+  quantity: number;
+  price: number;
+  costPerShare: number; // price + buy fees spread over the lot
+};
+
+export type Position = {
+  ticker: string;
+  quantity: number;
+  costBasis: number; // open lots only
+  avgCost: number | null;
+  realizedPnl: number;
+  fees: number;
+  lots: Lot[];
+};
+
+export type RealizedSale = {
+  transactionId: string;
+  ticker: string;
+  date: string;
+  quantity: number;
+  proceeds: number; // after sell fees
+  cost: number;
+  pnl: number;
+};
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TICKER_RE = /^[A-Z0-9.:-]{1,16}$/;
+
+/** Structural check for a transaction arriving as untrusted JSON. */
+export function validateTransaction(input: unknown): string[] {
+  if (!input || typeof input !== "object") return ["body must be an object"];
+  const t = input as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof t.ticker !== "string" || !TICKER_RE.test(t.ticker.toUpperCase()))
+    errors.push("ticker is invalid");
+  if (t.side !== "buy" && t.side !== "sell")
+    errors.push('side must be "buy" or "sell"');
+  if (!(Number(t.quantity) > 0)) errors.push("quantity must be > 0");
+  if (!(Number(t.price) >= 0)) errors.push("price must be >= 0");
+  if (t.fees != null && !(Number(t.fees) >= 0))
+    errors.push("fees must be >= 0");
+  if (typeof t.date !== "string" || !DATE_RE.test(t.date))
+    errors.push("date must be YYYY-MM-DD");
+  if (t.note != null && typeof t.note !== "string")
+    errors.push("note must be a string");
+  return errors;
+}
+
+/** Trade-date order; same-day entries keep the order they were recorded in. */
+export function sortTransactions(txs: Transaction[]) {
+  return [...txs].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+/**
+ * Incremental FIFO book: apply transactions in trade-date order and read
+ * positions at any point. Sells consume the oldest lots first.
+ */
+export class LotBook {
+  private positions = new Map<string, Position>();
+  readonly sales: RealizedSale[] = [];
+
+  /** Throws if a sell exceeds the quantity held. */
+  apply(tx: Transaction) {
+    const pos = this.positions.get(tx.ticker) ?? {
+      ticker: tx.ticker,
+      quantity: 0,
+      costBasis: 0,
+      avgCost: null,
+      realizedPnl: 0,
+      fees: 0,
+      lots: [],
+    };
+    pos.fees += tx.fees;
+
+    if (tx.side === "buy") {
+      pos.lots.push({
+        date: tx.date,
+        quantity: tx.quantity,
+        price: tx.price,
+        costPerShare: tx.price + tx.fees / tx.quantity,
+      });
+    } else {
+      if (tx.quantity > pos.quantity + 1e-9) {
+        throw new Error(
+          `sell of ${tx.quantity} ${tx.ticker} on ${tx.date} exceeds ${pos.quantity} held`
+        );
+      }
+      let left = tx.quantity;
+      let cost = 0;
+      while (left > 1e-9 && pos.lots.length) {
+        const lot = pos.lots[0];
+        const take = Math.min(left, lot.quantity);
+        cost += take * lot.costPerShare;
+        lot.quantity -= take;
+        left -= take;
+        if (lot.quantity <= 1e-9) pos.lots.shift();
+      }
+      const proceeds = tx.quantity * tx.price - tx.fees;
+      pos.realizedPnl += proceeds - cost;
+      this.sales.push({
+        transactionId: tx.id,
+        ticker: tx.ticker,
+        date: tx.date,
+        quantity: tx.quantity,
+        proceeds,
+        cost,
+        pnl: proceeds - cost,
+      });
+    }
+
+    pos.quantity = pos.lots.reduce((s, l) => s + l.quantity, 0);
+    pos.costBasis = pos.lots.reduce(
+      (s, l) => s + l.quantity * l.costPerShare,
+      0
+    );
+    pos.avgCost = pos.quantity > 0 ? pos.costBasis / pos.quantity : null;
+    this.positions.set(tx.ticker, pos);
+  }
+
+  /** Snapshot of every ticker ever traded (closed positions have quantity 0). */
+  snapshot(): Position[] {
+    return [...this.positions.values()].map((p) => ({
+      ...p,
+      lots: p.lots.map((l) => ({ ...l })),
+    }));
+  }
+
+  costBasis() {
+    let s = 0;
+    for (const p of this.positions.values()) s += p.costBasis;
+    return s;
+  }
+}
+
+/** Replay the whole ledger. Throws on an impossible sell. */
+export function buildPositions(txs: Transaction[]) {
+  const book = new LotBook();
+  for (const tx of sortTransactions(txs)) book.apply(tx);
+  return { positions: book.snapshot(), sales: book.sales };
+}
+
+export type ValuePoint = {
+  date: string;
+  value: number; // market value of open positions
+  cost: number; // cost basis of open lots
+  realized: number; // cumulative realized P&L
+};
+
+/**
+ * Daily portfolio value from per-ticker closes (keyed by market date). A
+ * ticker without a close on some date is valued at its last known close.
+ */
+export function valueHistory(
+  txs: Transaction[],
+  closes: Record<string, { date: string; c: number }[]>,
+  until: string
+): ValuePoint[] {
+  const sorted = sortTransactions(txs);
+  if (!sorted.length) return [];
+
+  const byDate = new Map<string, Map<string, number>>();
+  for (const [ticker, rows] of Object.entries(closes)) {
+    for (const r of rows) {
+      if (!byDate.has(r.date)) byDate.set(r.date, new Map());
+      byDate.get(r.date)!.set(ticker, r.c);
+    }
+  }
+  const dates = [...byDate.keys()]
+    .filter((d) => d >= sorted[0].date && d <= until)
+    .sort();
+
+  const book = new LotBook();
+  const last = new Map<string, number>();
+  const out: ValuePoint[] = [];
+  let i = 0;
+  for (const date of dates) {
+    while (i < sorted.length && sorted[i].date <= date) book.apply(sorted[i++]);
+    for (const [t, c] of byDate.get(date)!) last.set(t, c);
+
+    let value = 0;
+    for (const p of book.snapshot()) {
+      if (p.quantity > 0) value += p.quantity * (last.get(p.ticker) ?? 0);
+    }
+    out.push({
+      date,
+      value,
+      cost: book.costBasis(),
+      realized: book.sales.reduce((s, x) => s + x.pnl, 0),
+    });
+  }
+  return out;
+}
@@ -0,0 +1,226 @@
+// packages/shared/src/risk.ts
+// Risk metrics from daily closes. Percentages are expressed like the rest of
+// the stats block (12.34 = 12.34%); ratios are unitless and annualized.
+import {
+  alignCloses,
+  correlation,
+  marketDateOf,
+  mean,
+  simpleReturns,
+  stdev,
+  type ClosePoint,
+} from "./series";
+
+export const TRADING_DAYS = 252;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const finite = (n: number) => (Number.isFinite(n) ? n : null);
+
+/** Bars within `days` calendar days of the last bar (inclusive). */
+export function trailing<T extends ClosePoint>(points: T[], days: number) {
+  if (!points.length) return points;
+  const cutoff = points[points.length - 1].t - days * DAY_MS;
+  return points.filter((p) => p.t >= cutoff);
+}
+
+/** Close-to-close return over the trailing `days` calendar days, in %. */
+export function trailingReturn(points: ClosePoint[], days = 365) {
+  const w = trailing(points, days);
+  if (w.length < 2 || !w[0].c) return null;
+  return (w[w.length - 1].c / w[0].c - 1) * 100;
+}
+
+/** Annualized stdev of the last `window` daily returns, in %. */
+export function realizedVol(returns: number[], window: number) {
+  if (returns.length < window) return null;
+  return finite(stdev(returns.slice(-window)) * Math.sqrt(TRADING_DAYS) * 100);
+}
+
+export type DrawdownStats = {
+  maxDrawdownPct: number; // <= 0
+  peakDate: string | null;
+  troughDate: string | null;
+  recoveryDate: string | null; // null while still under water
+  durationDays: number; // peak → recovery (or → last bar), calendar days
+  longestDurationDays: number; // longest peak → recovery episode
+  currentDrawdownPct: number;
+};
+
+export function drawdowns(points: ClosePoint[]): DrawdownStats {
+  const out: DrawdownStats = {
+    maxDrawdownPct: 0,
+    peakDate: null,
+    troughDate: null,
+    recoveryDate: null,
+    durationDays: 0,
+    longestDurationDays: 0,
+    currentDrawdownPct: 0,
+  };
+  if (!points.length) return out;
+
+  let peak = points[0];
+  let maxDd = 0;
+  let maxPeak = peak;
+  let maxTrough = peak;
+  let maxRecovery: ClosePoint | null = null;
+  let episodeStart: ClosePoint | null = null;
+
+  for (const p of points) {
+    if (p.c >= peak.c) {
+      // back at (or above) the high: close any open episode
+      if (episodeStart) {
+        const len = (p.t - episodeStart.t) / DAY_MS;
+        out.longestDurationDays = Math.max(out.longestDurationDays, len);
+        if (episodeStart === maxPeak && !maxRecovery) maxRecovery = p;
+        episodeStart = null;
+      }
+      peak = p;
+      continue;
+    }
+    episodeStart ??= peak;
+    const dd = p.c / peak.c - 1;
+    if (dd < maxDd) {
+      maxDd = dd;
+      maxPeak = peak;
+      maxTrough = p;
+      maxRecovery = null;
+    }
+  }
+
+  const last = points[points.length - 1];
+  if (episodeStart) {
+    out.longestDurationDays = Math.max(
+      out.longestDurationDays,
+      (last.t - episodeStart.t) / DAY_MS
+    );
+  }
+  out.maxDrawdownPct = maxDd * 100;
+  out.currentDrawdownPct = (last.c / peak.c - 1) * 100;
+  if (maxDd < 0) {
+    out.peakDate = marketDateOf(maxPeak.t);
+    out.troughDate = marketDateOf(maxTrough.t);
+    out.recoveryDate = maxRecovery ? marketDateOf(maxRecovery.t) : null;
+    out.durationDays = Math.round(
+      ((maxRecovery ?? last).t - maxPeak.t) / DAY_MS
+    );
+  }
+  out.longestDurationDays = Math.round(out.longestDurationDays);
+  return out;
+}
+
+/** Annualized Sharpe ratio; `rf` is the annual risk-free rate (0.04 = 4%). */
+export function sharpe(returns: number[], rf = 0) {
+  const excess = returns.map((r) => r - rf / TRADING_DAYS);
+  return finite((mean(excess) / stdev(excess)) * Math.sqrt(TRADING_DAYS));
+}
+
+/** Like Sharpe, but only penalizes returns below the risk-free rate. */
+export function sortino(returns: number[], rf = 0) {
+  if (returns.length < 2) return null;
+  const excess = returns.map((r) => r - rf / TRADING_DAYS);
+  const downside = Math.sqrt(mean(excess.map((r) => Math.min(0, r) ** 2)));
+  return finite((mean(excess) / downside) * Math.sqrt(TRADING_DAYS));
+}
+
+/**
+ * Historical one-day Value at Risk and Conditional VaR (expected shortfall)
+ * at `level` confidence, as positive loss percentages.
+ */
+export function historicalVaR(returns: number[], level = 0.95) {
+  if (returns.length < 20) return { var: null, cvar: null };
+  const sorted = [...returns].sort((a, b) => a - b);
+  const k = Math.max(1, Math.floor((1 - level) * sorted.length));
+  const tail = sorted.slice(0, k);
+  return {
+    var: -sorted[k - 1] * 100,
+    cvar: -mean(tail) * 100,
+  };
+}
+
+/** Regression beta and correlation of daily returns against a benchmark. */
+export function betaVs(points: ClosePoint[], benchmark: ClosePoint[]) {
+  const aligned = alignCloses({ asset: points, bench: benchmark });
+  const a = simpleReturns(aligned.closes.asset);
+  const b = simpleReturns(aligned.closes.bench);
+  if (a.length < 20) return { beta: null, correlation: null, days: a.length };
+  const vb = stdev(b) ** 2;
+  const corr = correlation(a, b);
+  return {
+    beta: finite((corr * stdev(a) * stdev(b)) / vb),
+    correlation: finite(corr),
+    days: a.length,
+  };
+}
+
+export type RiskMetrics = {
+  vol20d: number | null;
+  vol60d: number | null;
+  vol1y: number | null;
+  drawdown: DrawdownStats;
+  beta: number | null;
+  correlation: number | null;
+  benchmark: string | null;
+  sharpe: number | null;
+  sortino: number | null;
+  calmar: number | null;
+  var95: number | null;
+  cvar95: number | null;
+  var99: number | null;
+  cvar99: number | null;
+  return1y: number | null;
+  lookbackDays: number; // daily returns the 1y figures are based on
+};
+
+/**
+ * Full risk summary over the trailing year (volatility also at 20d/60d).
+ * Beta/correlation need a benchmark series, e.g. SPY.
+ */
+export function computeRisk(
+  points: ClosePoint[],
+  opts: {
+    benchmark?: { symbol: string; points: ClosePoint[] };
+    riskFreeRate?: number;
+  } = {}
+): RiskMetrics {
+  const rf = opts.riskFreeRate ?? 0;
+  const all = simpleReturns(points.map((p) => p.c));
+  const year = trailing(points, 365);
+  const yearReturns = simpleReturns(year.map((p) => p.c));
+  const dd = drawdowns(year);
+  const ret1y = trailingReturn(points, 365);
+
+  // Calmar: annualized return over the window / |max drawdown|
+  const years =
+    year.length > 1 ? (year.at(-1)!.t - year[0].t) / (365 * DAY_MS) : 0;
+  const cagr =
+    years > 0 && year[0].c
+      ? (year.at(-1)!.c / year[0].c) ** (1 / years) - 1
+      : NaN;
+  const calmar =
+    dd.maxDrawdownPct < 0 ? finite(cagr / (-dd.maxDrawdownPct / 100)) : null;
+
+  const v95 = historicalVaR(yearReturns, 0.95);
+  const v99 = historicalVaR(yearReturns, 0.99);
+  const bench = opts.benchmark
+    ? betaVs(year, trailing(opts.benchmark.points, 365 + 7))
+    : null;
+
+  return {
+    vol20d: realizedVol(all, 20),
+    vol60d: realizedVol(all, 60),
+    vol1y: realizedVol(yearReturns, Math.min(yearReturns.length, TRADING_DAYS)),
+    drawdown: dd,
+    beta: bench?.beta ?? null,
+    correlation: bench?.correlation ?? null,
+    benchmark: opts.benchmark?.symbol ?? null,
+    sharpe: yearReturns.length >= 20 ? sharpe(yearReturns, rf) : null,
+    sortino: yearReturns.length >= 20 ? sortino(yearReturns, rf) : null,
+    calmar,
+    var95: v95.var,
+    cvar95: v95.cvar,
+    var99: v99.var,
+    cvar99: v99.cvar,
+    return1y: ret1y,
+    lookbackDays: yearReturns.length,
+  };
+}
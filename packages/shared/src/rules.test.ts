@@ -0,0 +1,64 @@
+// packages/shared/src/rules.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validateConditions } from "./rules";
+
+const price = { kind: "price" };
+const cond = (left: unknown, right: unknown = price) => [
+  { left, op: ">", right },
+];
+
+test("accepts well-formed conditions", () => {
+  const ok = [
+    ...cond({ kind: "sma", period: 50 }, { kind: "ema", period: 20 }),
+    ...cond({ kind: "rsi" }, { kind: "const", value: 70 }),
+    ...cond({ kind: "rsi", period: 9 }, { kind: "const", value: 30 }),
+    ...cond(
+      { kind: "macd", part: "line", fast: 8, slow: 21, signal: 5 },
+      { kind: "macd", part: "signal" }
+    ),
+    ...cond({ kind: "price", field: "h" }, { kind: "volume" }),
+  ];
+  assert.deepEqual(validateConditions(ok, "entry"), []);
+});
+
+test("rejects non-integer and out-of-range periods", () => {
+  for (const period of [2.5, 0, -3, 5000, "20", null]) {
+    const errors = validateConditions(cond({ kind: "sma", period }), "entry");
+    assert.equal(errors.length, 1, `period ${period}`);
+    assert.match(errors[0], /entry\[0\]\.left\.period/);
+  }
+});
+
+test("checks rsi and macd parameters", () => {
+  assert.match(
+    validateConditions(cond({ kind: "rsi", period: 1.5 }), "c")[0],
+    /c\[0\]\.left\.period/
+  );
+  assert.match(
+    validateConditions(cond({ kind: "macd", part: "hist", fast: 0 }), "c")[0],
+    /\.fast must be an integer/
+  );
+  assert.match(
+    validateConditions(cond({ kind: "macd", part: "bar" }), "c")[0],
+    /\.part must be one of/
+  );
+  assert.match(
+    validateConditions(
+      cond({ kind: "macd", part: "line", fast: 26, slow: 12 }),
+      "c"
+    )[0],
+    /fast must be shorter than slow/
+  );
+});
+
+test("rejects unknown price fields and non-finite constants", () => {
+  const errors = validateConditions(
+    cond({ kind: "price", field: "x" }, { kind: "const", value: Infinity }),
+    "c"
+  );
+  assert.deepEqual(errors, [
+    "c[0].left.field must be one of o, h, l, c",
+    "c[0].right.value must be a number",
+  ]);
+});
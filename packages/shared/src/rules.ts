@@ -0,0 +1,255 @@
+// packages/shared/src/rules.ts
+// Small JSON-serializable condition language over bar series, so a rule can
+// be written in the UI, sent to the API and evaluated the same way on both.
+import { ema, macd, rsi, sma } from "./indicators";
+import type { Agg } from "./types";
+
+export type PriceField = "o" | "h" | "l" | "c";
+
+export type Operand =
+  | { kind: "price"; field?: PriceField } // default: close
+  | { kind: "volume" }
+  | { kind: "sma" | "ema"; period: number; field?: PriceField }
+  | { kind: "rsi"; period?: number }
+  | {
+      kind: "macd";
+      part: "line" | "signal" | "hist";
+      fast?: number;
+      slow?: number;
+      signal?: number;
+    }
+  | { kind: "const"; value: number };
+
+export type Comparator =
+  ">" | ">=" | "<" | "<=" | "crossesAbove" | "crossesBelow";
+
+export type Condition = { left: Operand; op: Comparator; right: Operand };
+
+export type Series = (number | null)[];
+
+/** Memoizes operand series per bar array so shared operands compute once. */
+export class SeriesCache {
+  private memo = new Map<string, Series>();
+  private bars: Agg[];
+
+  constructor(bars: Agg[]) {
+    this.bars = bars;
+  }
+
+  get length() {
+    return this.bars.length;
+  }
+
+  operand(op: Operand): Series {
+    const key = JSON.stringify(op);
+    let s = this.memo.get(key);
+    if (!s) {
+      s = computeOperand(this.bars, op);
+      this.memo.set(key, s);
+    }
+    return s;
+  }
+}
+
+function computeOperand(bars: Agg[], op: Operand): Series {
+  switch (op.kind) {
+    case "price":
+      return bars.map((b) => b[op.field ?? "c"]);
+    case "volume":
+      return bars.map((b) => b.v);
+    case "sma":
+      return sma(
+        bars.map((b) => b[op.field ?? "c"]),
+        op.period
+      );
+    case "ema":
+      return ema(
+        bars.map((b) => b[op.field ?? "c"]),
+        op.period
+      );
+    case "rsi":
+      return rsi(
+        bars.map((b) => b.c),
+        op.period ?? 14
+      );
+    case "macd": {
+      const m = macd(
+        bars.map((b) => b.c),
+        op.fast ?? 12,
+        op.slow ?? 26,
+        op.signal ?? 9
+      );
+      return op.part === "line"
+        ? m.line
+        : op.part === "signal"
+          ? m.signal
+          : m.hist;
+    }
+    case "const":
+      return bars.map(() => op.value);
+  }
+}
+
+/** Value of a condition at bar `i` (false while any input is still warming up). */
+export function conditionAt(cache: SeriesCache, cond: Condition, i: number) {
+  const l = cache.operand(cond.left);
+  const r = cache.operand(cond.right);
+  const a = l[i];
+  const b = r[i];
+  if (a == null || b == null) return false;
+
+  switch (cond.op) {
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case "crossesAbove":
+    case "crossesBelow": {
+      if (i === 0) return false;
+      const pa = l[i - 1];
+      const pb = r[i - 1];
+      if (pa == null || pb == null) return false;
+      return cond.op === "crossesAbove" ? pa <= pb && a > b : pa >= pb && a < b;
+    }
+  }
+}
+
+/** Combine conditions at bar `i`; an empty list is never satisfied. */
+export function conditionsAt(
+  cache: SeriesCache,
+  conds: Condition[],
+  mode: "all" | "any",
+  i: number
+) {
+  if (!conds.length) return false;
+  return mode === "all"
+    ? conds.every((c) => conditionAt(cache, c, i))
+    : conds.some((c) => conditionAt(cache, c, i));
+}
+
+const OPERAND_KINDS = new Set([
+  "price",
+  "volume",
+  "sma",
+  "ema",
+  "rsi",
+  "macd",
+  "const",
+]);
+const COMPARATORS = new Set([
+  ">",
+  ">=",
+  "<",
+  "<=",
+  "crossesAbove",
+  "crossesBelow",
+]);
+
+const PRICE_FIELDS = new Set(["o", "h", "l", "c"]);
+const MACD_PARTS = new Set(["line", "signal", "hist"]);
+/** Longest lookback accepted; more than any chart range holds. */
+const MAX_PERIOD = 1000;
+
+const isPeriod = (v: unknown) =>
+  Number.isInteger(v) && (v as number) >= 1 && (v as number) <= MAX_PERIOD;
+
+/** Errors for one operand's parameters (its kind already checked). */
+function operandErrors(o: Record<string, unknown>, where: string): string[] {
+  const errors: string[] = [];
+  const period = (key: string, required: boolean) => {
+    if (o[key] == null ? required : !isPeriod(o[key]))
+      errors.push(
+        `${where}.${key} must be an integer between 1 and ${MAX_PERIOD}`
+      );
+  };
+  if (o.field != null && !PRICE_FIELDS.has(String(o.field)))
+    errors.push(`${where}.field must be one of o, h, l, c`);
+  switch (o.kind) {
+    case "sma":
+    case "ema":
+      period("period", true);
+      break;
+    case "rsi":
+      period("period", false);
+      break;
+    case "macd":
+      if (!MACD_PARTS.has(String(o.part)))
+        errors.push(`${where}.part must be one of line, signal, hist`);
+      period("fast", false);
+      period("slow", false);
+      period("signal", false);
+      if (
+        isPeriod(o.fast ?? 12) &&
+        isPeriod(o.slow ?? 26) &&
+        ((o.fast ?? 12) as number) >= ((o.slow ?? 26) as number)
+      )
+        errors.push(`${where}.fast must be shorter than slow`);
+      break;
+    case "const":
+      if (typeof o.value !== "number" || !Number.isFinite(o.value))
+        errors.push(`${where}.value must be a number`);
+      break;
+  }
+  return errors;
+}
+
+/** Structural check for conditions arriving as untrusted JSON. */
+export function validateConditions(input: unknown, label: string): string[] {
+  if (!Array.isArray(input)) return [`${label} must be an array`];
+  const errors: string[] = [];
+  input.forEach((c, i) => {
+    const where = `${label}[${i}]`;
+    if (!c || typeof c !== "object") {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    const cond = c as Record<string, unknown>;
+    if (!COMPARATORS.has(String(cond.op))) {
+      errors.push(`${where}.op is not a known comparator`);
+    }
+    for (const side of ["left", "right"] as const) {
+      const o = cond[side] as Record<string, unknown> | undefined;
+      if (!o || !OPERAND_KINDS.has(String(o.kind))) {
+        errors.push(`${where}.${side}.kind is not a known operand`);
+        continue;
+      }
+      errors.push(...operandErrors(o, `${where}.${side}`));
+    }
+  });
+  return errors;
+}
+
+/** Human-readable form, e.g. "SMA(50) crossesAbove SMA(200)". */
+export function describeOperand(op: Operand): string {
+  switch (op.kind) {
+    case "price":
+      return { o: "Open", h: "High", l: "Low", c: "Close" }[op.field ?? "c"];
+    case "volume":
+      return "Volume";
+    case "sma":
+    case "ema":
+      return `${op.kind.toUpperCase()}(${op.period})`;
+    case "rsi":
+      return `RSI(${op.period ?? 14})`;
+    case "macd":
+      return `MACD ${op.part}`;
+    case "const":
+      return String(op.value);
+  }
+}
+
+export function describeCondition(c: Condition) {
+  const op = {
+    ">": ">",
+    ">=": "≥",
+    "<": "<",
+    "<=": "≤",
+    crossesAbove: "crosses above",
+    crossesBelow: "crosses below",
+  }[c.op];
+  return `${describeOperand(c.left)} ${op} ${describeOperand(c.right)}`;
+}
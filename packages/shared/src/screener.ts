@@ -0,0 +1,191 @@
+// packages/shared/src/screener.ts
+// Screener rows are per-ticker snapshots computed from stored daily bars and
+// ticker details; filters are plain JSON so the UI can send them as-is.
+import {
+  SeriesCache,
+  conditionsAt,
+  validateConditions,
+  type Condition,
+} from "./rules";
+import { marketDateOf } from "./series";
+import type { Agg } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ScreenerRow = {
+  ticker: string;
+  name: string | null;
+  asOf: string | null; // market date of the last bar
+  close: number | null;
+  changePct: number | null; // last close vs the one before, %
+  volume: number | null;
+  avgVolume20: number | null;
+  high52: number | null;
+  low52: number | null;
+  pos52: number | null; // where the close sits in the 52-week range, 0–100
+  marketCap: number | null;
+  historyDays: number; // daily bars behind the 52-week fields
+  updatedAt: string | null; // when history/details were last refreshed
+};
+
+export type ScreenerFilters = {
+  minPrice?: number;
+  maxPrice?: number;
+  minVolume?: number;
+  minAvgVolume?: number;
+  minChangePct?: number;
+  maxChangePct?: number;
+  minPos52?: number;
+  maxPos52?: number;
+  minMarketCap?: number;
+  maxMarketCap?: number;
+  conditions?: Condition[];
+  mode?: "all" | "any";
+};
+
+export const SORT_FIELDS = [
+  "ticker",
+  "close",
+  "changePct",
+  "volume",
+  "avgVolume20",
+  "pos52",
+  "marketCap",
+] as const satisfies readonly (keyof ScreenerRow)[];
+
+export type SortField = (typeof SORT_FIELDS)[number];
+
+/** Range filters: row field plus the bound it is compared against. */
+const RANGES: [keyof ScreenerRow, keyof ScreenerFilters, "min" | "max"][] = [
+  ["close", "minPrice", "min"],
+  ["close", "maxPrice", "max"],
+  ["volume", "minVolume", "min"],
+  ["avgVolume20", "minAvgVolume", "min"],
+  ["changePct", "minChangePct", "min"],
+  ["changePct", "maxChangePct", "max"],
+  ["pos52", "minPos52", "min"],
+  ["pos52", "maxPos52", "max"],
+  ["marketCap", "minMarketCap", "min"],
+  ["marketCap", "maxMarketCap", "max"],
+];
+
+export function validateScreenerFilters(input: unknown): string[] {
+  if (input == null) return [];
+  if (typeof input !== "object") return ["filters must be an object"];
+  const f = input as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const [, key] of RANGES) {
+    if (f[key] != null && !Number.isFinite(f[key]))
+      errors.push(`${key} must be a number`);
+  }
+  if (f.conditions != null)
+    errors.push(...validateConditions(f.conditions, "conditions"));
+  if (f.mode != null && f.mode !== "all" && f.mode !== "any")
+    errors.push('mode must be "all" or "any"');
+  return errors;
+}
+
+/** Snapshot fields that come from bars (details are merged in separately). */
+export function rowFromBars(
+  bars: Agg[]
+): Omit<ScreenerRow, "ticker" | "name" | "marketCap" | "updatedAt"> {
+  const last = bars.at(-1);
+  if (!last)
+    return {
+      asOf: null,
+      close: null,
+      changePct: null,
+      volume: null,
+      avgVolume20: null,
+      high52: null,
+      low52: null,
+      pos52: null,
+      historyDays: 0,
+    };
+  const prev = bars.at(-2);
+  const year = bars.filter((b) => b.t >= last.t - 365 * DAY_MS);
+  const high52 = Math.max(...year.map((b) => b.h));
+  const low52 = Math.min(...year.map((b) => b.l));
+  const recent = bars.slice(-20);
+  return {
+    asOf: marketDateOf(last.t),
+    close: last.c,
+    changePct: prev?.c ? (last.c / prev.c - 1) * 100 : null,
+    volume: last.v,
+    avgVolume20: recent.reduce((s, b) => s + b.v, 0) / recent.length,
+    high52,
+    low52,
+    pos52: high52 > low52 ? ((last.c - low52) / (high52 - low52)) * 100 : null,
+    historyDays: year.length,
+  };
+}
+
+/**
+ * Range filters only. A row missing a field that a filter needs does not
+ * match, so unrefreshed tickers drop out instead of passing by default.
+ */
+export function matchesRanges(row: ScreenerRow, f: ScreenerFilters) {
+  return RANGES.every(([field, key, side]) => {
+    const bound = f[key] as number | undefined;
+    if (bound == null) return true;
+    const v = row[field] as number | null;
+    if (v == null) return false;
+    return side === "min" ? v >= bound : v <= bound;
+  });
+}
+
+/** Indicator conditions on the last stored bar. */
+export function matchesConditions(bars: Agg[], f: ScreenerFilters) {
+  if (!f.conditions?.length) return true;
+  if (!bars.length) return false;
+  return conditionsAt(
+    new SeriesCache(bars),
+    f.conditions,
+    f.mode ?? "all",
+    bars.length - 1
+  );
+}
+
+export function sortRows(
+  rows: ScreenerRow[],
+  field: SortField,
+  dir: "asc" | "desc"
+) {
+  const sign = dir === "asc" ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const x = a[field];
+    const y = b[field];
+    // nulls last regardless of direction
+    if (x == null || y == null) return x == null ? (y == null ? 0 : 1) : -1;
+    return (
+      sign *
+      (typeof x === "string" ? x.localeCompare(String(y)) : x - (y as number))
+    );
+  });
+}
+
+const CSV_COLUMNS: (keyof ScreenerRow)[] = [
+  "ticker",
+  "name",
+  "asOf",
+  "close",
+  "changePct",
+  "volume",
+  "avgVolume20",
+  "high52",
+  "low52",
+  "pos52",
+  "marketCap",
+];
+
+export function rowsToCsv(rows: ScreenerRow[]) {
+  const cell = (v: unknown) => {
+    if (v == null) return "";
+    const s = String(v);
+    return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((r) => CSV_COLUMNS.map((c) => cell(r[c])).join(",")),
+  ].join("\n");
+}
@@ -0,0 +1,85 @@
+// packages/shared/src/series.ts
+// Helpers for lining up several tickers' daily bars on common dates.
+
+export type ClosePoint = { t: number; c: number };
+
+const etFmt = new Intl.DateTimeFormat("en-CA", {
+  timeZone: "America/New_York",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+/** YYYY-MM-DD trading date of a bar timestamp (US/Eastern). */
+export const marketDateOf = (t: number) => etFmt.format(t);
+
+/**
+ * Keep only dates every series has a bar for, so a missing bar in one
+ * ticker never pairs its neighbour's close with another ticker's close.
+ * `t` is the first series' timestamp for each kept date.
+ */
+export function alignCloses(series: Record<string, ClosePoint[]>): {
+  t: number[];
+  dates: string[];
+  closes: Record<string, number[]>;
+} {
+  const keys = Object.keys(series);
+  const byDate = keys.map((k) => {
+    const m = new Map<string, ClosePoint>();
+    for (const p of series[k]) m.set(marketDateOf(p.t), p);
+    return m;
+  });
+  const closes: Record<string, number[]> = Object.fromEntries(
+    keys.map((k) => [k, []])
+  );
+  const t: number[] = [];
+  const dates: string[] = [];
+  if (!keys.length) return { t, dates, closes };
+
+  const common = [...byDate[0].keys()]
+    .filter((d) => byDate.every((m) => m.has(d)))
+    .sort();
+  for (const d of common) {
+    dates.push(d);
+    t.push(byDate[0].get(d)!.t);
+    keys.forEach((k, i) => closes[k].push(byDate[i].get(d)!.c));
+  }
+  return { t, dates, closes };
+}
+
+/** Simple period returns: r[i] = c[i + 1] / c[i] - 1 (one shorter than input). */
+export function simpleReturns(closes: number[]) {
+  const out: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    out.push(closes[i - 1] ? closes[i] / closes[i - 1] - 1 : 0);
+  }
+  return out;
+}
+
+export function mean(xs: number[]) {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : NaN;
+}
+
+/** Sample standard deviation (n - 1). */
+export function stdev(xs: number[]) {
+  if (xs.length < 2) return NaN;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((s, x) => s + (x - m) ** 2, 0) / (xs.length - 1));
+}
+
+/** Pearson correlation of two equal-length series (NaN if degenerate). */
+export function correlation(a: number[], b: number[]) {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return NaN;
+  const ma = mean(a.slice(0, n));
+  const mb = mean(b.slice(0, n));
+  let cov = 0;
+  let va = 0;
+  let vb = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - ma) * (b[i] - mb);
+    va += (a[i] - ma) ** 2;
+    vb += (b[i] - mb) ** 2;
+  }
+  return va && vb ? cov / Math.sqrt(va * vb) : NaN;
+}
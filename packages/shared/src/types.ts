@@ -0,0 +1,13 @@
+// packages/shared/src/types.ts
+
+/** One OHLCV bar, same shape Polygon returns in aggregates `results`. */
+export type Agg = {
+  t: number; // bar start, epoch ms
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+  vw?: number;
+  n?: number;
+};